@@ -0,0 +1,70 @@
+/**
+ * Cache Command - inspect and evict the embedding cache
+ */
+
+import { Command } from 'commander';
+import { embeddingCacheRepository } from '@context8/database';
+import { createLogger } from '../utils/index.js';
+
+export const cacheCommand = new Command('cache')
+  .description('Manage the embedding cache');
+
+// cache stats
+cacheCommand
+  .command('stats')
+  .description('Show cached embeddings per provider and model')
+  .action(async () => {
+    const logger = createLogger();
+
+    try {
+      const stats = await embeddingCacheRepository.getStats();
+
+      if (stats.length === 0) {
+        logger.info('Embedding cache is empty');
+        return;
+      }
+
+      for (const entry of stats) {
+        const lastUsed = entry.lastUsedAt ? entry.lastUsedAt.toLocaleString() : 'never';
+        console.log(`${entry.provider}/${entry.model} (${entry.dimensions}d)`);
+        console.log(`   Entries: ${entry.entries}`);
+        console.log(`   Last used: ${lastUsed}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to read embedding cache: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// cache evict
+cacheCommand
+  .command('evict')
+  .description('Delete cached embeddings')
+  .option('--unused-days <days>', 'Only embeddings not used in this many days', (value) => parseInt(value, 10))
+  .option('--provider <name>', 'Only embeddings of this provider')
+  .option('--model <name>', 'Only embeddings of this model')
+  .option('--all', 'Delete every cached embedding')
+  .action(async (options) => {
+    const logger = createLogger();
+
+    if (options.unusedDays === undefined && !options.provider && !options.model && !options.all) {
+      logger.error('Pass --unused-days, --provider or --model, or --all to clear the whole cache');
+      process.exit(1);
+    }
+
+    try {
+      const unusedSince = options.unusedDays !== undefined
+        ? new Date(Date.now() - options.unusedDays * 24 * 60 * 60 * 1000)
+        : undefined;
+
+      const count = await embeddingCacheRepository.evict({
+        unusedSince,
+        provider: options.provider,
+        model: options.model,
+      });
+      logger.success(`Evicted ${count} cached embedding(s)`);
+    } catch (error) {
+      logger.error(`Failed to evict embeddings: ${error}`);
+      process.exit(1);
+    }
+  });
@@ -2,13 +2,12 @@
  * Index Command - index a local directory
  */
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { resolve } from 'node:path';
 import { access } from 'node:fs/promises';
 import { indexingPipeline, type IndexingProgress } from '@context8/indexer';
-import { createDeepSeekProvider, CodeSummarizer } from '@context8/llm-service';
-import { createMockProvider, createOpenAIProvider } from '@context8/embedding';
-import { configStore, createLogger } from '../utils/index.js';
+import { SECRET_POLICIES, formatSecretFinding } from '@context8/secret-scanner';
+import { configStore, configurePipelineServices, createLogger } from '../utils/index.js';
 
 export const indexCommand = new Command('index')
   .description('Index a local code directory')
@@ -20,6 +19,11 @@ export const indexCommand = new Command('index')
   .option('-v, --verbose', 'Verbose output')
   .option('--include <patterns>', 'File patterns to include (comma-separated)')
   .option('--exclude <patterns>', 'File patterns to exclude (comma-separated)')
+  .option('--notebook-outputs', 'Keep small text outputs of notebook cells')
+  .addOption(
+    new Option('--secrets <policy>', 'What to do with files that contain secrets (default: redact)').choices(SECRET_POLICIES)
+  )
+  .option('--concurrency <n>', 'Number of parse worker threads (default: available CPUs)', (value) => parseInt(value, 10))
   .action(async (options) => {
     const logger = createLogger(options.verbose);
 
@@ -39,67 +43,7 @@ export const indexCommand = new Command('index')
       // Load configuration
       const config = await configStore.load();
 
-      // Setup LLM service if not skipped
-      let llmService: { summarize: (content: string, meta: { language: string; symbolName?: string }) => Promise<{ summary: string; keywords: string[] }> } | undefined;
-
-      if (options.llm !== false) {
-        // Check for api key with both naming conventions
-        const llmConfig = config.llm as Record<string, unknown>;
-        const llmApiKey = (llmConfig.apiKey ?? llmConfig['api-key']) as string | undefined;
-
-        if (llmApiKey) {
-          logger.debug('Setting up LLM service with DeepSeek');
-          const provider = createDeepSeekProvider(llmApiKey, {
-            baseUrl: config.llm.baseUrl,
-            model: config.llm.model,
-          });
-          const summarizer = new CodeSummarizer(provider);
-
-          llmService = {
-            async summarize(content: string, meta: { language: string; symbolName?: string }) {
-              const result = await summarizer.summarize(content, meta);
-              return { summary: result.summary, keywords: result.keywords };
-            },
-          };
-
-          indexingPipeline.setLLMService(llmService);
-        } else {
-          logger.warn('No LLM API key configured. Run: context8 config set llm.api-key YOUR_KEY');
-          logger.warn('Skipping LLM summarization');
-        }
-      }
-
-      // Setup embedding service
-      const embeddingConfig = config.embedding as Record<string, unknown> | undefined;
-      const openaiApiKey = (embeddingConfig?.apiKey ?? embeddingConfig?.['api-key'] ?? process.env.OPENAI_API_KEY) as string | undefined;
-
-      if (openaiApiKey) {
-        logger.debug('Setting up embedding service with OpenAI');
-        const embeddingProvider = createOpenAIProvider({
-          apiKey: openaiApiKey,
-          model: 'text-embedding-3-small',
-          dimensions: 1536,
-        });
-        indexingPipeline.setEmbeddingService({
-          async embed(text: string) {
-            return embeddingProvider.embed(text);
-          },
-          async embedBatch(texts: string[]) {
-            return embeddingProvider.embedBatch(texts);
-          },
-        });
-      } else {
-        logger.debug('Setting up embedding service (mock)');
-        const embeddingProvider = createMockProvider({ dimensions: 1024 });
-        indexingPipeline.setEmbeddingService({
-          async embed(text: string) {
-            return embeddingProvider.embed(text);
-          },
-          async embedBatch(texts: string[]) {
-            return embeddingProvider.embedBatch(texts);
-          },
-        });
-      }
+      configurePipelineServices(config, { llm: options.llm !== false }, logger);
 
       // Progress callback
       const onProgress = (progress: IndexingProgress) => {
@@ -136,6 +80,9 @@ export const indexCommand = new Command('index')
           verbose: options.verbose,
           include,
           exclude,
+          notebookOutputs: options.notebookOutputs,
+          secrets: options.secrets,
+          concurrency: options.concurrency,
           triggeredBy: 'CLI',
         },
         onProgress
@@ -157,9 +104,32 @@ export const indexCommand = new Command('index')
         }
 
         logger.info(`Chunks created: ${result.chunksCreated}`);
+        if (result.chunksAdded + result.chunksUpdated + result.chunksDeleted > 0) {
+          logger.info(`  Added: ${result.chunksAdded}, updated: ${result.chunksUpdated}, deleted: ${result.chunksDeleted}`);
+        }
         logger.info(`Summaries generated: ${result.summariesGenerated}`);
+        if (result.summaryCacheHits > 0) {
+          logger.info(`  From cache: ${result.summaryCacheHits}`);
+        }
+        const cacheLookups = result.embeddingCacheHits + result.embeddingCacheMisses;
+        if (cacheLookups > 0) {
+          logger.info(`Embedding cache hits: ${result.embeddingCacheHits}/${cacheLookups}`);
+        }
         logger.info(`Duration: ${logger.formatDuration(result.duration)}`);
 
+        if (result.secretFindings.length > 0) {
+          const files = new Set(result.secretFindings.map((f) => f.filePath));
+          const action = result.secretFindings[0].skipped ? 'skipped' : 'redacted';
+          logger.warn(
+            `Secrets: ${logger.formatCount(result.secretFindings.length, 'secret')} found in ${logger.formatCount(files.size, 'file')} (${action})`
+          );
+          if (options.verbose) {
+            for (const finding of result.secretFindings) {
+              logger.debug(`  ${formatSecretFinding(finding)}`);
+            }
+          }
+        }
+
         if (result.errors.length > 0) {
           logger.warn(`Warnings: ${result.errors.length} errors encountered`);
           if (options.verbose) {
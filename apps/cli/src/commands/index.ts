@@ -1,3 +1,5 @@
 export { indexCommand } from './index-cmd.js';
 export { configCommand } from './config-cmd.js';
 export { statusCommand } from './status-cmd.js';
+export { cacheCommand } from './cache-cmd.js';
+export { watchCommand } from './watch-cmd.js';
@@ -0,0 +1,95 @@
+/**
+ * Watch Command - keep the index of a local directory up to date while editing
+ */
+
+import { Command } from 'commander';
+import { resolve } from 'node:path';
+import { access } from 'node:fs/promises';
+import { FileWatcher, indexingPipeline, type IndexingOptions, type IndexingResult } from '@context8/indexer';
+import { configStore, configurePipelineServices, createLogger, type Logger } from '../utils/index.js';
+
+export const watchCommand = new Command('watch')
+  .description('Watch a local code directory and re-index files as they change')
+  .requiredOption('-p, --path <directory>', 'Path to the directory to watch')
+  .option('--no-llm', 'Skip LLM summarization')
+  .option('-v, --verbose', 'Verbose output')
+  .option('--include <patterns>', 'File patterns to include (comma-separated)')
+  .option('--exclude <patterns>', 'File patterns to exclude (comma-separated)')
+  .option('--debounce <ms>', 'Wait this long after the last change before indexing (default: 500)', (value) => parseInt(value, 10))
+  .option('--concurrency <n>', 'Number of parse worker threads (default: available CPUs)', (value) => parseInt(value, 10))
+  .action(async (options) => {
+    const logger = createLogger(options.verbose);
+
+    const targetPath = resolve(options.path);
+    try {
+      await access(targetPath);
+    } catch {
+      logger.error(`Path does not exist: ${targetPath}`);
+      process.exit(1);
+    }
+
+    const config = await configStore.load();
+    configurePipelineServices(config, { llm: options.llm !== false }, logger);
+
+    const include = options.include?.split(',').map((p: string) => p.trim());
+    const exclude = options.exclude?.split(',').map((p: string) => p.trim());
+    const indexingOptions: IndexingOptions = {
+      skipLLM: options.llm === false,
+      verbose: options.verbose,
+      include,
+      exclude,
+      concurrency: options.concurrency,
+    };
+
+    const watcher = new FileWatcher(targetPath, {
+      includePatterns: include,
+      excludePatterns: exclude,
+      debounceMs: options.debounce,
+    });
+
+    // Watch before catching up with changes made since the last run, so
+    // edits made meanwhile are queued and indexed once the catch-up is done
+    let initial: Promise<void> | undefined;
+    await watcher.start(async (paths) => {
+      await initial;
+      logger.updateSpinner(`Indexing ${logger.formatCount(paths.length, 'changed path')}...`);
+      const result = await indexingPipeline.index(targetPath, { ...indexingOptions, paths }, (progress) => {
+        if (progress.currentFile) {
+          logger.updateSpinner(`Indexing ${progress.phase} ${progress.current}/${progress.total} - ${progress.currentFile}`);
+        }
+      });
+      logger.updateSpinner(formatStatus(logger, targetPath, result));
+    });
+
+    logger.startSpinner(`Indexing changes in ${targetPath}...`);
+    initial = indexingPipeline.index(targetPath, indexingOptions).then((result) => {
+      logger.updateSpinner(formatStatus(logger, targetPath, result));
+    });
+    await initial;
+
+    const stop = async () => {
+      await watcher.close();
+      logger.stopSpinner();
+      logger.info('Stopped watching');
+      process.exit(0);
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+
+/**
+ * One-line status: watched path and the outcome of the last run
+ */
+function formatStatus(logger: Logger, targetPath: string, result: IndexingResult): string {
+  const time = new Date().toLocaleTimeString();
+
+  if (!result.success) {
+    const message = result.errors[0]?.message ?? 'unknown error';
+    return `Watching ${targetPath} | ${time} indexing failed: ${message}`;
+  }
+
+  const files = `+${result.filesAdded} ~${result.filesModified} -${result.filesRemoved} files`;
+  const chunks = `+${result.chunksAdded} ~${result.chunksUpdated} -${result.chunksDeleted} chunks`;
+  const errors = result.errors.length > 0 ? `, ${logger.formatCount(result.errors.length, 'error')}` : '';
+  return `Watching ${targetPath} | ${time} ${files}, ${chunks} in ${logger.formatDuration(result.duration)}${errors}`;
+}
@@ -31,7 +31,7 @@ const envPath = findEnvFile();
 if (envPath) {
   config({ path: envPath });
 }
-import { indexCommand, configCommand, statusCommand } from './commands/index.js';
+import { indexCommand, configCommand, statusCommand, cacheCommand, watchCommand } from './commands/index.js';
 
 const program = new Command();
 
@@ -44,6 +44,8 @@ program
 program.addCommand(indexCommand);
 program.addCommand(configCommand);
 program.addCommand(statusCommand);
+program.addCommand(cacheCommand);
+program.addCommand(watchCommand);
 
 // Parse and execute
 program.parse(process.argv);
@@ -1,2 +1,3 @@
 export * from './config-store.js';
 export * from './logger.js';
+export * from './pipeline-services.js';
@@ -0,0 +1,82 @@
+/**
+ * Pipeline Services - LLM and embedding setup shared by indexing commands
+ */
+
+import { indexingPipeline, type ILLMService } from '@context8/indexer';
+import { createDeepSeekProvider, CodeSummarizer } from '@context8/llm-service';
+import { embeddingCacheRepository } from '@context8/database';
+import { createCachedProvider, createMockProvider, createOpenAIProvider } from '@context8/embedding';
+import type { Context8Config } from './config-store.js';
+import type { Logger } from './logger.js';
+
+/**
+ * Configure the shared indexing pipeline from the CLI configuration
+ */
+export function configurePipelineServices(config: Context8Config, options: { llm: boolean }, logger: Logger): void {
+  // Setup LLM service if not skipped
+  if (options.llm) {
+    // Check for api key with both naming conventions
+    const llmConfig = config.llm as Record<string, unknown>;
+    const llmApiKey = (llmConfig.apiKey ?? llmConfig['api-key']) as string | undefined;
+
+    if (llmApiKey) {
+      logger.debug('Setting up LLM service with DeepSeek');
+      const provider = createDeepSeekProvider(llmApiKey, {
+        baseUrl: config.llm.baseUrl,
+        model: config.llm.model,
+      });
+      const summarizer = new CodeSummarizer(provider);
+
+      const llmService: ILLMService = {
+        provider: provider.name,
+        model: provider.model,
+        async summarize(content: string, meta: { language: string; symbolName?: string }) {
+          return summarizer.summarize(content, meta);
+        },
+      };
+
+      indexingPipeline.setLLMService(llmService);
+    } else {
+      logger.warn('No LLM API key configured. Run: context8 config set llm.api-key YOUR_KEY');
+      logger.warn('Skipping LLM summarization');
+    }
+  }
+
+  // Setup embedding service
+  const embeddingConfig = config.embedding as Record<string, unknown> | undefined;
+  const openaiApiKey = (embeddingConfig?.apiKey ?? embeddingConfig?.['api-key'] ?? process.env.OPENAI_API_KEY) as string | undefined;
+
+  if (openaiApiKey) {
+    logger.debug('Setting up embedding service with OpenAI');
+    const embeddingProvider = createCachedProvider(
+      createOpenAIProvider({
+        apiKey: openaiApiKey,
+        model: 'text-embedding-3-small',
+        dimensions: 1536,
+      }),
+      embeddingCacheRepository
+    );
+    indexingPipeline.setEmbeddingService({
+      async embed(text: string) {
+        return embeddingProvider.embed(text);
+      },
+      async embedBatch(texts: string[]) {
+        return embeddingProvider.embedBatch(texts);
+      },
+      cacheStats() {
+        return embeddingProvider.cacheStats();
+      },
+    });
+  } else {
+    logger.debug('Setting up embedding service (mock)');
+    const embeddingProvider = createMockProvider({ dimensions: 1024 });
+    indexingPipeline.setEmbeddingService({
+      async embed(text: string) {
+        return embeddingProvider.embed(text);
+      },
+      async embedBatch(texts: string[]) {
+        return embeddingProvider.embedBatch(texts);
+      },
+    });
+  }
+}
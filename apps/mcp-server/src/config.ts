@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { getEncodingForModel } from '@context8/tokenizer';
 
 /**
  * MCP Server Configuration Schema
@@ -28,6 +29,10 @@ export const ConfigSchema = z.object({
   auth: z.object({
     jwtSecret: z.string().optional(),
   }),
+
+  tokenizer: z.object({
+    encoding: z.enum(['cl100k_base', 'o200k_base']).default('cl100k_base'),
+  }),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -57,5 +62,9 @@ export function loadConfig(): Config {
     auth: {
       jwtSecret: process.env.JWT_SECRET,
     },
+    tokenizer: {
+      // Accepts a model name (e.g. gpt-4o) or an encoding name
+      encoding: getEncodingForModel(process.env.MCP_TOKENIZER_MODEL),
+    },
   });
 }
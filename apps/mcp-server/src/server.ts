@@ -10,6 +10,7 @@ import { resolveLibraryIdTool } from './tools/resolve-library-id.js';
 import { getLibraryDocsTool } from './tools/get-library-docs.js';
 import { getWikiDocsTool } from './tools/get-wiki-docs.js';
 import { deleteProjectTool } from './tools/delete-project.js';
+import { getSymbolReferencesTool } from './tools/get-symbol-references.js';
 
 /**
  * Context8 MCP Server
@@ -19,6 +20,7 @@ import { deleteProjectTool } from './tools/delete-project.js';
  * - resolve-library-id: Resolve library name to Context7-compatible ID
  * - get-library-docs: Fetch documentation with mode/topic/page support
  * - get-wiki-docs: Fetch comprehensive wiki documentation (DeepWiki feature)
+ * - get-symbol-references: Callers and callees of a symbol from the reference graph
  */
 export class Context8McpServer {
   private server: McpServer;
@@ -71,7 +73,7 @@ Response Format:
       'get-library-docs',
       `Fetches up-to-date documentation for a library. You must call 'resolve-library-id' first to obtain the exact Context7-compatible library ID required to use this tool, UNLESS the user explicitly provides a library ID in the format '/local/{uuid}' in their query.
 
-Use mode='code' (default) for API references and code examples, or mode='info' for conceptual guides, narrative information, and architectural questions.`,
+Use mode='code' (default) for API references, code examples and data model schemas, or mode='info' for conceptual guides, configuration files, narrative information, and architectural questions.`,
       {
         context7CompatibleLibraryID: z
           .string()
@@ -80,7 +82,7 @@ Use mode='code' (default) for API references and code examples, or mode='info' f
         mode: z
           .enum(['code', 'info'])
           .default('code')
-          .describe("Documentation mode: 'code' for API references and code examples (default), 'info' for conceptual guides, narrative information, and architectural questions."),
+          .describe("Documentation mode: 'code' for API references, code examples and data model schemas (default), 'info' for conceptual guides, configuration files, narrative information, and architectural questions."),
         topic: z.string().optional().describe("Topic to focus documentation on (e.g., 'hooks', 'routing')."),
         page: z
           .number()
@@ -122,6 +124,34 @@ Returns wiki structure with all pages. Use pageId parameter to fetch a specific
       }
     );
 
+    // Tool: get-symbol-references
+    this.server.tool(
+      'get-symbol-references',
+      `Finds where a symbol is used and what it uses, from the call and reference graph built at indexing time.
+
+Use direction='callers' to answer "who calls X" (including type, inheritance and JSX usages), direction='callees' to answer "what does X depend on", or 'both' (default). Prefer this over get-library-docs when you need exact usages rather than similar code.
+
+Each reference has a resolution: 'local' or 'import' when it was matched through scopes and imports, 'name' when only the name was unique in the library, 'unresolved' for external or ambiguous targets.`,
+      {
+        context7CompatibleLibraryID: z
+          .string()
+          .min(1)
+          .describe("Exact Context7-compatible library ID (e.g., '/local/{uuid}') retrieved from 'resolve-library-id'."),
+        symbol: z
+          .string()
+          .min(1)
+          .describe("Symbol name, simple ('load') or qualified with its enclosing symbols ('Config.load')."),
+        direction: z
+          .enum(['callers', 'callees', 'both'])
+          .default('both')
+          .describe("'callers' for usages of the symbol, 'callees' for what it references, 'both' (default)."),
+        filePath: z.string().optional().describe('Limit to the symbol defined in this file (relative to the library root).'),
+      },
+      async (args, extra) => {
+        return getSymbolReferencesTool(args, extra, this.config);
+      }
+    );
+
     // Tool: delete-project
     this.server.tool(
       'delete-project',
@@ -192,13 +222,14 @@ Use this when a user mentions an internal component by its common name.`,
     // Tool: fetch_file_context
     this.server.tool(
       'fetch_file_context',
-      `Retrieve the full content of a specific file or a range of lines.
+      `Retrieve the full content of a specific file, a range of lines or a notebook cell.
 Use this after search returns a snippet and you need more context.`,
       {
-        repo_name: z.string().describe('Repository name'),
+        repo_name: z.string().describe('Repository name, or library ID (/local/{uuid}) for local sources'),
         file_path: z.string().describe('File path within the repository'),
         start_line: z.number().int().min(1).optional().describe('Starting line (1-indexed)'),
         end_line: z.number().int().min(1).optional().describe('Ending line (inclusive)'),
+        cell: z.number().int().min(0).optional().describe('Notebook cell index (for .ipynb files); returns the indexed content of that cell'),
       },
       async (args, extra) => {
         return fetchFileTool(args, extra, this.config);
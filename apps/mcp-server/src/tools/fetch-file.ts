@@ -1,11 +1,15 @@
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { Config } from '../config.js';
+import { QdrantClient } from '@context8/vector-store';
+import { parseLibraryId } from '../utils/library-id-parser.js';
+import { formatLocation } from '../utils/location.js';
 
 interface FetchFileArgs {
   repo_name: string;
   file_path: string;
   start_line?: number;
   end_line?: number;
+  cell?: number;
 }
 
 /**
@@ -14,11 +18,15 @@ interface FetchFileArgs {
 export async function fetchFileTool(
   args: FetchFileArgs,
   _extra: unknown,
-  _config: Config
+  config: Config
 ): Promise<CallToolResult> {
-  const { repo_name, file_path, start_line, end_line } = args;
+  const { repo_name, file_path, start_line, end_line, cell } = args;
 
   try {
+    if (cell !== undefined) {
+      return await fetchNotebookCell(repo_name, file_path, cell, config);
+    }
+
     // TODO: Implement proper file fetching from indexed content or GitHub API
     // For MVP, return a placeholder response
 
@@ -63,3 +71,99 @@ export async function fetchFileTool(
     };
   }
 }
+
+/**
+ * Content of a notebook cell from the indexed chunks covering it. Notebook
+ * chunks store cell indices as start/end lines.
+ */
+async function fetchNotebookCell(
+  repoName: string,
+  filePath: string,
+  cell: number,
+  config: Config
+): Promise<CallToolResult> {
+  const qdrant = new QdrantClient(
+    {
+      host: config.qdrant.host,
+      port: config.qdrant.port,
+      apiKey: config.qdrant.apiKey,
+    },
+    config.qdrant.collectionName
+  );
+
+  // Local sources are addressed by library ID, e.g. /local/{uuid}
+  const parsed = parseLibraryId(repoName);
+  const repoCondition =
+    parsed?.type === 'local'
+      ? { key: 'source_id', match: { value: parsed.id } }
+      : { key: 'repo_id', match: { value: repoName } };
+
+  const chunks: Array<{ content: string; startLine: number; endLine: number }> = [];
+  let offset: string | number | undefined;
+  do {
+    const page = await qdrant.scroll({
+      filter: { must: [repoCondition, { key: 'file_path', match: { value: filePath } }] },
+      limit: 256,
+      offset,
+    });
+    for (const { payload } of page.points) {
+      const startLine = Number(payload.start_line ?? 0);
+      const endLine = Number(payload.end_line ?? startLine);
+      // The file summary spans every cell
+      if (payload.chunk_type === 'file_summary' || cell < startLine || cell > endLine) continue;
+      chunks.push({ content: String(payload.content ?? ''), startLine, endLine });
+    }
+    offset = page.nextPageOffset;
+  } while (offset !== undefined);
+
+  if (chunks.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              error: 'Cell not found',
+              message: `No indexed content for cell ${cell} of ${filePath} in ${repoName}`,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  chunks.sort((a, b) => a.startLine - b.startLine || a.endLine - b.endLine);
+  const returnedCells = {
+    start: Math.min(...chunks.map((c) => c.startLine)),
+    end: Math.max(...chunks.map((c) => c.endLine)),
+  };
+
+  const output = {
+    file: {
+      path: filePath,
+      repo_name: repoName,
+      language: 'python',
+      content: chunks.map((c) => c.content).join('\n\n'),
+      cell,
+      // Chunks may span neighbouring cells
+      returned_cells: returnedCells,
+    },
+    source: {
+      repo: repoName,
+      file: filePath,
+      lines: formatLocation(filePath, returnedCells.start, returnedCells.end),
+    },
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(output, null, 2),
+      },
+    ],
+  };
+}
@@ -5,6 +5,7 @@ import { localSourceRepository, settingsService } from '@context8/database';
 import { createProvider, type ProviderName } from '@context8/embedding';
 import { parseLibraryId } from '../utils/library-id-parser.js';
 import { paginate, truncateToTokenLimit } from '../utils/pagination.js';
+import { formatLocation, isNotebook } from '../utils/location.js';
 
 interface GetLibraryDocsArgs {
   context7CompatibleLibraryID: string;
@@ -15,8 +16,8 @@ interface GetLibraryDocsArgs {
 
 // Mode to chunk type mapping
 const MODE_CHUNK_TYPES: Record<string, string[]> = {
-  code: ['function', 'method', 'class', 'interface', 'type_alias', 'module', 'variable'],
-  info: ['file_summary', 'comment', 'docstring', 'readme', 'documentation'],
+  code: ['function', 'method', 'class', 'interface', 'type_alias', 'struct', 'enum', 'trait', 'impl', 'module', 'variable', 'schema'],
+  info: ['file_summary', 'comment', 'docstring', 'readme', 'documentation', 'config'],
   snippet: ['snippet'], // Knowledge base entries in llms.txt format
 };
 
@@ -32,6 +33,8 @@ interface DocResult {
   symbolName: string | null;
   content: string;
   summary?: string;
+  deprecationNote?: string;
+  relations?: string[];
   relevanceScore: number;
 }
 
@@ -53,8 +56,8 @@ interface SnippetResult {
  *
  * Fetches up-to-date documentation for a library.
  * Supports three modes:
- * - mode='code' for API references and code examples (default)
- * - mode='info' for conceptual guides, narrative information, and architectural questions
+ * - mode='code' for API references, code examples and data model schemas (default)
+ * - mode='info' for conceptual guides, configuration files, narrative information, and architectural questions
  * - mode='snippet' for knowledge base entries in llms.txt format
  */
 export async function getLibraryDocsTool(
@@ -238,7 +241,8 @@ export async function getLibraryDocsTool(
       // Apply token limit
       const { results: tokenLimitedSnippets, totalTokens, truncated } = truncateToTokenLimit(
         paginatedSnippets.items,
-        DEFAULT_TOKEN_LIMIT
+        DEFAULT_TOKEN_LIMIT,
+        config.tokenizer.encoding
       );
 
       // Format as llms.txt style
@@ -298,9 +302,11 @@ export async function getLibraryDocsTool(
       endLine: r.payload.end_line ?? 0,
       language: r.payload.language,
       chunkType: r.payload.chunk_type,
-      symbolName: r.payload.symbol_name ?? null,
+      symbolName: r.payload.qualified_name ?? r.payload.symbol_name ?? null,
       content: r.payload.content,
       summary: (r.payload as unknown as Record<string, unknown>).summary as string | undefined,
+      deprecationNote: r.payload.deprecated ? r.payload.deprecation_note || 'no replacement given' : undefined,
+      relations: r.payload.relations,
       relevanceScore: r.score,
     }));
 
@@ -310,18 +316,26 @@ export async function getLibraryDocsTool(
     // Apply token limit to paginated results
     const { results: tokenLimitedResults, totalTokens, truncated } = truncateToTokenLimit(
       paginatedResults.items,
-      DEFAULT_TOKEN_LIMIT
+      DEFAULT_TOKEN_LIMIT,
+      config.tokenizer.encoding
     );
 
     // Format output for LLM consumption
     const formattedDocs = tokenLimitedResults.map((doc) => {
-      const header = `### ${doc.filePath}:${doc.startLine}-${doc.endLine} (${doc.chunkType})`;
+      const location = formatLocation(doc.filePath, doc.startLine, doc.endLine);
+      const header = isNotebook(doc.filePath)
+        ? `### ${doc.filePath} [${location}] (${doc.chunkType})`
+        : `### ${doc.filePath}:${location} (${doc.chunkType})`;
       const symbolInfo = doc.symbolName ? `Symbol: ${doc.symbolName}` : '';
       const summaryInfo = doc.summary ? `Summary: ${doc.summary}` : '';
+      const deprecationInfo = doc.deprecationNote ? `Deprecated: ${doc.deprecationNote}` : '';
+      const relationInfo = doc.relations?.length ? `Relations: ${doc.relations.join(', ')}` : '';
 
       return [
         header,
         symbolInfo,
+        deprecationInfo,
+        relationInfo,
         summaryInfo,
         '```' + doc.language,
         doc.content,
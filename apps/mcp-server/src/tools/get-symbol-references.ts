@@ -0,0 +1,160 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from '../config.js';
+import { localSourceRepository, symbolGraphRepository } from '@context8/database';
+import { parseLibraryId } from '../utils/library-id-parser.js';
+
+type Direction = 'callers' | 'callees' | 'both';
+
+interface GetSymbolReferencesArgs {
+  context7CompatibleLibraryID: string;
+  symbol: string;
+  direction?: Direction;
+  filePath?: string;
+}
+
+interface ReferenceOutput {
+  kind: string;
+  from: string | null;
+  filePath: string;
+  line: number;
+  name: string;
+  receiver?: string | null;
+  target?: string | null;
+  targetFilePath?: string | null;
+  resolution: string;
+}
+
+// Keep responses readable for symbols that are used everywhere
+const MAX_REFERENCES = 200;
+
+function errorResult(error: Record<string, unknown>): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(error, null, 2) }],
+    isError: true,
+  };
+}
+
+/**
+ * get-symbol-references tool implementation
+ *
+ * Answers "who calls X" (callers) and "what does X depend on" (callees)
+ * from the symbol reference graph built at indexing time.
+ */
+export async function getSymbolReferencesTool(
+  args: GetSymbolReferencesArgs,
+  _extra: unknown,
+  _config: Config
+): Promise<CallToolResult> {
+  const { context7CompatibleLibraryID, symbol, direction = 'both', filePath } = args;
+
+  try {
+    const parsed = parseLibraryId(context7CompatibleLibraryID);
+    if (!parsed) {
+      return errorResult({
+        error: 'Invalid library ID format',
+        message: `Expected format: /local/{uuid} or /{owner}/{repo}. Got: ${context7CompatibleLibraryID}`,
+        suggestion: 'Use resolve-library-id first to get a valid library ID',
+      });
+    }
+
+    if (parsed.type !== 'local') {
+      return errorResult({
+        error: 'Remote sources not yet supported',
+        message: 'Currently only local sources (/local/{uuid}) are supported.',
+        libraryId: context7CompatibleLibraryID,
+      });
+    }
+
+    const source = await localSourceRepository.findById(parsed.id);
+    if (!source) {
+      return errorResult({
+        error: 'Library not found',
+        message: `No library found with ID: ${parsed.id}`,
+        suggestion: 'Use resolve-library-id to find the correct library ID',
+      });
+    }
+
+    // Accept simple names (`load`) as well as qualified ones (`Config.load`)
+    const matches = (await symbolGraphRepository.findSymbols(source.id, symbol)).filter(
+      (s) => !filePath || s.filePath === filePath
+    );
+    if (matches.length === 0) {
+      return errorResult({
+        error: 'Symbol not found',
+        message: `No symbol named '${symbol}' in this library`,
+        suggestion: 'Use a qualified name such as ClassName.method, or search with get-library-docs first',
+      });
+    }
+
+    const symbols = await Promise.all(
+      matches.map(async (s) => {
+        const [callers, callees] = await Promise.all([
+          direction !== 'callees' ? symbolGraphRepository.findCallers(source.id, s.qualifiedName, s.filePath) : [],
+          direction !== 'callers' ? symbolGraphRepository.findCallees(source.id, s.qualifiedName, s.filePath) : [],
+        ]);
+
+        return {
+          symbol: s.qualifiedName,
+          kind: s.kind,
+          filePath: s.filePath,
+          lines: `${s.startLine + 1}-${s.endLine + 1}`,
+          isExported: s.isExported,
+          ...(direction !== 'callees' && {
+            callers: callers.slice(0, MAX_REFERENCES).map(
+              (r): ReferenceOutput => ({
+                kind: r.kind.toLowerCase(),
+                from: r.fromSymbol,
+                filePath: r.filePath,
+                line: r.line + 1,
+                name: r.name,
+                resolution: r.resolution.toLowerCase(),
+              })
+            ),
+            totalCallers: callers.length,
+          }),
+          ...(direction !== 'callers' && {
+            callees: callees.slice(0, MAX_REFERENCES).map(
+              (r): ReferenceOutput => ({
+                kind: r.kind.toLowerCase(),
+                from: r.fromSymbol,
+                filePath: r.filePath,
+                line: r.line + 1,
+                name: r.name,
+                receiver: r.receiver,
+                target: r.targetSymbol,
+                targetFilePath: r.targetFilePath,
+                resolution: r.resolution.toLowerCase(),
+              })
+            ),
+            totalCallees: callees.length,
+          }),
+        };
+      })
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              libraryId: context7CompatibleLibraryID,
+              query: symbol,
+              direction,
+              symbols,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult({
+      error: 'Failed to fetch symbol references',
+      message,
+      libraryId: context7CompatibleLibraryID,
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { Config } from '../config.js';
+import type { ProjectConfig } from '@context8/types';
 import { localSourceRepository } from '@context8/database';
 import { formatLibraryId } from '../utils/library-id-parser.js';
 
@@ -17,6 +18,26 @@ interface LibraryMatch {
   benchmarkScore: number;
 }
 
+/**
+ * Relevance of a lower-cased name to the lower-cased search term; 0 when unrelated
+ */
+function scoreName(nameLower: string, searchLower: string): number {
+  // Exact match
+  if (nameLower === searchLower) return 100;
+  // Starts with search term
+  if (nameLower.startsWith(searchLower)) return 80;
+  // Contains search term
+  if (nameLower.includes(searchLower)) return 60;
+  // Word match
+  if (
+    nameLower.split(/[-_\s]/).some((word) => word === searchLower) ||
+    searchLower.split(/[-_\s]/).some((word) => nameLower.includes(word))
+  ) {
+    return 40;
+  }
+  return 0;
+}
+
 /**
  * resolve-library-id tool implementation
  *
@@ -34,34 +55,13 @@ export async function resolveLibraryIdTool(
     // Search for matching local sources
     const allSources = await localSourceRepository.findAll();
 
-    // Score and filter sources based on name similarity
+    // Score and filter sources by the similarity of their name or aliases
+    const searchLower = libraryName.toLowerCase();
     const scoredSources = allSources
       .map((source) => {
-        const nameLower = source.name.toLowerCase();
-        const searchLower = libraryName.toLowerCase();
-
-        // Calculate simple relevance score
-        let score = 0;
-
-        // Exact match
-        if (nameLower === searchLower) {
-          score = 100;
-        }
-        // Starts with search term
-        else if (nameLower.startsWith(searchLower)) {
-          score = 80;
-        }
-        // Contains search term
-        else if (nameLower.includes(searchLower)) {
-          score = 60;
-        }
-        // Word match
-        else if (
-          nameLower.split(/[-_\s]/).some((word) => word === searchLower) ||
-          searchLower.split(/[-_\s]/).some((word) => nameLower.includes(word))
-        ) {
-          score = 40;
-        }
+        const projectConfig = source.projectConfig as ProjectConfig | null;
+        const names = [source.name, ...(projectConfig?.aliases ?? [])];
+        let score = Math.max(...names.map((name) => scoreName(name.toLowerCase(), searchLower)));
 
         if (score === 0) return null;
 
@@ -72,7 +72,7 @@ export async function resolveLibraryIdTool(
         const match: LibraryMatch = {
           libraryId: formatLibraryId('local', { id: source.id }),
           name: source.name,
-          description: `Local source at ${source.path}`,
+          description: projectConfig?.description ?? `Local source at ${source.path}`,
           codeSnippets: source.chunkCount,
           source: 'local',
           reputation: source.chunkCount > 500 ? 'High' : source.chunkCount > 100 ? 'Medium' : 'Low',
@@ -1,6 +1,7 @@
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { Config } from '../config.js';
 import { QdrantClient } from '@context8/vector-store';
+import { formatLocation, isNotebook } from '../utils/location.js';
 
 interface SearchArgs {
   query: string;
@@ -63,8 +64,10 @@ export async function searchCodebaseTool(
       repo_name: r.payload.repo_id,
       start_line: r.payload.start_line,
       end_line: r.payload.end_line,
+      cell: isNotebook(r.payload.file_path) ? r.payload.start_line : undefined,
       language: r.payload.language,
       symbol_name: r.payload.symbol_name,
+      qualified_name: r.payload.qualified_name,
       content: r.payload.content,
       relevance_score: r.score,
       match_type: 'semantic' as const,
@@ -73,7 +76,7 @@ export async function searchCodebaseTool(
     const sources = results.map((r) => ({
       repo: r.payload.repo_id,
       file: r.payload.file_path,
-      lines: `${r.payload.start_line}-${r.payload.end_line}`,
+      lines: formatLocation(r.payload.file_path, r.payload.start_line ?? 0, r.payload.end_line ?? 0),
     }));
 
     const output = {
@@ -1,2 +1,3 @@
 export * from './library-id-parser.js';
 export * from './pagination.js';
+export * from './location.js';
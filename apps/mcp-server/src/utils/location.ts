@@ -0,0 +1,20 @@
+/**
+ * Source locations of search results
+ */
+
+/**
+ * Notebook chunks store cell indices in place of line numbers
+ */
+export function isNotebook(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.ipynb');
+}
+
+/**
+ * Human-readable range of a chunk, e.g. `12-40` or `cell 3` for notebooks
+ */
+export function formatLocation(filePath: string, start: number, end: number): string {
+  if (isNotebook(filePath)) {
+    return start === end ? `cell ${start}` : `cells ${start}-${end}`;
+  }
+  return `${start}-${end}`;
+}
@@ -2,6 +2,8 @@
  * Pagination utilities for MCP tools
  */
 
+import { getTokenizer, type TokenizerEncoding } from '@context8/tokenizer';
+
 export interface PaginationOptions {
   page: number;
   pageSize: number;
@@ -34,10 +36,10 @@ export function paginate<T>(
 }
 
 /**
- * Token estimation (~4 chars per token)
+ * Count tokens with the BPE tokenizer for the given encoding
  */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+export function countTokens(text: string, encoding?: TokenizerEncoding): number {
+  return getTokenizer(encoding).countTokens(text);
 }
 
 /**
@@ -45,13 +47,14 @@ export function estimateTokens(text: string): number {
  */
 export function truncateToTokenLimit<T extends { content: string }>(
   results: T[],
-  tokenLimit: number
+  tokenLimit: number,
+  encoding?: TokenizerEncoding
 ): { results: T[]; totalTokens: number; truncated: boolean } {
   let totalTokens = 0;
   const truncatedResults: T[] = [];
 
   for (const result of results) {
-    const tokens = estimateTokens(result.content) + 20; // 20 for metadata overhead
+    const tokens = countTokens(result.content, encoding) + 20; // 20 for metadata overhead
     if (totalTokens + tokens <= tokenLimit) {
       truncatedResults.push(result);
       totalTokens += tokens;
@@ -3,12 +3,13 @@ import { qdrantClient } from '@/lib/qdrant';
 import { prisma } from '@/lib/db';
 import { settingsService } from '@context8/database';
 import { createProvider, type ProviderName } from '@context8/embedding';
+import { getEncodingForModel } from '@context8/tokenizer';
 import { truncateToTokenLimit, type SearchResult } from '@/lib/tokens';
 
 // Mode to chunk type mapping
 const MODE_CHUNK_TYPES = {
-  code: ['function', 'method', 'class', 'interface', 'type_alias', 'module', 'variable'],
-  info: ['file_summary', 'comment', 'docstring', 'readme', 'documentation'],
+  code: ['function', 'method', 'class', 'interface', 'type_alias', 'struct', 'enum', 'trait', 'impl', 'module', 'variable', 'schema'],
+  info: ['file_summary', 'comment', 'docstring', 'readme', 'documentation', 'config'],
 };
 
 interface SearchRequest {
@@ -19,8 +20,16 @@ interface SearchRequest {
     topic?: string;
     mode?: 'code' | 'info';
     chunkTypes?: string[];
+    /** Match against qualified symbol names, e.g. `QdrantClient.upsert` */
+    symbol?: string;
+    /** Only return symbols with these visibilities, e.g. `['public']` to skip private helpers */
+    visibility?: Array<'public' | 'protected' | 'private' | 'internal'>;
+    /** Leave out APIs marked deprecated */
+    excludeDeprecated?: boolean;
   };
   tokenLimit?: number;
+  /** Model the results are meant for; selects the encoding used for `tokenLimit` */
+  model?: string;
   limit?: number;
 }
 
@@ -29,7 +38,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body: SearchRequest = await request.json();
-    const { query, filters, tokenLimit, limit = 50 } = body;
+    const { query, filters, tokenLimit, model, limit = 50 } = body;
 
     if (!query || query.trim().length === 0) {
       return NextResponse.json({ error: 'Query is required' }, { status: 400 });
@@ -66,6 +75,28 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    if (filters?.symbol) {
+      filterConditions.push({
+        key: 'qualified_name',
+        match: { text: filters.symbol },
+      });
+    }
+
+    if (filters?.visibility && filters.visibility.length > 0) {
+      filterConditions.push({
+        key: 'visibility',
+        match: { any: filters.visibility },
+      });
+    }
+
+    const excludeConditions: Array<{ key: string; match: { value: boolean } }> = [];
+    if (filters?.excludeDeprecated) {
+      excludeConditions.push({
+        key: 'deprecated',
+        match: { value: true },
+      });
+    }
+
     // Get embedding provider from settings
     const embeddingConfig = await settingsService.getEmbeddingConfig();
     if (!embeddingConfig.apiKey) {
@@ -102,7 +133,10 @@ export async function POST(request: NextRequest) {
 
     const searchResults = await qdrantClient.searchDense(queryEmbedding, {
       limit,
-      filter: filterConditions.length > 0 ? { must: filterConditions } : undefined,
+      filter:
+        filterConditions.length > 0 || excludeConditions.length > 0
+          ? { must: filterConditions, must_not: excludeConditions }
+          : undefined,
       includePayload: true,
     });
 
@@ -135,7 +169,7 @@ export async function POST(request: NextRequest) {
         endLine: r.payload.end_line ?? 0,
         language: r.payload.language,
         chunkType: r.payload.chunk_type,
-        symbolName: r.payload.symbol_name ?? null,
+        symbolName: r.payload.qualified_name ?? r.payload.symbol_name ?? null,
         content: r.payload.content,
         summary: (r.payload as unknown as Record<string, unknown>).summary as string | undefined,
         keywords: (r.payload as unknown as Record<string, unknown>).keywords as string[] | undefined,
@@ -150,7 +184,7 @@ export async function POST(request: NextRequest) {
     let returnedCount = results.length;
 
     if (tokenLimit && tokenLimit > 0) {
-      const truncation = truncateToTokenLimit(results, tokenLimit);
+      const truncation = truncateToTokenLimit(results, tokenLimit, getEncodingForModel(model));
       results = truncation.results;
       totalTokens = truncation.totalTokens;
       wasTruncated = truncation.truncated;
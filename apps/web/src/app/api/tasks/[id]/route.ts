@@ -62,6 +62,7 @@ export async function GET(
       filesProcessed: task.filesProcessed,
       chunksCreated: task.chunksCreated,
       summariesGenerated: task.summariesGenerated,
+      resumeCount: task.resumeCount,
       startedAt: task.startedAt?.toISOString() ?? null,
       completedAt: task.completedAt?.toISOString() ?? null,
       errorMessage: task.errorMessage,
@@ -47,6 +47,7 @@ export async function GET(request: NextRequest) {
       filesProcessed: t.filesProcessed,
       chunksCreated: t.chunksCreated,
       summariesGenerated: t.summariesGenerated,
+      resumeCount: t.resumeCount,
       startedAt: t.startedAt?.toISOString() ?? null,
       completedAt: t.completedAt?.toISOString() ?? null,
       errorMessage: t.errorMessage,
@@ -93,7 +93,7 @@ async function getFileWithChunks(projectId: string, filePath: string) {
       .map((c) => ({
         id: String(c.id),
         chunkType: (c.payload.chunk_type as string) ?? 'code',
-        symbolName: c.payload.symbol_name as string | null,
+        symbolName: (c.payload.qualified_name ?? c.payload.symbol_name) as string | null,
         startLine: (c.payload.start_line as number) ?? 1,
         endLine: (c.payload.end_line as number) ?? 1,
         content: (c.payload.content as string) ?? '',
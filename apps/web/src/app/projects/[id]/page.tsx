@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { StatusBadge } from '@/components/projects/status-badge';
 import { ProjectTabs } from '@/components/projects/project-tabs';
 import { DeleteProjectButton } from '@/components/projects/delete-project-button';
+import { ProjectConfigCard } from '@/components/projects/project-config-card';
 import { formatDate, formatNumber } from '@/lib/utils';
 import {
   Folder,
@@ -17,6 +18,7 @@ import {
   Search,
   BookOpen,
 } from 'lucide-react';
+import type { ProjectConfig } from '@context8/types';
 
 export const dynamic = 'force-dynamic';
 
@@ -141,6 +143,9 @@ export default async function ProjectDetailPage({ params }: PageProps) {
         </Card>
       </div>
 
+      {/* Settings from the project's .context8.yml */}
+      {project.projectConfig && <ProjectConfigCard config={project.projectConfig as ProjectConfig} />}
+
       {/* Tabs Section */}
       <ProjectTabs
         projectId={project.id}
@@ -19,6 +19,7 @@ interface Task {
   filesProcessed: number;
   chunksCreated: number;
   summariesGenerated: number;
+  resumeCount: number;
   startedAt: string | null;
   completedAt: string | null;
   errorMessage: string | null;
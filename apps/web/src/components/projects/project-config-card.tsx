@@ -0,0 +1,76 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Settings2 } from 'lucide-react';
+import type { ProjectConfig } from '@context8/types';
+
+interface ProjectConfigCardProps {
+  config: ProjectConfig;
+}
+
+const TOGGLES = [
+  { key: 'llm', label: 'LLM summaries' },
+  { key: 'snippets', label: 'Snippets' },
+  { key: 'wiki', label: 'Wiki' },
+] as const;
+
+export function ProjectConfigCard({ config }: ProjectConfigCardProps) {
+  const lists = [
+    { label: 'Aliases', values: config.aliases },
+    { label: 'Include', values: config.include },
+    { label: 'Exclude', values: config.exclude },
+    { label: 'Languages', values: config.languages },
+  ].filter((list) => list.values && list.values.length > 0);
+  const chunking = Object.entries(config.chunking ?? {});
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Project Config</CardTitle>
+        <Settings2 className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {config.description && <p className="text-muted-foreground">{config.description}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          {TOGGLES.map(({ key, label }) => {
+            const enabled = config[key] !== false;
+            return (
+              <Badge key={key} variant={enabled ? 'success' : 'secondary'}>
+                {label}: {enabled ? 'on' : 'off'}
+              </Badge>
+            );
+          })}
+          <Badge variant={config.secrets === 'off' ? 'warning' : 'secondary'}>
+            Secrets: {config.secrets ?? 'redact'}
+          </Badge>
+        </div>
+
+        {lists.map(({ label, values }) => (
+          <div key={label} className="flex items-start gap-2">
+            <span className="w-24 flex-shrink-0 text-muted-foreground">{label}</span>
+            <div className="flex flex-wrap gap-1">
+              {values!.map((value) => (
+                <Badge key={value} variant="secondary" className="font-mono text-xs">
+                  {value}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {chunking.length > 0 && (
+          <div className="flex items-start gap-2">
+            <span className="w-24 flex-shrink-0 text-muted-foreground">Chunking</span>
+            <div className="flex flex-wrap gap-1">
+              {chunking.map(([key, value]) => (
+                <Badge key={key} variant="secondary" className="font-mono text-xs">
+                  {key}: {String(value)}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,8 +3,7 @@
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Code, FileText, SlidersHorizontal } from 'lucide-react';
-import { cn } from '@/lib/utils';
-import { formatTokenCount } from '@/lib/tokens';
+import { cn, formatTokenCount } from '@/lib/utils';
 
 interface SearchControlsProps {
   topic: string;
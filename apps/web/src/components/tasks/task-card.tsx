@@ -21,6 +21,7 @@ interface Task {
   filesProcessed: number;
   chunksCreated: number;
   summariesGenerated: number;
+  resumeCount: number;
   startedAt: string | null;
   completedAt: string | null;
   errorMessage: string | null;
@@ -102,6 +103,12 @@ export function TaskCard({ task, className }: TaskCardProps) {
             <span className="text-xs text-muted-foreground">{taskTypeLabels[task.taskType]}</span>
             <span className="text-xs text-muted-foreground/50">|</span>
             <span className="text-xs text-muted-foreground">via {task.triggeredBy}</span>
+            {task.resumeCount > 0 && (
+              <>
+                <span className="text-xs text-muted-foreground/50">|</span>
+                <span className="text-xs text-yellow-400">Resumed ×{task.resumeCount}</span>
+              </>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-2">
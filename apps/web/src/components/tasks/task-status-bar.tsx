@@ -14,6 +14,7 @@ interface TaskInfo {
   filesProcessed: number;
   chunksCreated: number;
   summariesGenerated: number;
+  resumeCount: number;
   startedAt: string | null;
   completedAt: string | null;
   errorMessage: string | null;
@@ -134,6 +135,11 @@ export function TaskStatusBar({ taskId, className, onStatusChange, onCancelled }
             )}
           />
           <span className={cn('font-medium', config.color)}>{config.label}</span>
+          {task.resumeCount > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-500/20 text-yellow-400">
+              Resumed after worker restart{task.resumeCount > 1 ? ` ×${task.resumeCount}` : ''}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-3">
           <CancelTaskButton
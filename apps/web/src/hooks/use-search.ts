@@ -24,6 +24,9 @@ export interface SearchFilters {
   topic?: string;
   mode?: 'code' | 'info';
   chunkTypes?: string[];
+  symbol?: string;
+  visibility?: Array<'public' | 'protected' | 'private' | 'internal'>;
+  excludeDeprecated?: boolean;
 }
 
 interface SearchState {
@@ -1,8 +1,10 @@
 /**
- * Token estimation and limiting utilities
- * Uses ~4 characters per token approximation (consistent with common tokenizers)
+ * Token counting and limiting utilities
+ * Counts with the shared BPE tokenizer for the encoding of the target model
  */
 
+import { getTokenizer, type TokenizerEncoding } from '@context8/tokenizer';
+
 export interface SearchResult {
   id: string | number;
   score: number;
@@ -20,21 +22,20 @@ export interface SearchResult {
 }
 
 /**
- * Estimate token count for text
- * Uses ~4 characters per token approximation
+ * Count tokens in text
  */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+export function countTokens(text: string, encoding?: TokenizerEncoding): number {
+  return getTokenizer(encoding).countTokens(text);
 }
 
 /**
- * Estimate total tokens for a search result
+ * Count total tokens for a search result
  * Includes content, summary, and metadata
  */
-export function estimateResultTokens(result: SearchResult): number {
-  let tokens = estimateTokens(result.content);
+export function countResultTokens(result: SearchResult, encoding?: TokenizerEncoding): number {
+  let tokens = countTokens(result.content, encoding);
   if (result.summary) {
-    tokens += estimateTokens(result.summary);
+    tokens += countTokens(result.summary, encoding);
   }
   // Add some overhead for metadata (file path, line numbers, etc.)
   tokens += 20;
@@ -53,13 +54,14 @@ export interface TruncationResult<T> {
  */
 export function truncateToTokenLimit(
   results: SearchResult[],
-  tokenLimit: number
+  tokenLimit: number,
+  encoding?: TokenizerEncoding
 ): TruncationResult<SearchResult> {
   let totalTokens = 0;
   const truncatedResults: SearchResult[] = [];
 
   for (const result of results) {
-    const resultTokens = estimateResultTokens(result);
+    const resultTokens = countResultTokens(result, encoding);
     if (totalTokens + resultTokens <= tokenLimit) {
       truncatedResults.push(result);
       totalTokens += resultTokens;
@@ -75,13 +77,3 @@ export function truncateToTokenLimit(
     originalCount: results.length,
   };
 }
-
-/**
- * Format token count for display
- */
-export function formatTokenCount(tokens: number): string {
-  if (tokens >= 1000) {
-    return `${(tokens / 1000).toFixed(1)}K`;
-  }
-  return tokens.toString();
-}
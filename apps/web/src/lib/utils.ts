@@ -65,3 +65,13 @@ export function getLanguageColor(language: string): string {
   };
   return colors[language.toLowerCase()] ?? '#6b7280';
 }
+
+/**
+ * Format token count for display
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1000) {
+    return `${(tokens / 1000).toFixed(1)}K`;
+  }
+  return tokens.toString();
+}
@@ -1,9 +1,18 @@
-import { prisma, taskRepository, settingsService, remoteSourceRepository, remoteCredentialRepository } from '@context8/database';
-import { IndexingPipeline } from '@context8/indexer';
-import { createProvider, type ProviderName } from '@context8/embedding';
+import {
+  prisma,
+  taskRepository,
+  settingsService,
+  remoteSourceRepository,
+  remoteCredentialRepository,
+  embeddingCacheRepository,
+} from '@context8/database';
+import { IndexingPipeline, loadProjectConfig } from '@context8/indexer';
+import { formatSecretFinding, type FileSecretFinding } from '@context8/secret-scanner';
+import { createCachedProvider, createProvider, type ProviderName } from '@context8/embedding';
 import { QdrantClient, CollectionManager } from '@context8/vector-store';
 import { SnippetGenerationPipeline } from '@context8/snippet-generator';
 import { WikiGenerationPipeline } from '@context8/wiki-generator';
+import type { ProjectConfig } from '@context8/types';
 import { CancellationToken, TaskCancelledException } from './cancellation-token.js';
 
 type SourceType = 'LOCAL' | 'REMOTE' | 'REPOSITORY';
@@ -33,7 +42,19 @@ export class TaskProcessor {
       return;
     }
 
-    // Stale task recovery: mark all RUNNING tasks as CANCELLED
+    // Indexing tasks interrupted by a restart resume from their per-file checkpoints
+    const resumed = await taskRepository.requeueInterrupted(['FULL_INDEX', 'INCREMENTAL', 'REINDEX']);
+    for (const task of resumed) {
+      await taskRepository.addLog(task.id, {
+        level: 'WARN',
+        message: `Worker restarted, resuming task (resume #${task.resumeCount})`,
+      });
+    }
+    if (resumed.length > 0) {
+      console.log(`[Worker] Requeued ${resumed.length} interrupted indexing task(s) for resume`);
+    }
+
+    // Stale task recovery: mark all other RUNNING tasks as CANCELLED
     // These are from crashed workers that didn't complete
     const cancelledCount = await taskRepository.cancelAllRunning();
     if (cancelledCount > 0) {
@@ -210,17 +231,28 @@ export class TaskProcessor {
         sourceName = localSource.name;
       }
 
+      // Per-repository settings from .context8.yml or context8.config.json
+      const projectConfig = await loadProjectConfig(sourcePath);
+
       // Handle SNIPPET_GENERATE task separately
       if (taskType === 'SNIPPET_GENERATE') {
+        if (projectConfig?.snippets === false) {
+          await this.completeDisabledTask(taskId, 'Snippet generation is disabled by the project config');
+          return;
+        }
         console.log(`[Worker] Generating snippets for: ${sourceName}`);
-        await this.processSnippetGenerationTask(taskId, sourceId, sourceType, sourcePath, cancellationToken.signal);
+        await this.processSnippetGenerationTask(taskId, sourceId, sourceType, sourcePath, projectConfig, cancellationToken.signal);
         return;
       }
 
       // Handle WIKI_GENERATE task separately
       if (taskType === 'WIKI_GENERATE') {
+        if (projectConfig?.wiki === false) {
+          await this.completeDisabledTask(taskId, 'Wiki generation is disabled by the project config');
+          return;
+        }
         console.log(`[Worker] Generating wiki for: ${sourceName}`);
-        await this.processWikiGenerationTask(taskId, sourceId, sourceType, sourcePath, cancellationToken.signal);
+        await this.processWikiGenerationTask(taskId, sourceId, sourceType, sourcePath, projectConfig, cancellationToken.signal);
         return;
       }
 
@@ -241,13 +273,16 @@ export class TaskProcessor {
       console.log(`[Worker] Embedding config: provider=${provider}, dimensions=${dimensions}, hasApiKey=${!!embeddingConfig.apiKey}`);
 
       const embeddingService = embeddingConfig.apiKey
-        ? createProvider({
-            provider,
-            apiKey: embeddingConfig.apiKey,
-            baseUrl: embeddingConfig.baseUrl,
-            model: embeddingConfig.model,
-            dimensions,
-          })
+        ? createCachedProvider(
+            createProvider({
+              provider,
+              apiKey: embeddingConfig.apiKey,
+              baseUrl: embeddingConfig.baseUrl,
+              model: embeddingConfig.model,
+              dimensions,
+            }),
+            embeddingCacheRepository
+          )
         : undefined;
 
       console.log(`[Worker] Embedding service: ${embeddingService ? 'enabled' : 'disabled'}`);
@@ -302,6 +337,18 @@ export class TaskProcessor {
         async deleteByFilePaths(sid: string, filePaths: string[]) {
           await qdrantClient.deleteByFilePaths(sid, filePaths);
         },
+        async deleteByIds(ids: string[]) {
+          await qdrantClient.deleteByIds(ids);
+        },
+        async setPayload(id: string, payload: Record<string, unknown>) {
+          await qdrantClient.setPayload(id, payload);
+        },
+        async countLegacyChunks(sid: string, idVersion: number) {
+          return qdrantClient.countLegacyChunks(sid, idVersion);
+        },
+        async findChunks(sid: string, filePaths: string[]) {
+          return qdrantClient.findChunks(sid, filePaths);
+        },
       };
 
       // Create pipeline
@@ -354,54 +401,58 @@ export class TaskProcessor {
         console.log(`[Worker] Auto-triggering snippet generation for ${sourceName}`);
 
         try {
-          await prisma.task.create({
-            data: {
-              sourceId,
-              sourceType,
-              taskType: 'SNIPPET_GENERATE',
-              triggeredBy: 'WORKER',
-              status: 'PENDING',
-            },
-          });
-
-          // Update snippetStatus based on source type
-          if (sourceType === 'REMOTE') {
-            await remoteSourceRepository.update(sourceId, {
-              snippetStatus: 'PENDING',
-            });
-          } else {
-            await prisma.localSource.update({
-              where: { id: sourceId },
-              data: { snippetStatus: 'PENDING' },
+          // Skip generation the project config turns off
+          if (projectConfig?.snippets !== false) {
+            await prisma.task.create({
+              data: {
+                sourceId,
+                sourceType,
+                taskType: 'SNIPPET_GENERATE',
+                triggeredBy: 'WORKER',
+                status: 'PENDING',
+              },
             });
-          }
 
-          console.log(`[Worker] Snippet generation task created for ${sourceName}`);
-
-          // Also trigger wiki generation
-          await prisma.task.create({
-            data: {
-              sourceId,
-              sourceType,
-              taskType: 'WIKI_GENERATE',
-              triggeredBy: 'WORKER',
-              status: 'PENDING',
-            },
-          });
+            // Update snippetStatus based on source type
+            if (sourceType === 'REMOTE') {
+              await remoteSourceRepository.update(sourceId, {
+                snippetStatus: 'PENDING',
+              });
+            } else {
+              await prisma.localSource.update({
+                where: { id: sourceId },
+                data: { snippetStatus: 'PENDING' },
+              });
+            }
 
-          // Update wikiStatus based on source type
-          if (sourceType === 'REMOTE') {
-            await remoteSourceRepository.update(sourceId, {
-              wikiStatus: 'PENDING',
-            });
-          } else {
-            await prisma.localSource.update({
-              where: { id: sourceId },
-              data: { wikiStatus: 'PENDING' },
-            });
+            console.log(`[Worker] Snippet generation task created for ${sourceName}`);
           }
 
-          console.log(`[Worker] Wiki generation task created for ${sourceName}`);
+          if (projectConfig?.wiki !== false) {
+            await prisma.task.create({
+              data: {
+                sourceId,
+                sourceType,
+                taskType: 'WIKI_GENERATE',
+                triggeredBy: 'WORKER',
+                status: 'PENDING',
+              },
+            });
+
+            // Update wikiStatus based on source type
+            if (sourceType === 'REMOTE') {
+              await remoteSourceRepository.update(sourceId, {
+                wikiStatus: 'PENDING',
+              });
+            } else {
+              await prisma.localSource.update({
+                where: { id: sourceId },
+                data: { wikiStatus: 'PENDING' },
+              });
+            }
+
+            console.log(`[Worker] Wiki generation task created for ${sourceName}`);
+          }
         } catch (snippetErr) {
           console.error(`[Worker] Failed to create snippet/wiki generation tasks:`, snippetErr);
           // Don't fail the main indexing task due to task creation failure
@@ -492,11 +543,25 @@ export class TaskProcessor {
     }
   }
 
+  /**
+   * Complete a generation task without running it, for sources whose project config turns it off
+   */
+  private async completeDisabledTask(taskId: string, message: string): Promise<void> {
+    await taskRepository.updateStatus(taskId, 'COMPLETED');
+    await taskRepository.addLog(taskId, {
+      level: 'INFO',
+      message,
+      phase: 'complete',
+    });
+    console.log(`[Worker] Task ${taskId} skipped: ${message}`);
+  }
+
   private async processSnippetGenerationTask(
     taskId: string,
     sourceId: string,
     sourceType: SourceType,
     sourcePath: string,
+    projectConfig: ProjectConfig | null,
     abortSignal?: AbortSignal
   ): Promise<void> {
     // Mark task as running (startedAt is set automatically by updateStatus)
@@ -577,6 +642,8 @@ export class TaskProcessor {
       maxSnippets: 100,
       maxTurns: 50,
       abortSignal,
+      project: projectConfig ?? undefined,
+      secrets: projectConfig?.secrets,
     });
 
     // Log results
@@ -592,6 +659,8 @@ export class TaskProcessor {
         errorCount: result.errors.length,
       },
     });
+    await this.logEmbeddingCache(taskId, result.embeddingCache);
+    await this.logSecretFindings(taskId, result.secretFindings);
 
     // Log any errors
     for (const error of result.errors) {
@@ -616,6 +685,7 @@ export class TaskProcessor {
     sourceId: string,
     sourceType: SourceType,
     sourcePath: string,
+    projectConfig: ProjectConfig | null,
     abortSignal?: AbortSignal
   ): Promise<void> {
     // Mark task as running
@@ -693,6 +763,8 @@ export class TaskProcessor {
       maxPages: 20,
       maxTurns: 50,
       abortSignal,
+      project: projectConfig ?? undefined,
+      secrets: projectConfig?.secrets,
       concurrency: wikiAgentConfig.concurrency ?? 5,
     });
 
@@ -709,6 +781,8 @@ export class TaskProcessor {
         errorCount: result.errors.length,
       },
     });
+    await this.logEmbeddingCache(taskId, result.embeddingCache);
+    await this.logSecretFindings(taskId, result.secretFindings);
 
     // Log any errors
     for (const error of result.errors) {
@@ -726,4 +800,34 @@ export class TaskProcessor {
 
     console.log(`[Worker] Wiki generation task ${taskId} completed: ${result.pageCount} pages`);
   }
+
+  /**
+   * Log the embedding cache hit rate of a task
+   */
+  private async logEmbeddingCache(taskId: string, stats: { hits: number; misses: number }): Promise<void> {
+    const lookups = stats.hits + stats.misses;
+    if (lookups === 0) return;
+
+    await taskRepository.addLog(taskId, {
+      level: 'INFO',
+      message: `Embedding cache: ${stats.hits}/${lookups} hits (${Math.round((stats.hits / lookups) * 100)}%)`,
+      phase: 'embedding',
+      metadata: { ...stats },
+    });
+  }
+
+  /**
+   * Log files the agent was kept from reading in full; the secrets themselves are never logged
+   */
+  private async logSecretFindings(taskId: string, findings: FileSecretFinding[]): Promise<void> {
+    for (const finding of findings) {
+      await taskRepository.addLog(taskId, {
+        level: 'WARN',
+        message: formatSecretFinding(finding),
+        phase: 'agent',
+        filePath: finding.filePath,
+        metadata: { ruleId: finding.ruleId, line: finding.line },
+      });
+    }
+  }
 }
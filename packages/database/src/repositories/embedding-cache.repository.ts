@@ -0,0 +1,82 @@
+import { prisma } from '../client.js';
+
+export type EmbeddingCacheKey = {
+  provider: string;
+  model: string;
+  dimensions: number;
+};
+
+export type EmbeddingCacheEvictOptions = {
+  /** Only entries not used since this date */
+  unusedSince?: Date;
+  provider?: string;
+  model?: string;
+};
+
+export class EmbeddingCacheRepository {
+  /**
+   * Cached vectors by text hash; hits are marked as used
+   */
+  async getMany(key: EmbeddingCacheKey, textHashes: string[]): Promise<Map<string, number[]>> {
+    if (textHashes.length === 0) return new Map();
+
+    const entries = await prisma.embeddingCache.findMany({
+      where: { ...key, textHash: { in: textHashes } },
+      select: { id: true, textHash: true, vector: true },
+    });
+
+    if (entries.length > 0) {
+      await prisma.embeddingCache.updateMany({
+        where: { id: { in: entries.map((e) => e.id) } },
+        data: { lastUsedAt: new Date() },
+      });
+    }
+
+    return new Map(entries.map((e) => [e.textHash, e.vector]));
+  }
+
+  async setMany(key: EmbeddingCacheKey, entries: Array<{ textHash: string; vector: number[] }>): Promise<void> {
+    if (entries.length === 0) return;
+
+    await prisma.embeddingCache.createMany({
+      data: entries.map((e) => ({ ...key, textHash: e.textHash, vector: e.vector })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Delete cached vectors; without options the whole cache is cleared
+   */
+  async evict(options: EmbeddingCacheEvictOptions = {}): Promise<number> {
+    const result = await prisma.embeddingCache.deleteMany({
+      where: {
+        provider: options.provider,
+        model: options.model,
+        lastUsedAt: options.unusedSince ? { lt: options.unusedSince } : undefined,
+      },
+    });
+    return result.count;
+  }
+
+  /**
+   * Entry count per provider, model and dimensions
+   */
+  async getStats(): Promise<Array<EmbeddingCacheKey & { entries: number; lastUsedAt: Date | null }>> {
+    const groups = await prisma.embeddingCache.groupBy({
+      by: ['provider', 'model', 'dimensions'],
+      _count: { _all: true },
+      _max: { lastUsedAt: true },
+      orderBy: [{ provider: 'asc' }, { model: 'asc' }],
+    });
+
+    return groups.map((g) => ({
+      provider: g.provider,
+      model: g.model,
+      dimensions: g.dimensions,
+      entries: g._count._all,
+      lastUsedAt: g._max.lastUsedAt,
+    }));
+  }
+}
+
+export const embeddingCacheRepository = new EmbeddingCacheRepository();
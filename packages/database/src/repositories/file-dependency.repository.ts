@@ -0,0 +1,115 @@
+import { prisma } from '../client.js';
+import type { FileExport, FileImport, FileImportKind } from '@prisma/client';
+
+export type FileImportData = {
+  specifier: string;
+  specifiers: string[];
+  importedNames: string[];
+  kind: FileImportKind;
+  isTypeOnly: boolean;
+  line: number;
+  targetPath: string | null;
+};
+
+export type FileExportData = {
+  name: string;
+  isDefault: boolean;
+  isTypeOnly: boolean;
+  fromSpecifier: string | null;
+};
+
+export type DependencyEdge = {
+  from: string;
+  to: string;
+  isTypeOnly: boolean;
+};
+
+export class FileDependencyRepository {
+  /**
+   * Replace the stored imports and exports of a file
+   */
+  async replaceForFile(
+    file: { id: string; sourceId: string; filePath: string },
+    data: { imports: FileImportData[]; exports: FileExportData[] }
+  ): Promise<void> {
+    const owner = { fileId: file.id, sourceId: file.sourceId, filePath: file.filePath };
+
+    await prisma.$transaction([
+      prisma.fileImport.deleteMany({ where: { fileId: file.id } }),
+      prisma.fileExport.deleteMany({ where: { fileId: file.id } }),
+      prisma.fileImport.createMany({
+        data: data.imports.map((i) => ({ ...owner, ...i })),
+      }),
+      prisma.fileExport.createMany({
+        data: data.exports.map((e) => ({ ...owner, ...e })),
+      }),
+    ]);
+  }
+
+  /**
+   * Every import of a source, used to resolve symbol references
+   */
+  async getImportTable(sourceId: string): Promise<FileImport[]> {
+    return prisma.fileImport.findMany({
+      where: { sourceId },
+    });
+  }
+
+  async findImports(sourceId: string, filePath: string): Promise<FileImport[]> {
+    return prisma.fileImport.findMany({
+      where: { sourceId, filePath },
+      orderBy: { line: 'asc' },
+    });
+  }
+
+  /**
+   * Imports in other files that resolve to the given file
+   */
+  async findDependents(sourceId: string, targetPath: string): Promise<FileImport[]> {
+    return prisma.fileImport.findMany({
+      where: { sourceId, targetPath },
+      orderBy: { filePath: 'asc' },
+    });
+  }
+
+  async findExports(sourceId: string, filePath: string): Promise<FileExport[]> {
+    return prisma.fileExport.findMany({
+      where: { sourceId, filePath },
+    });
+  }
+
+  /**
+   * Files exporting a name, including re-exports
+   */
+  async findExportsByName(sourceId: string, name: string): Promise<FileExport[]> {
+    return prisma.fileExport.findMany({
+      where: { sourceId, name },
+      orderBy: { filePath: 'asc' },
+    });
+  }
+
+  /**
+   * File-to-file edges of a source, one per importing file and target
+   */
+  async getGraph(sourceId: string): Promise<DependencyEdge[]> {
+    const imports = await prisma.fileImport.findMany({
+      where: { sourceId, targetPath: { not: null } },
+      select: { filePath: true, targetPath: true, isTypeOnly: true },
+    });
+
+    // An edge is type-only when every import behind it is
+    const edges = new Map<string, DependencyEdge>();
+    for (const i of imports) {
+      const key = `${i.filePath}\0${i.targetPath}`;
+      const edge = edges.get(key);
+      if (edge) {
+        edge.isTypeOnly = edge.isTypeOnly && i.isTypeOnly;
+      } else {
+        edges.set(key, { from: i.filePath, to: i.targetPath!, isTypeOnly: i.isTypeOnly });
+      }
+    }
+    return [...edges.values()];
+  }
+}
+
+export const fileDependencyRepository = new FileDependencyRepository();
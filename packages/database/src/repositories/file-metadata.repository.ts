@@ -49,6 +49,13 @@ export class FileMetadataRepository {
     });
   }
 
+  async findByPaths(sourceId: string, filePaths: string[]): Promise<FileMetadata[]> {
+    if (filePaths.length === 0) return [];
+    return prisma.fileMetadata.findMany({
+      where: { sourceId, filePath: { in: filePaths } },
+    });
+  }
+
   async findByContentHash(contentHash: string): Promise<FileMetadata[]> {
     return prisma.fileMetadata.findMany({
       where: { contentHash },
@@ -6,7 +6,10 @@ export * from './local-source.repository.js';
 export * from './remote-source.repository.js';
 export * from './remote-credential.repository.js';
 export * from './file-metadata.repository.js';
+export * from './file-dependency.repository.js';
+export * from './symbol-graph.repository.js';
 export * from './llm-generation.repository.js';
+export * from './embedding-cache.repository.js';
 export * from './task.repository.js';
 export * from './settings.repository.js';
 export * from './snippet.repository.js';
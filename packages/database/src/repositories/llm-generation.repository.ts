@@ -14,6 +14,12 @@ export type CreateLLMGenerationData = {
   completionTokens?: number;
 };
 
+/** Provider and model a generation came from; outputs of other models are not reused */
+export type LLMGenerationKey = {
+  provider: string;
+  model: string;
+};
+
 export class LLMGenerationRepository {
   async findById(id: string): Promise<LLMGeneration | null> {
     return prisma.lLMGeneration.findUnique({
@@ -37,6 +43,29 @@ export class LLMGenerationRepository {
     });
   }
 
+  /**
+   * Latest generation of a type by one provider and model per content hash,
+   * from any chunk or source
+   */
+  async findByContentHashes(
+    generationType: GenerationType,
+    key: LLMGenerationKey,
+    contentHashes: string[]
+  ): Promise<Map<string, LLMGeneration>> {
+    if (contentHashes.length === 0) return new Map();
+
+    const generations = await prisma.lLMGeneration.findMany({
+      where: { generationType, ...key, contentHash: { in: contentHashes } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const byHash = new Map<string, LLMGeneration>();
+    for (const generation of generations) {
+      if (!byHash.has(generation.contentHash)) byHash.set(generation.contentHash, generation);
+    }
+    return byHash;
+  }
+
   async findBySourceId(sourceId: string): Promise<LLMGeneration[]> {
     return prisma.lLMGeneration.findMany({
       where: { sourceId },
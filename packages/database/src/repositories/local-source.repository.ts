@@ -1,5 +1,5 @@
 import { prisma } from '../client.js';
-import type { LocalSource, IndexingStatus, SnippetStatus, WikiStatus } from '@prisma/client';
+import { Prisma, type LocalSource, type IndexingStatus, type SnippetStatus, type WikiStatus } from '@prisma/client';
 
 export type CreateLocalSourceData = {
   path: string;
@@ -10,6 +10,9 @@ export type UpdateLocalSourceData = {
   name?: string;
   indexingStatus?: IndexingStatus;
   lastIndexedAt?: Date | null;
+  lastIndexedSha?: string | null;
+  lastIndexedDirtyPaths?: string[];
+  secretScanKey?: string | null;
   fileCount?: number;
   chunkCount?: number;
   summaryCount?: number;
@@ -85,6 +88,16 @@ export class LocalSourceRepository {
     });
   }
 
+  /**
+   * Store the project config read from the source root; null clears it
+   */
+  async updateProjectConfig(id: string, config: object | null): Promise<LocalSource> {
+    return prisma.localSource.update({
+      where: { id },
+      data: { projectConfig: config ? (config as Prisma.InputJsonValue) : Prisma.DbNull },
+    });
+  }
+
   async updateStats(
     id: string,
     stats: { fileCount?: number; chunkCount?: number; summaryCount?: number }
@@ -0,0 +1,149 @@
+import { prisma } from '../client.js';
+import type { CodeReference, CodeReferenceKind, CodeSymbol, ReferenceResolution } from '@prisma/client';
+
+export type CodeSymbolData = {
+  qualifiedName: string;
+  name: string;
+  kind: string;
+  isExported: boolean;
+  chunkId: string;
+  startLine: number;
+  endLine: number;
+};
+
+export type ReferenceTargetData = {
+  targetSymbol: string | null;
+  targetFilePath: string | null;
+  targetChunkId: string | null;
+  resolution: ReferenceResolution;
+};
+
+export type CodeReferenceData = ReferenceTargetData & {
+  fromSymbol: string | null;
+  fromChunkId: string | null;
+  name: string;
+  receiver: string | null;
+  kind: CodeReferenceKind;
+  line: number;
+};
+
+export class SymbolGraphRepository {
+  /**
+   * Replace the stored symbols of a file
+   */
+  async replaceSymbols(
+    file: { id: string; sourceId: string; filePath: string },
+    symbols: CodeSymbolData[]
+  ): Promise<void> {
+    const owner = { fileId: file.id, sourceId: file.sourceId, filePath: file.filePath };
+
+    await prisma.$transaction([
+      prisma.codeSymbol.deleteMany({ where: { fileId: file.id } }),
+      prisma.codeSymbol.createMany({
+        data: symbols.map((s) => ({ ...owner, ...s })),
+      }),
+    ]);
+  }
+
+  /**
+   * Replace the stored references of a file
+   */
+  async replaceReferences(
+    file: { id: string; sourceId: string; filePath: string },
+    references: CodeReferenceData[]
+  ): Promise<void> {
+    const owner = { fileId: file.id, sourceId: file.sourceId, filePath: file.filePath };
+
+    await prisma.$transaction([
+      prisma.codeReference.deleteMany({ where: { fileId: file.id } }),
+      prisma.codeReference.createMany({
+        data: references.map((r) => ({ ...owner, ...r })),
+      }),
+    ]);
+  }
+
+  /**
+   * Every symbol of a source, used to resolve references
+   */
+  async getSymbolTable(sourceId: string): Promise<CodeSymbol[]> {
+    return prisma.codeSymbol.findMany({
+      where: { sourceId },
+      orderBy: [{ filePath: 'asc' }, { startLine: 'asc' }],
+    });
+  }
+
+  /**
+   * Symbols matching a simple or qualified name
+   */
+  async findSymbols(sourceId: string, name: string): Promise<CodeSymbol[]> {
+    return prisma.codeSymbol.findMany({
+      where: { sourceId, OR: [{ qualifiedName: name }, { name }] },
+      orderBy: [{ isExported: 'desc' }, { filePath: 'asc' }],
+    });
+  }
+
+  /**
+   * References that resolve to a symbol ("who calls X")
+   */
+  async findCallers(
+    sourceId: string,
+    qualifiedName: string,
+    filePath?: string
+  ): Promise<CodeReference[]> {
+    return prisma.codeReference.findMany({
+      where: {
+        sourceId,
+        targetSymbol: qualifiedName,
+        ...(filePath && { targetFilePath: filePath }),
+      },
+      orderBy: [{ filePath: 'asc' }, { line: 'asc' }],
+    });
+  }
+
+  /**
+   * References made from inside a symbol ("what does X depend on")
+   */
+  async findCallees(
+    sourceId: string,
+    qualifiedName: string,
+    filePath?: string
+  ): Promise<CodeReference[]> {
+    return prisma.codeReference.findMany({
+      where: {
+        sourceId,
+        fromSymbol: qualifiedName,
+        ...(filePath && { filePath }),
+      },
+      orderBy: [{ filePath: 'asc' }, { line: 'asc' }],
+    });
+  }
+
+  /**
+   * References in other files that may resolve differently after the given
+   * names or files changed
+   */
+  async findAffectedReferences(
+    sourceId: string,
+    options: { names: string[]; targetPaths: string[]; excludePaths: string[] }
+  ): Promise<CodeReference[]> {
+    if (options.names.length === 0 && options.targetPaths.length === 0) return [];
+
+    return prisma.codeReference.findMany({
+      where: {
+        sourceId,
+        filePath: { notIn: options.excludePaths },
+        OR: [{ name: { in: options.names } }, { targetFilePath: { in: options.targetPaths } }],
+      },
+    });
+  }
+
+  async updateTargets(updates: Array<{ id: string } & ReferenceTargetData>): Promise<void> {
+    if (updates.length === 0) return;
+
+    await prisma.$transaction(
+      updates.map(({ id, ...target }) => prisma.codeReference.update({ where: { id }, data: target }))
+    );
+  }
+}
+
+export const symbolGraphRepository = new SymbolGraphRepository();
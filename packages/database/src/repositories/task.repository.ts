@@ -342,6 +342,58 @@ export class TaskRepository {
     return runningTasks.length;
   }
 
+  /**
+   * Put running tasks of the given types back in the queue so a restarted
+   * worker resumes them from their checkpoints
+   */
+  async requeueInterrupted(taskTypes: TaskType[]): Promise<Task[]> {
+    const interrupted = await prisma.task.findMany({
+      where: { status: 'RUNNING', taskType: { in: taskTypes } },
+    });
+
+    const requeued: Task[] = [];
+    for (const task of interrupted) {
+      requeued.push(
+        await prisma.task.update({
+          where: { id: task.id },
+          data: { status: 'PENDING', resumeCount: { increment: 1 } },
+        })
+      );
+    }
+    return requeued;
+  }
+
+  /**
+   * Record files fully stored by a task
+   */
+  async addCheckpoints(taskId: string, files: Array<{ filePath: string; contentHash: string }>): Promise<number> {
+    if (files.length === 0) return 0;
+
+    const result = await prisma.taskCheckpoint.createMany({
+      data: files.map((file) => ({ taskId, filePath: file.filePath, contentHash: file.contentHash })),
+      skipDuplicates: true,
+    });
+    return result.count;
+  }
+
+  /**
+   * Content hashes of checkpointed files by path
+   */
+  async getCheckpoints(taskId: string): Promise<Map<string, string>> {
+    const checkpoints = await prisma.taskCheckpoint.findMany({
+      where: { taskId },
+      select: { filePath: true, contentHash: true },
+    });
+    return new Map(checkpoints.map((c) => [c.filePath, c.contentHash]));
+  }
+
+  async clearCheckpoints(taskId: string): Promise<number> {
+    const result = await prisma.taskCheckpoint.deleteMany({
+      where: { taskId },
+    });
+    return result.count;
+  }
+
   /**
    * Check if a task is cancelled
    */
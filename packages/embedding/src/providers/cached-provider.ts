@@ -0,0 +1,138 @@
+/**
+ * Cached Embedding Provider - reuses vectors of texts embedded before
+ *
+ * Wraps another provider and looks texts up by SHA-256 hash in a cache
+ * store keyed by provider, model and dimensions, so forced re-indexes,
+ * vendored code and forks don't pay to embed identical text again.
+ */
+
+import { createHash } from 'node:crypto';
+import type { IEmbeddingProvider } from './provider-interface.js';
+
+export interface EmbeddingCacheKey {
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+/**
+ * Persistent storage for cached vectors, e.g. `embeddingCacheRepository`
+ */
+export interface EmbeddingCacheStore {
+  getMany(key: EmbeddingCacheKey, textHashes: string[]): Promise<Map<string, number[]>>;
+  setMany(key: EmbeddingCacheKey, entries: Array<{ textHash: string; vector: number[] }>): Promise<void>;
+}
+
+/** Distinct texts of each batch found in the cache, and those embedded by the provider */
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export class CachedEmbeddingProvider implements IEmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+
+  private provider: IEmbeddingProvider;
+  private store: EmbeddingCacheStore;
+  private key: EmbeddingCacheKey;
+  private stats: EmbeddingCacheStats = { hits: 0, misses: 0 };
+
+  constructor(provider: IEmbeddingProvider, store: EmbeddingCacheStore) {
+    this.provider = provider;
+    this.store = store;
+    this.name = provider.name;
+    this.model = provider.model;
+    this.dimensions = provider.dimensions;
+    this.key = { provider: provider.name, model: provider.model, dimensions: provider.dimensions };
+  }
+
+  /**
+   * Embed a single text
+   */
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  /**
+   * Embed multiple texts, calling the provider only for texts not in the cache
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const hashes = texts.map(hashText);
+    // Identical texts in one batch are looked up and embedded once
+    const vectors = await this.lookup([...new Set(hashes)]);
+    const hits = vectors.size;
+
+    const missing = new Map<string, string>();
+    hashes.forEach((hash, i) => {
+      if (!vectors.has(hash)) missing.set(hash, texts[i]);
+    });
+
+    if (missing.size > 0) {
+      const embeddings = await this.provider.embedBatch([...missing.values()]);
+      const entries = [...missing.keys()].map((textHash, i) => ({ textHash, vector: embeddings[i] }));
+      entries.forEach((e) => vectors.set(e.textHash, e.vector));
+      await this.save(entries);
+    }
+
+    // Counted per distinct text: hits are vectors the cache returned, misses those the provider made
+    this.stats.hits += hits;
+    this.stats.misses += missing.size;
+
+    return hashes.map((hash) => vectors.get(hash)!);
+  }
+
+  /**
+   * Get embedding dimensions
+   */
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  /**
+   * Hits and misses since the provider was created
+   */
+  cacheStats(): EmbeddingCacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * A broken cache costs embedding calls, never the embeddings themselves
+   */
+  private async lookup(textHashes: string[]): Promise<Map<string, number[]>> {
+    try {
+      return await this.store.getMany(this.key, textHashes);
+    } catch (error) {
+      console.warn('[embedding] Cache lookup failed:', error instanceof Error ? error.message : error);
+      return new Map();
+    }
+  }
+
+  private async save(entries: Array<{ textHash: string; vector: number[] }>): Promise<void> {
+    try {
+      await this.store.setMany(this.key, entries);
+    } catch (error) {
+      console.warn('[embedding] Cache write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Cache key of a text
+ */
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Wrap a provider with an embedding cache
+ */
+export function createCachedProvider(provider: IEmbeddingProvider, store: EmbeddingCacheStore): CachedEmbeddingProvider {
+  return new CachedEmbeddingProvider(provider, store);
+}
@@ -2,4 +2,5 @@ export * from './provider-interface.js';
 export * from './mock-provider.js';
 export * from './openai-provider.js';
 export * from './bigmodel-provider.js';
+export * from './cached-provider.js';
 export * from './provider-factory.js';
@@ -15,6 +15,14 @@ export interface PullResult {
   changedFiles: string[];
 }
 
+export interface WorkingTreeChange {
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  /** Path relative to the directory the changes were requested for */
+  path: string;
+  /** Previous path of a renamed file */
+  oldPath?: string;
+}
+
 export interface GitClientOptions {
   basePath?: string;
   timeout?: number;
@@ -156,6 +164,57 @@ export class GitClient {
     return log.latest?.hash || '';
   }
 
+  /**
+   * Files changed between a commit and the working tree under `localPath`,
+   * including uncommitted and untracked files
+   */
+  async getWorkingTreeChanges(localPath: string, fromSha: string): Promise<WorkingTreeChange[]> {
+    const git = this.createGit(localPath);
+    const diff = await git.raw(['diff', '--name-status', '-M', '--relative', '-z', fromSha, '--']);
+    const untracked = await git.raw(['ls-files', '--others', '--exclude-standard', '-z']);
+
+    const changes: WorkingTreeChange[] = [];
+    const fields = diff.split('\0');
+    for (let i = 0; i < fields.length - 1; ) {
+      const status = fields[i++];
+      if (status.startsWith('R') || status.startsWith('C')) {
+        const oldPath = fields[i++];
+        const path = fields[i++];
+        changes.push(status.startsWith('R') ? { status: 'renamed', path, oldPath } : { status: 'added', path });
+      } else {
+        const path = fields[i++];
+        const kind = status === 'A' ? 'added' : status === 'D' ? 'deleted' : 'modified';
+        changes.push({ status: kind, path });
+      }
+    }
+
+    for (const path of untracked.split('\0')) {
+      if (path) changes.push({ status: 'added', path });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Files under `localPath` that git tracks, relative to `localPath`
+   */
+  async getTrackedFiles(localPath: string): Promise<string[]> {
+    const git = this.createGit(localPath);
+    const files = await git.raw(['ls-files', '-z']);
+    return files.split('\0').filter(Boolean);
+  }
+
+  /**
+   * Whether `localPath` is inside a git checkout; false when git is unavailable
+   */
+  async isRepository(localPath: string): Promise<boolean> {
+    try {
+      return await this.createGit(localPath).checkIsRepo();
+    } catch {
+      return false;
+    }
+  }
+
   async getCurrentBranch(localPath: string): Promise<string> {
     const git = this.createGit(localPath);
     const branch = await git.branchLocal();
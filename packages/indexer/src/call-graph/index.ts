@@ -0,0 +1 @@
+export * from './reference-resolver.js';
@@ -0,0 +1,221 @@
+/**
+ * Reference Resolver - map names used in a file to symbols of the source
+ */
+
+import { posix } from 'node:path';
+import type { ReferenceTargetData } from '@context8/database';
+
+export interface SymbolEntry {
+  filePath: string;
+  qualifiedName: string;
+  name: string;
+  chunkId: string;
+}
+
+export interface ImportEntry {
+  filePath: string;
+  specifier: string;
+  specifiers: string[];
+  /** Source module name of each specifier; empty for imports stored before it was recorded */
+  importedNames: string[];
+  kind: string;
+  targetPath: string | null;
+}
+
+export interface ReferenceToResolve {
+  fromSymbol: string | null;
+  name: string;
+  receiver: string | null;
+}
+
+// Receivers that refer to the enclosing type
+const SELF_RECEIVERS = new Set(['this', 'self', 'Self', 'cls', 'super']);
+
+// How many `export ... from` hops to follow before giving up
+const MAX_REEXPORT_DEPTH = 5;
+
+const UNRESOLVED: ReferenceTargetData = {
+  targetSymbol: null,
+  targetFilePath: null,
+  targetChunkId: null,
+  resolution: 'UNRESOLVED',
+};
+
+/**
+ * Resolves references against a source-wide symbol table. In order of
+ * preference: enclosing scopes of the same file, imports (following
+ * re-exports), static access through a class name, and finally a name
+ * that is unique across the source.
+ */
+export class ReferenceResolver {
+  private symbolsByFile = new Map<string, Map<string, SymbolEntry>>();
+  private symbolsByName = new Map<string, SymbolEntry[]>();
+  private filesByDirectory = new Map<string, string[]>();
+  private importsByFile = new Map<string, ImportEntry[]>();
+
+  constructor(symbols: SymbolEntry[], imports: ImportEntry[]) {
+    for (const symbol of symbols) {
+      let fileSymbols = this.symbolsByFile.get(symbol.filePath);
+      if (!fileSymbols) {
+        fileSymbols = new Map();
+        this.symbolsByFile.set(symbol.filePath, fileSymbols);
+
+        const dir = posix.dirname(symbol.filePath);
+        this.filesByDirectory.set(dir, [...(this.filesByDirectory.get(dir) ?? []), symbol.filePath]);
+      }
+      // Overloads share a qualified name; the first one stands for all
+      if (!fileSymbols.has(symbol.qualifiedName)) fileSymbols.set(symbol.qualifiedName, symbol);
+
+      const named = this.symbolsByName.get(symbol.name) ?? [];
+      named.push(symbol);
+      this.symbolsByName.set(symbol.name, named);
+    }
+
+    for (const entry of imports) {
+      const fileImports = this.importsByFile.get(entry.filePath) ?? [];
+      fileImports.push(entry);
+      this.importsByFile.set(entry.filePath, fileImports);
+    }
+  }
+
+  /**
+   * Chunk ID of a symbol's summary, for attributing references to their caller
+   */
+  chunkIdOf(filePath: string, qualifiedName: string | null): string | null {
+    if (!qualifiedName) return null;
+    return this.symbolsByFile.get(filePath)?.get(qualifiedName)?.chunkId ?? null;
+  }
+
+  resolve(filePath: string, reference: ReferenceToResolve): ReferenceTargetData {
+    const { fromSymbol, name, receiver } = reference;
+
+    if (receiver === null || SELF_RECEIVERS.has(receiver)) {
+      const found = this.resolveName(filePath, fromSymbol, name);
+      if (found) return this.toTarget(found.symbol, found.viaImport);
+    } else {
+      const found = this.resolveMember(filePath, fromSymbol, receiver, name);
+      if (found) return this.toTarget(found.symbol, found.viaImport);
+    }
+
+    // Ambiguous names are left unresolved rather than guessed
+    const candidates = this.symbolsByName.get(name) ?? [];
+    if (candidates.length === 1) {
+      return { ...this.toTarget(candidates[0], false), resolution: 'NAME' };
+    }
+    return UNRESOLVED;
+  }
+
+  /**
+   * Resolve a bare name from inside a symbol: enclosing scopes first, then the
+   * file's package (Go), then imported names
+   */
+  private resolveName(
+    filePath: string,
+    fromSymbol: string | null,
+    name: string
+  ): { symbol: SymbolEntry; viaImport: boolean } | null {
+    const fileSymbols = this.symbolsByFile.get(filePath);
+    const scopes = fromSymbol ? fromSymbol.split('.') : [];
+    for (let depth = scopes.length; depth >= 0; depth--) {
+      const qualifiedName = [...scopes.slice(0, depth), name].join('.');
+      const symbol = fileSymbols?.get(qualifiedName);
+      if (symbol) return { symbol, viaImport: false };
+    }
+
+    // Go files of one directory share a package namespace
+    if (filePath.endsWith('.go')) {
+      const symbol = this.findInDirectory(posix.dirname(filePath), name);
+      if (symbol) return { symbol, viaImport: false };
+    }
+
+    for (const entry of this.importsByFile.get(filePath) ?? []) {
+      const imported = this.importedName(entry, name);
+      if (!entry.targetPath || !imported) continue;
+      const symbol = this.findExported(entry.targetPath, imported, 0);
+      if (symbol) return { symbol, viaImport: true };
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve `receiver.name` where the receiver is an imported module or a type
+   */
+  private resolveMember(
+    filePath: string,
+    fromSymbol: string | null,
+    receiver: string,
+    name: string
+  ): { symbol: SymbolEntry; viaImport: boolean } | null {
+    const receiverName = receiver.split(/::|\./).pop() ?? receiver;
+
+    // Module receivers, e.g. `utils.parse()` or `pkg.Func()`
+    for (const entry of this.importsByFile.get(filePath) ?? []) {
+      if (!entry.targetPath) continue;
+      if (this.moduleName(entry.specifier) !== receiverName && !entry.specifiers.includes(receiverName)) continue;
+      const symbol = this.findExported(entry.targetPath, name, 0);
+      if (symbol) return { symbol, viaImport: true };
+    }
+
+    // Static members, e.g. `Config.load()`
+    const owner = this.resolveName(filePath, fromSymbol, receiverName);
+    if (owner) {
+      const member = this.symbolsByFile.get(owner.symbol.filePath)?.get(`${owner.symbol.qualifiedName}.${name}`);
+      if (member) return { symbol: member, viaImport: owner.viaImport };
+    }
+
+    return null;
+  }
+
+  /**
+   * Top-level symbol of a file (or Go package directory), following re-exports
+   */
+  private findExported(targetPath: string, name: string, depth: number): SymbolEntry | null {
+    const symbol = this.symbolsByFile.get(targetPath)?.get(name) ?? this.findInDirectory(targetPath, name);
+    if (symbol || depth >= MAX_REEXPORT_DEPTH) return symbol;
+
+    for (const entry of this.importsByFile.get(targetPath) ?? []) {
+      if (entry.kind !== 'REEXPORT' || !entry.targetPath) continue;
+      const imported = this.importedName(entry, name) ?? (entry.specifiers.includes('*') ? name : null);
+      if (!imported) continue;
+      const reexported = this.findExported(entry.targetPath, imported, depth + 1);
+      if (reexported) return reexported;
+    }
+    return null;
+  }
+
+  /**
+   * Name in the source module of a name an import binds, e.g. `x` for `y`
+   * after `from m import x as y`; null when the import doesn't bind it
+   */
+  private importedName(entry: ImportEntry, name: string): string | null {
+    const index = entry.specifiers.indexOf(name);
+    if (index === -1) return null;
+    return entry.importedNames[index] ?? name;
+  }
+
+  private findInDirectory(dir: string, name: string): SymbolEntry | null {
+    for (const file of this.filesByDirectory.get(dir) ?? []) {
+      const symbol = this.symbolsByFile.get(file)?.get(name);
+      if (symbol) return symbol;
+    }
+    return null;
+  }
+
+  /**
+   * Last segment of an import specifier, e.g. `utils` for `./lib/utils.js`
+   */
+  private moduleName(specifier: string): string {
+    const withoutExtension = specifier.replace(/\.[cm]?[jt]sx?$/, '');
+    return withoutExtension.split(/\/|::|\./).filter(Boolean).pop() ?? specifier;
+  }
+
+  private toTarget(symbol: SymbolEntry, viaImport: boolean): ReferenceTargetData {
+    return {
+      targetSymbol: symbol.qualifiedName,
+      targetFilePath: symbol.filePath,
+      targetChunkId: symbol.chunkId,
+      resolution: viaImport ? 'IMPORT' : 'LOCAL',
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { execFileSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GitChangeDetector } from './git-change-detector.js';
+import { createStoredFilesMap } from './file-change-detector.js';
+
+let root: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+    cwd: root,
+    encoding: 'utf-8',
+  }).trim();
+}
+
+function write(filePath: string, content: string): void {
+  mkdirSync(dirname(join(root, filePath)), { recursive: true });
+  writeFileSync(join(root, filePath), content);
+}
+
+function stored(files: Record<string, string>) {
+  return createStoredFilesMap(
+    Object.entries(files).map(([filePath, content]) => ({
+      id: filePath,
+      filePath,
+      contentHash: createHash('sha256').update(content).digest('hex'),
+    }))
+  );
+}
+
+function paths(changes: Array<{ filePath: string }>): string[] {
+  return changes.map((c) => c.filePath);
+}
+
+describe('GitChangeDetector', () => {
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'git-change-detector-'));
+    git('init', '-q');
+    git('config', 'core.excludesFile', '/dev/null');
+    write('src/app.ts', 'export const app = 1;\n');
+    write('src/util.ts', 'export const util = 1;\n');
+    write('src/generated/.gitignore', '*.ts\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('only hashes files git reports as changed', async () => {
+    const sha = git('rev-parse', 'HEAD');
+    write('src/app.ts', 'export const app = 2;\n');
+    // A stale hash of a file git sees as unchanged is not noticed
+    const storedFiles = stored({ 'src/app.ts': 'export const app = 1;\n', 'src/util.ts': 'stale' });
+
+    const changes = await new GitChangeDetector(root).detectChanges(storedFiles, ['src/app.ts', 'src/util.ts'], sha);
+
+    expect(paths(changes!.modified)).toEqual(['src/app.ts']);
+    expect(changes!.unchanged).toEqual(['src/util.ts']);
+  });
+
+  it('hashes files git does not track, such as ones ignored by a nested .gitignore or info/exclude', async () => {
+    write('src/generated/api.ts', 'export const api = 1;\n');
+    write('src/local.ts', 'export const local = 1;\n');
+    writeFileSync(join(root, '.git/info/exclude'), 'src/local.ts\n');
+    const sha = git('rev-parse', 'HEAD');
+    const storedFiles = stored({
+      'src/app.ts': 'export const app = 1;\n',
+      'src/generated/api.ts': 'export const api = 0;\n',
+      'src/local.ts': 'export const local = 0;\n',
+    });
+
+    const changes = await new GitChangeDetector(root).detectChanges(
+      storedFiles,
+      ['src/app.ts', 'src/generated/api.ts', 'src/local.ts'],
+      sha
+    );
+
+    expect(paths(changes!.modified).sort()).toEqual(['src/generated/api.ts', 'src/local.ts']);
+    expect(changes!.unchanged).toEqual(['src/app.ts']);
+  });
+
+  it('checks files that were dirty at the last index again after they are reverted', async () => {
+    const sha = git('rev-parse', 'HEAD');
+    const detector = new GitChangeDetector(root);
+    write('src/app.ts', 'export const app = 2;\n');
+    const dirtyPaths = await detector.getDirtyPaths();
+    const storedFiles = stored({ 'src/app.ts': 'export const app = 2;\n', 'src/util.ts': 'export const util = 1;\n' });
+    git('checkout', '--', 'src/app.ts');
+
+    const changes = await detector.detectChanges(storedFiles, ['src/app.ts', 'src/util.ts'], sha, dirtyPaths!);
+
+    expect(dirtyPaths).toEqual(['src/app.ts']);
+    expect(paths(changes!.modified)).toEqual(['src/app.ts']);
+    expect(changes!.unchanged).toEqual(['src/util.ts']);
+  });
+
+  it('returns null when the indexed commit is gone', async () => {
+    const changes = await new GitChangeDetector(root).detectChanges(stored({}), ['src/app.ts'], '0'.repeat(40));
+
+    expect(changes).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Git Change Detector - detects changes of a git checkout since the indexed commit
+ */
+
+import { GitClient } from '@context8/git-client';
+import {
+  FileChangeDetector,
+  type ChangeDetectionResult,
+  type StoredFileInfo,
+} from './file-change-detector.js';
+
+export class GitChangeDetector {
+  private rootPath: string;
+  private git: GitClient;
+  private hashDetector: FileChangeDetector;
+
+  constructor(rootPath: string, git: GitClient = new GitClient()) {
+    this.rootPath = rootPath;
+    this.git = git;
+    this.hashDetector = new FileChangeDetector(rootPath);
+  }
+
+  /**
+   * Current HEAD, or null when the directory is not a git checkout or git is unavailable
+   */
+  async getHeadCommit(): Promise<string | null> {
+    if (!(await this.git.isRepository(this.rootPath))) return null;
+
+    try {
+      return (await this.git.getCurrentCommit(this.rootPath)) || null;
+    } catch {
+      // No commits yet
+      return null;
+    }
+  }
+
+  /**
+   * Paths whose working tree content differs from HEAD, including untracked
+   * files. Null when git can't tell.
+   */
+  async getDirtyPaths(): Promise<string[] | null> {
+    try {
+      const changes = await this.git.getWorkingTreeChanges(this.rootPath, 'HEAD');
+      return [...new Set(changes.flatMap((c) => (c.oldPath ? [c.oldPath, c.path] : [c.path])))];
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Detect changes since `fromSha`. Only files git reports as changed, files
+   * that were dirty at the last index (`dirtyPaths`) and files git doesn't
+   * track, e.g. ignored ones, are hashed; added and removed files are found
+   * by comparing paths. Returns null when git can't tell, e.g. the commit is
+   * gone after a rebase.
+   */
+  async detectChanges(
+    storedFiles: Map<string, StoredFileInfo>,
+    currentFilePaths: string[],
+    fromSha: string,
+    dirtyPaths: string[] = []
+  ): Promise<ChangeDetectionResult | null> {
+    let changedPaths: Set<string>;
+    let trackedPaths: Set<string>;
+    try {
+      const changes = await this.git.getWorkingTreeChanges(this.rootPath, fromSha);
+      changedPaths = new Set(changes.flatMap((c) => (c.oldPath ? [c.oldPath, c.path] : [c.path])));
+      trackedPaths = new Set(await this.git.getTrackedFiles(this.rootPath));
+    } catch {
+      return null;
+    }
+
+    // A file indexed with uncommitted edits and reverted since has no diff against fromSha
+    for (const path of dirtyPaths) changedPaths.add(path);
+    const needsHash = (p: string) => changedPaths.has(p) || !trackedPaths.has(p);
+
+    const currentPathSet = new Set(currentFilePaths);
+    const candidates = currentFilePaths.filter((p) => !storedFiles.has(p) || needsHash(p));
+    const candidateStored = new Map(
+      [...storedFiles].filter(([p]) => !currentPathSet.has(p) || needsHash(p))
+    );
+
+    const result = await this.hashDetector.detectChanges(candidateStored, candidates);
+    const checked = new Set(candidates);
+    result.unchanged.push(...currentFilePaths.filter((p) => !checked.has(p)));
+    return result;
+  }
+}
@@ -1 +1,2 @@
 export * from './file-change-detector.js';
+export * from './git-change-detector.js';
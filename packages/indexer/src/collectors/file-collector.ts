@@ -12,6 +12,7 @@ import type { CollectedFile, ProgressCallback } from '../types.js';
 export interface FileCollectorOptions {
   includePatterns?: string[];
   excludePatterns?: string[];
+  languages?: string[];
   concurrency?: number;
 }
 
@@ -32,6 +33,7 @@ export class FileCollector {
     this.filter = await FileFilter.create(this.rootPath, {
       includePatterns: this.options.includePatterns,
       excludePatterns: this.options.excludePatterns,
+      languages: this.options.languages,
     });
   }
 
@@ -43,38 +45,15 @@ export class FileCollector {
       await this.init();
     }
 
-    // Use fast-glob to find all files
-    const patterns = ['**/*.ts', '**/*.tsx', '**/*.mts', '**/*.cts', '**/*.py', '**/*.pyi'];
+    const files = await this.listFiles();
 
-    const files = await fg(patterns, {
-      cwd: this.rootPath,
-      absolute: false,
-      ignore: [
-        'node_modules/**',
-        '.git/**',
-        'dist/**',
-        'build/**',
-        '__pycache__/**',
-        '*.pyc',
-        '.next/**',
-        '.nuxt/**',
-        'coverage/**',
-      ],
-      dot: false,
-    });
-
-    // Filter and collect files
+    // Collect files
     const collectedFiles: CollectedFile[] = [];
     let processed = 0;
 
     for (const filePath of files) {
       const absolutePath = join(this.rootPath, filePath);
 
-      // Apply additional filter rules
-      if (!this.filter!.shouldInclude(absolutePath, this.rootPath)) {
-        continue;
-      }
-
       try {
         const file = await this.collectFile(filePath, absolutePath);
         collectedFiles.push(file);
@@ -124,18 +103,52 @@ export class FileCollector {
   }
 
   /**
-   * Get file paths only (without content)
+   * Get file paths only (without content), optionally just the files at or
+   * under some relative paths
    */
-  async getFilePaths(): Promise<string[]> {
+  async getFilePaths(paths?: string[]): Promise<string[]> {
     if (!this.filter) {
       await this.init();
     }
 
-    const patterns = ['**/*.ts', '**/*.tsx', '**/*.mts', '**/*.cts', '**/*.py', '**/*.pyi'];
+    return this.listFiles(paths);
+  }
+
+  /**
+   * Collect specific files by path
+   */
+  async collectFiles(filePaths: string[]): Promise<CollectedFile[]> {
+    const files: CollectedFile[] = [];
 
-    const files = await fg(patterns, {
+    for (const filePath of filePaths) {
+      const absolutePath = join(this.rootPath, filePath);
+      try {
+        const file = await this.collectFile(filePath, absolutePath);
+        files.push(file);
+      } catch (error) {
+        console.error(`Failed to collect file ${filePath}:`, error);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Relative paths of every file that passes the filter, including its size limits
+   */
+  private async listFiles(paths?: string[]): Promise<string[]> {
+    const patterns = paths
+      ? paths.flatMap((p) => {
+          const base = fg.escapePath(p);
+          return [base, ...this.globPatterns().map((pattern) => `${base}/${pattern}`)];
+        })
+      : this.globPatterns();
+    if (patterns.length === 0) return [];
+
+    const entries = await fg(patterns, {
       cwd: this.rootPath,
       absolute: false,
+      stats: true,
       ignore: [
         'node_modules/**',
         '.git/**',
@@ -146,33 +159,24 @@ export class FileCollector {
         '.next/**',
         '.nuxt/**',
         'coverage/**',
+        'target/**',
       ],
       dot: false,
+      // Scoped paths may be files, which can't be scanned as directories
+      suppressErrors: paths !== undefined,
     });
 
-    return files.filter((filePath) => {
-      const absolutePath = join(this.rootPath, filePath);
-      return this.filter!.shouldInclude(absolutePath, this.rootPath);
-    });
+    return entries
+      .filter((entry) => this.filter!.shouldInclude(join(this.rootPath, entry.path), this.rootPath, entry.stats?.size))
+      .map((entry) => entry.path);
   }
 
   /**
-   * Collect specific files by path
+   * A glob per supported extension, plus env files matched by name
    */
-  async collectFiles(filePaths: string[]): Promise<CollectedFile[]> {
-    const files: CollectedFile[] = [];
-
-    for (const filePath of filePaths) {
-      const absolutePath = join(this.rootPath, filePath);
-      try {
-        const file = await this.collectFile(filePath, absolutePath);
-        files.push(file);
-      } catch (error) {
-        console.error(`Failed to collect file ${filePath}:`, error);
-      }
-    }
-
-    return files;
+  private globPatterns(): string[] {
+    const extensions = this.filter?.getSupportedExtensions() ?? [];
+    return [...extensions.map((ext) => `**/*${ext}`), '**/.env*'];
   }
 
   /**
@@ -5,6 +5,7 @@
 import ignoreModule, { type Ignore } from 'ignore';
 import { readFile } from 'node:fs/promises';
 import { join, relative } from 'node:path';
+import { languageRegistry } from '@context8/parser';
 
 // Handle ESM default export quirks
 const ignore = ignoreModule as unknown as () => Ignore;
@@ -26,7 +27,13 @@ const DEFAULT_EXCLUDES = [
   '__pycache__',
   '*.pyc',
   '.tox',
+  '.ipynb_checkpoints',
   '*.egg-info',
+  'target',
+  '*.min.js',
+  '*.bundle.js',
+  '*.min.json',
+  '*.tsbuildinfo',
 
   // IDE and editor
   '.idea',
@@ -66,35 +73,86 @@ const DEFAULT_EXCLUDES = [
   'Pipfile.lock',
 ];
 
-// Supported file extensions for code indexing
-const SUPPORTED_EXTENSIONS: Record<string, string> = {
-  // TypeScript
-  '.ts': 'typescript',
-  '.tsx': 'typescript',
-  '.mts': 'typescript',
-  '.cts': 'typescript',
-
-  // Python
-  '.py': 'python',
-  '.pyi': 'python',
+// Files chunked without a tree-sitter grammar; code languages come from the parser's language registry
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  // Documentation
+  '.md': 'markdown',
+  '.mdx': 'markdown',
+  '.markdown': 'markdown',
+
+  // Configuration
+  '.json': 'json',
+  '.jsonc': 'json',
+  '.json5': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+
+  // Schemas
+  '.prisma': 'prisma',
+  '.sql': 'sql',
+  '.graphql': 'graphql',
+  '.gql': 'graphql',
+
+  // Notebooks (code cells are parsed as Python)
+  '.ipynb': 'python',
 };
 
+// Larger files of these languages are generated data or dumps rather than config or docs
+const MAX_FILE_SIZES: Record<string, number> = {
+  json: 256 * 1024,
+  yaml: 256 * 1024,
+  toml: 256 * 1024,
+  markdown: 1024 * 1024,
+  prisma: 1024 * 1024,
+  sql: 1024 * 1024,
+  graphql: 1024 * 1024,
+};
+
+// Directories whose JSON, YAML and TOML files are test data, translations or generated output
+const DATA_DIRECTORIES = new Set([
+  'fixtures',
+  '__fixtures__',
+  'testdata',
+  'test-data',
+  '__snapshots__',
+  'locales',
+  'i18n',
+  'translations',
+  'generated',
+  '__generated__',
+]);
+
+const DATA_LANGUAGES = new Set(['json', 'yaml', 'toml']);
+
+/**
+ * Env-style files are matched by name; `.env` and `.env.*` other than
+ * `.env.example` are still dropped by DEFAULT_EXCLUDES
+ */
+function isEnvFile(filePath: string): boolean {
+  const fileName = filePath.slice(filePath.lastIndexOf('/') + 1);
+  return fileName === '.env' || fileName.startsWith('.env.');
+}
+
 export class FileFilter {
   private ignorer: Ignore;
   private supportedExtensions: Set<string>;
   private includePatterns: string[];
   private excludePatterns: string[];
+  private languages: Set<string> | null;
 
   constructor(options: {
     gitignorePath?: string;
     gitignoreContent?: string;
     includePatterns?: string[];
     excludePatterns?: string[];
+    languages?: string[];
     additionalExtensions?: Record<string, string>;
   } = {}) {
     this.ignorer = ignore();
     this.includePatterns = options.includePatterns ?? [];
     this.excludePatterns = options.excludePatterns ?? [];
+    this.languages = options.languages ? new Set(options.languages) : null;
 
     // Add default excludes
     this.ignorer.add(DEFAULT_EXCLUDES);
@@ -112,7 +170,7 @@ export class FileFilter {
     // Build supported extensions
     this.supportedExtensions = new Set(
       Object.keys({
-        ...SUPPORTED_EXTENSIONS,
+        ...getSupportedExtensions(),
         ...options.additionalExtensions,
       })
     );
@@ -126,6 +184,7 @@ export class FileFilter {
     options: {
       includePatterns?: string[];
       excludePatterns?: string[];
+      languages?: string[];
       additionalExtensions?: Record<string, string>;
     } = {}
   ): Promise<FileFilter> {
@@ -144,9 +203,10 @@ export class FileFilter {
   }
 
   /**
-   * Check if a file should be included in indexing
+   * Check if a file should be included in indexing; the size limits of
+   * config and document files only apply when `size` is given
    */
-  shouldInclude(filePath: string, rootPath: string): boolean {
+  shouldInclude(filePath: string, rootPath: string, size?: number): boolean {
     // Get relative path for gitignore matching
     const relativePath = relative(rootPath, filePath);
 
@@ -157,7 +217,21 @@ export class FileFilter {
 
     // Check file extension
     const ext = this.getExtension(filePath);
-    if (!this.supportedExtensions.has(ext)) {
+    if (!this.supportedExtensions.has(ext) && !isEnvFile(filePath)) {
+      return false;
+    }
+
+    // Check language allow-list if specified
+    const language = getLanguageFromPath(filePath) ?? '';
+    if (this.languages && !this.languages.has(language)) {
+      return false;
+    }
+
+    // Skip data files that only look like config
+    if (DATA_LANGUAGES.has(language) && relativePath.split('/').some((dir) => DATA_DIRECTORIES.has(dir))) {
+      return false;
+    }
+    if (size !== undefined && size > (MAX_FILE_SIZES[language] ?? Infinity)) {
       return false;
     }
 
@@ -174,12 +248,18 @@ export class FileFilter {
     return true;
   }
 
+  /**
+   * Check a file or directory against the ignore rules only
+   */
+  isIgnored(filePath: string, rootPath: string): boolean {
+    return this.ignorer.ignores(relative(rootPath, filePath));
+  }
+
   /**
    * Get the language for a file based on extension
    */
   getLanguage(filePath: string): string | undefined {
-    const ext = this.getExtension(filePath);
-    return SUPPORTED_EXTENSIONS[ext];
+    return getLanguageFromPath(filePath);
   }
 
   /**
@@ -218,6 +298,15 @@ export class FileFilter {
  * Get language from file path
  */
 export function getLanguageFromPath(filePath: string): string | undefined {
+  if (isEnvFile(filePath)) return 'env';
   const ext = filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
-  return SUPPORTED_EXTENSIONS[ext];
+  return DOCUMENT_EXTENSIONS[ext] ?? languageRegistry.detect(filePath)?.id;
+}
+
+/**
+ * Extension -> language of every indexable file type, including languages
+ * registered with the parser after this module was loaded
+ */
+export function getSupportedExtensions(): Record<string, string> {
+  return { ...languageRegistry.extensions(), ...DOCUMENT_EXTENSIONS };
 }
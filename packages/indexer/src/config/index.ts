@@ -0,0 +1 @@
+export * from './project-config.js';
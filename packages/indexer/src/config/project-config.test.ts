@@ -0,0 +1,108 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IndexingPipeline } from '../pipeline/indexing-pipeline.js';
+import { loadProjectConfig, parseProjectConfig } from './project-config.js';
+
+const database = vi.hoisted(() => ({
+  localSourceRepository: {
+    findByPath: vi.fn(),
+    updateProjectConfig: vi.fn(),
+    update: vi.fn(),
+    updateIndexingStatus: vi.fn(),
+  },
+}));
+vi.mock('@context8/database', () => database);
+
+function parse(raw: unknown) {
+  return () => parseProjectConfig(raw, '.context8.yml');
+}
+
+describe('parseProjectConfig', () => {
+  it('accepts every setting', () => {
+    const raw = {
+      name: 'Billing',
+      description: 'Invoices and payments',
+      aliases: ['billing-service'],
+      include: ['src/**'],
+      exclude: ['src/generated/**'],
+      languages: ['typescript'],
+      llm: false,
+      wiki: true,
+      snippets: false,
+      secrets: 'skip',
+      chunking: { maxChunkTokens: 256, minChunkTokens: 0, encoding: 'o200k_base', keepNotebookOutputs: true },
+    };
+
+    expect(parseProjectConfig(raw, '.context8.yml')).toEqual(raw);
+    expect(parseProjectConfig({}, '.context8.yml')).toEqual({});
+  });
+
+  it('rejects unknown settings', () => {
+    expect(parse({ exlude: ['dist/**'] })).toThrow('Invalid .context8.yml: unknown setting "exlude"');
+    expect(parse({ chunking: { overlapTokens: 50 } })).toThrow('unknown chunking setting "overlapTokens"');
+    expect(parse({ chunking: { includeSignatureInBody: true } })).toThrow(
+      'unknown chunking setting "includeSignatureInBody"'
+    );
+  });
+
+  it('rejects settings of the wrong type', () => {
+    expect(parse(['name'])).toThrow('expected a mapping of settings');
+    expect(parse({ name: 42 })).toThrow('"name" must be a string');
+    expect(parse({ aliases: 'billing' })).toThrow('"aliases" must be a list of strings');
+    expect(parse({ include: ['src/**', 1] })).toThrow('"include" must be a list of strings');
+    expect(parse({ wiki: 'no' })).toThrow('"wiki" must be true or false');
+    expect(parse({ secrets: 'hide' })).toThrow('"secrets" must be one of redact, skip, off');
+    expect(parse({ chunking: [] })).toThrow('"chunking" must be a mapping');
+    expect(parse({ chunking: { maxChunkTokens: 1.5 } })).toThrow('"chunking.maxChunkTokens" must be a non-negative');
+    expect(parse({ chunking: { minChunkTokens: -1 } })).toThrow('"chunking.minChunkTokens" must be a non-negative');
+    expect(parse({ chunking: { keepNotebookOutputs: 1 } })).toThrow('"chunking.keepNotebookOutputs" must be true');
+    expect(parse({ chunking: { encoding: 'p50k_base' } })).toThrow('"chunking.encoding" must be one of');
+  });
+});
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'project-config-'));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+  vi.clearAllMocks();
+});
+
+describe('loadProjectConfig', () => {
+  it('returns null without a config file', async () => {
+    await expect(loadProjectConfig(root)).resolves.toBeNull();
+  });
+
+  it('prefers .context8.yml over context8.config.json', async () => {
+    writeFileSync(join(root, '.context8.yml'), 'name: Billing\naliases:\n  - billing-service\n');
+    writeFileSync(join(root, 'context8.config.json'), '{"name": "Other"}');
+
+    await expect(loadProjectConfig(root)).resolves.toEqual({ name: 'Billing', aliases: ['billing-service'] });
+  });
+
+  it('reports files that do not parse', async () => {
+    writeFileSync(join(root, 'context8.config.json'), '{"name": ');
+
+    await expect(loadProjectConfig(root)).rejects.toThrow('Invalid context8.config.json:');
+  });
+});
+
+describe('IndexingPipeline project config', () => {
+  it('fails the run on an invalid config', async () => {
+    writeFileSync(join(root, '.context8.yml'), 'chunking:\n  overlapTokens: 50\n');
+    database.localSourceRepository.findByPath.mockResolvedValue({ id: 'source-1', path: root, name: 'source' });
+
+    const result = await new IndexingPipeline().index(root);
+
+    const message = 'Invalid .context8.yml: unknown chunking setting "overlapTokens"';
+    expect(result.success).toBe(false);
+    expect(result.errors.map((e) => e.message)).toEqual([message]);
+    expect(database.localSourceRepository.updateIndexingStatus).toHaveBeenCalledWith('source-1', 'ERROR', message);
+    expect(database.localSourceRepository.updateIndexingStatus).not.toHaveBeenCalledWith('source-1', 'INDEXING');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Project Config - per-repository settings read from the source root
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { load } from 'js-yaml';
+import { SECRET_POLICIES } from '@context8/secret-scanner';
+import type { ProjectChunkingConfig, ProjectConfig, SecretPolicy } from '@context8/types';
+
+/** Looked up in the source root in this order; the first one found is used */
+export const PROJECT_CONFIG_FILES = ['.context8.yml', '.context8.yaml', 'context8.config.json'];
+
+const STRING_KEYS = ['name', 'description'] as const;
+const LIST_KEYS = ['aliases', 'include', 'exclude', 'languages'] as const;
+const FLAG_KEYS = ['llm', 'wiki', 'snippets'] as const;
+const CHUNKING_NUMBER_KEYS = ['maxChunkTokens', 'minChunkTokens'] as const;
+const CHUNKING_FLAG_KEYS = ['keepNotebookOutputs'] as const;
+const ENCODINGS = ['cl100k_base', 'o200k_base'];
+
+/**
+ * Read the project config of a source; null when it has none
+ */
+export async function loadProjectConfig(rootPath: string): Promise<ProjectConfig | null> {
+  for (const fileName of PROJECT_CONFIG_FILES) {
+    let content: string;
+    try {
+      content = await readFile(join(rootPath, fileName), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let raw: unknown;
+    try {
+      raw = fileName.endsWith('.json') ? JSON.parse(content) : load(content);
+    } catch (error) {
+      throw new Error(`Invalid ${fileName}: ${error instanceof Error ? error.message : error}`);
+    }
+    return parseProjectConfig(raw ?? {}, fileName);
+  }
+
+  return null;
+}
+
+/**
+ * Validate a parsed config file; unknown keys are rejected so typos don't go unnoticed
+ */
+export function parseProjectConfig(raw: unknown, fileName: string): ProjectConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid ${fileName}: ${message}`);
+  };
+  if (!isRecord(raw)) fail('expected a mapping of settings');
+  const input = raw as Record<string, unknown>;
+
+  const config: ProjectConfig = {};
+  const known = new Set<string>([...STRING_KEYS, ...LIST_KEYS, ...FLAG_KEYS, 'chunking', 'secrets']);
+  for (const key of Object.keys(input)) {
+    if (!known.has(key)) fail(`unknown setting "${key}"`);
+  }
+
+  for (const key of STRING_KEYS) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'string') fail(`"${key}" must be a string`);
+    config[key] = input[key] as string;
+  }
+
+  for (const key of LIST_KEYS) {
+    if (input[key] === undefined) continue;
+    const value = input[key];
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+      fail(`"${key}" must be a list of strings`);
+    }
+    config[key] = value as string[];
+  }
+
+  for (const key of FLAG_KEYS) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'boolean') fail(`"${key}" must be true or false`);
+    config[key] = input[key] as boolean;
+  }
+
+  if (input.chunking !== undefined) {
+    config.chunking = parseChunking(input.chunking, fail);
+  }
+
+  if (input.secrets !== undefined) {
+    if (!SECRET_POLICIES.includes(input.secrets as SecretPolicy)) {
+      fail(`"secrets" must be one of ${SECRET_POLICIES.join(', ')}`);
+    }
+    config.secrets = input.secrets as SecretPolicy;
+  }
+
+  return config;
+}
+
+function parseChunking(raw: unknown, fail: (message: string) => never): ProjectChunkingConfig {
+  if (!isRecord(raw)) fail('"chunking" must be a mapping');
+  const input = raw as Record<string, unknown>;
+
+  const chunking: ProjectChunkingConfig = {};
+  for (const key of Object.keys(input)) {
+    if (
+      !(CHUNKING_NUMBER_KEYS as readonly string[]).includes(key) &&
+      !(CHUNKING_FLAG_KEYS as readonly string[]).includes(key) &&
+      key !== 'encoding'
+    ) {
+      fail(`unknown chunking setting "${key}"`);
+    }
+  }
+
+  for (const key of CHUNKING_NUMBER_KEYS) {
+    if (input[key] === undefined) continue;
+    const value = input[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      fail(`"chunking.${key}" must be a non-negative integer`);
+    }
+    chunking[key] = value as number;
+  }
+
+  for (const key of CHUNKING_FLAG_KEYS) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'boolean') fail(`"chunking.${key}" must be true or false`);
+    chunking[key] = input[key] as boolean;
+  }
+
+  if (input.encoding !== undefined) {
+    if (typeof input.encoding !== 'string' || !ENCODINGS.includes(input.encoding)) {
+      fail(`"chunking.encoding" must be one of ${ENCODINGS.join(', ')}`);
+    }
+    chunking.encoding = input.encoding as ProjectChunkingConfig['encoding'];
+  }
+
+  return chunking;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -6,6 +6,9 @@
 
 export * from './types.js';
 export * from './collectors/index.js';
+export * from './config/index.js';
 export * from './change-detection/index.js';
+export * from './call-graph/index.js';
 export * from './pipeline/index.js';
 export * from './services/index.js';
+export * from './watcher/index.js';
@@ -2,31 +2,63 @@
  * Indexing Pipeline - main orchestration for indexing local directories
  */
 
-import { resolve, basename } from 'node:path';
-import { access } from 'node:fs/promises';
+import { resolve, basename, join } from 'node:path';
+import { access, readFile } from 'node:fs/promises';
+import { availableParallelism } from 'node:os';
 import {
   localSourceRepository,
   fileMetadataRepository,
+  llmGenerationRepository,
+  fileDependencyRepository,
+  symbolGraphRepository,
   taskRepository,
+  type CodeReferenceData,
+  type CodeSymbolData,
+  type CreateLLMGenerationData,
+  type FileImportData,
 } from '@context8/database';
-import { astChunker } from '@context8/parser';
+import { CHUNK_ID_VERSION, ImportResolver, type FileAnalysis, type FileDependencies } from '@context8/parser';
+import { DEFAULT_SECRET_POLICY, formatSecretFinding, secretScanner } from '@context8/secret-scanner';
+import type { ProjectConfig, SupportedLanguage, SymbolReference } from '@context8/types';
 import type {
   IndexingOptions,
   IndexingResult,
   ProgressCallback,
   CollectedFile,
   ProcessedChunk,
+  ProcessedFile,
 } from '../types.js';
 import { PipelineContext } from './pipeline-context.js';
+import { ParsePool } from './parse-pool.js';
+import { diffChunks, dropLegacyChunks, type ChunkChanges } from './stored-chunks.js';
 import { FileCollector } from '../collectors/file-collector.js';
 import {
   FileChangeDetector,
   createStoredFilesMap,
 } from '../change-detection/file-change-detector.js';
+import { GitChangeDetector } from '../change-detection/git-change-detector.js';
+import { loadProjectConfig } from '../config/project-config.js';
 import { TaskLogger } from '../services/task-logger.js';
+import { ReferenceResolver } from '../call-graph/reference-resolver.js';
 
 type TriggerType = 'CLI' | 'WEB' | 'WEBHOOK' | 'SCHEDULED';
 
+/** Files parsed, embedded and stored together */
+const DEFAULT_BATCH_SIZE = 50;
+
+/** Where a batch starts among the files of a run, for progress reports */
+interface BatchPosition {
+  offset: number;
+  total: number;
+}
+
+/** A stored file and what its references are resolved with once all batches are stored */
+interface StoredFile {
+  fileMetadata: { id: string; sourceId: string; filePath: string; contentHash: string };
+  symbolNames: string[];
+  references: SymbolReference[];
+}
+
 export interface IndexingOptionsWithTask extends IndexingOptions {
   /** Who triggered the indexing */
   triggeredBy?: TriggerType;
@@ -50,15 +82,22 @@ export interface IndexingPipelineConfig {
 
 // Interfaces for pluggable services
 export interface ILLMService {
+  /** Provider and model of the summaries; cached summaries are only reused for the same ones */
+  readonly provider: string;
+  readonly model: string;
   summarize(content: string, metadata: { language: string; symbolName?: string }): Promise<{
     summary: string;
     keywords: string[];
+    promptTokens?: number;
+    completionTokens?: number;
   }>;
 }
 
 export interface IEmbeddingService {
   embed(text: string): Promise<number[]>;
   embedBatch(texts: string[]): Promise<number[][]>;
+  /** Embedding cache hits and misses so far, if the service is cached */
+  cacheStats?(): { hits: number; misses: number };
 }
 
 export interface IVectorStore {
@@ -69,6 +108,23 @@ export interface IVectorStore {
   }>): Promise<void>;
   deleteBySourceId(sourceId: string): Promise<void>;
   deleteByFilePaths(sourceId: string, filePaths: string[]): Promise<void>;
+  deleteByIds(ids: string[]): Promise<void>;
+  /** Update payload fields of a point, keeping its vector */
+  setPayload(id: string, payload: Record<string, unknown>): Promise<void>;
+  /** Count points of a source written under a different chunk ID scheme */
+  countLegacyChunks?(sourceId: string, idVersion: number): Promise<number>;
+  /** Stored chunks of some files, to re-index them chunk by chunk */
+  findChunks?(sourceId: string, filePaths: string[]): Promise<StoredChunk[]>;
+}
+
+export interface StoredChunk {
+  id: string;
+  filePath: string;
+  contentHash?: string;
+  startLine?: number;
+  endLine?: number;
+  summary?: string;
+  keywords?: string[];
 }
 
 export class IndexingPipeline {
@@ -110,6 +166,17 @@ export class IndexingPipeline {
       });
     }
 
+    // Settings from the repository's own config file; explicit options win.
+    // An invalid file fails the run below, like any other indexing error.
+    let projectConfig: ProjectConfig | null = null;
+    let configError: unknown;
+    try {
+      projectConfig = await this.readProjectConfig(source.id, absolutePath);
+    } catch (error) {
+      configError = error;
+    }
+    options = withProjectConfig(options, projectConfig);
+
     // Create pipeline context
     const ctx = new PipelineContext({
       sourceId: source.id,
@@ -119,6 +186,8 @@ export class IndexingPipeline {
     });
 
     try {
+      if (configError) throw configError;
+
       // Update status to indexing
       await localSourceRepository.updateIndexingStatus(source.id, 'INDEXING');
 
@@ -177,6 +246,17 @@ export class IndexingPipeline {
       });
     }
 
+    // Settings from the repository's own config file; explicit options win.
+    // An invalid file fails the run below, like any other indexing error.
+    let projectConfig: ProjectConfig | null = null;
+    let configError: unknown;
+    try {
+      projectConfig = await this.readProjectConfig(source.id, absolutePath);
+    } catch (error) {
+      configError = error;
+    }
+    options = withProjectConfig(options, projectConfig);
+
     // Use existing task or create a new one
     let taskId: string;
     if (options.taskId) {
@@ -203,6 +283,7 @@ export class IndexingPipeline {
       sourceId: source.id,
       sourcePath: absolutePath,
       options,
+      taskId,
       onProgress: (progress) => {
         // Log progress to task logger
         const msg = progress.currentFile
@@ -215,18 +296,33 @@ export class IndexingPipeline {
           onProgress(progress);
         }
       },
+      onSecretFinding: (finding) => {
+        taskLogger.warn(formatSecretFinding(finding), { phase: 'collecting', filePath: finding.filePath });
+      },
     });
 
     try {
+      if (configError) throw configError;
+
       // Update task and source status
       await taskRepository.updateStatus(taskId, 'RUNNING');
       await localSourceRepository.updateIndexingStatus(source.id, 'INDEXING');
       taskLogger.info(`Starting indexing for ${absolutePath}`, { phase: 'collecting' });
+      if (projectConfig) {
+        taskLogger.info('Applying project config from the source root', { phase: 'collecting' });
+      }
+
+      // A task interrupted by a worker restart skips the files it already stored
+      ctx.checkpoints = await taskRepository.getCheckpoints(taskId);
+      if (ctx.checkpoints.size > 0) {
+        taskLogger.info(`Resuming from ${ctx.checkpoints.size} checkpointed files`, { phase: 'collecting' });
+      }
 
       // Run the pipeline
       const result = await this.runPipeline(ctx);
 
       // Update task with final stats
+      await taskRepository.clearCheckpoints(taskId);
       await taskRepository.updateStatus(taskId, 'COMPLETED', {
         filesProcessed: ctx.filesProcessed,
         chunksCreated: ctx.chunksCreated,
@@ -241,6 +337,26 @@ export class IndexingPipeline {
         summaryCount: ctx.summariesGenerated,
       });
 
+      const cacheLookups = ctx.embeddingCacheHits + ctx.embeddingCacheMisses;
+      if (cacheLookups > 0) {
+        const hitRate = Math.round((ctx.embeddingCacheHits / cacheLookups) * 100);
+        taskLogger.info(`Embedding cache: ${ctx.embeddingCacheHits}/${cacheLookups} hits (${hitRate}%)`, {
+          phase: 'embedding',
+        });
+      }
+
+      if (ctx.filesResumed > 0) {
+        taskLogger.info(`Resumed: ${ctx.filesResumed} files were stored before the interruption`, {
+          phase: 'storing',
+        });
+      }
+
+      if (ctx.summaryCacheHits > 0) {
+        taskLogger.info(`Summary cache: ${ctx.summaryCacheHits}/${ctx.summariesGenerated} summaries reused`, {
+          phase: 'summarizing',
+        });
+      }
+
       taskLogger.info(`Indexing completed in ${ctx.getDuration()}ms`, { phase: 'storing' });
       await taskLogger.close();
 
@@ -271,44 +387,94 @@ export class IndexingPipeline {
   private async runPipeline(ctx: PipelineContext): Promise<IndexingResult> {
     ctx.log(`Starting indexing for ${ctx.sourcePath}`);
 
-    // Helper to check abort signal
-    const checkAbort = () => {
-      if (ctx.options.abortSignal?.aborted) {
-        throw new Error('Task cancelled');
-      }
-    };
-
     // Phase 1: Collect files
-    checkAbort();
+    ctx.checkAbort();
     ctx.reportProgress({ phase: 'collecting', current: 0, total: 0 });
     const collector = new FileCollector(ctx.sourcePath, {
       includePatterns: ctx.options.include,
       excludePatterns: ctx.options.exclude,
+      languages: ctx.options.languages,
     });
 
-    const currentFilePaths = await collector.getFilePaths();
+    // Files outside the given paths are left as they are, and not even listed
+    const scope = ctx.options.paths;
+    const inScope = (filePath: string) =>
+      !scope || scope.some((p) => filePath === p || filePath.startsWith(`${p}/`));
+    const scopedFilePaths = await collector.getFilePaths(scope);
+
+    // Read before detecting changes, so commits made during the run are diffed next time
+    const gitDetector = new GitChangeDetector(ctx.sourcePath);
+    const headSha = await gitDetector.getHeadCommit();
+    const dirtyPaths = headSha ? await gitDetector.getDirtyPaths() : null;
+
+    // Points from an older chunk ID scheme can't be overwritten in place,
+    // so drop them and re-index the whole source once
+    let migrateChunkIds = false;
+    if (!ctx.isDryRun() && this.vectorStore) {
+      const legacyCount = await dropLegacyChunks(this.vectorStore, ctx.sourceId);
+      if (legacyCount > 0) {
+        ctx.log(`Dropped ${legacyCount} chunks with legacy IDs, re-indexing all files`);
+        migrateChunkIds = true;
+      }
+    }
+
+    // Every file of the source; runs limited to some paths take the files
+    // outside them from the stored metadata
+    const currentFilePaths = !scope
+      ? scopedFilePaths
+      : migrateChunkIds
+        ? await collector.getFilePaths()
+        : [
+            ...(await fileMetadataRepository.findBySourceId(ctx.sourceId))
+              .map((f) => f.filePath)
+              .filter((filePath) => !inScope(filePath)),
+            ...scopedFilePaths,
+          ];
     ctx.log(`Found ${currentFilePaths.length} files`);
 
+    // Content stored under another secret policy or other scanner rules is
+    // scanned again, so secrets the old scan let through leave the index
+    const source = await localSourceRepository.findById(ctx.sourceId);
+    const secretScanKey = this.secretScanKey(ctx);
+    const rescanSecrets = !scope && source?.secretScanKey !== secretScanKey;
+    if (rescanSecrets && source?.secretScanKey) {
+      ctx.log('Secret policy or scanner rules changed, re-indexing all files');
+    }
+
     // Phase 2: Detect changes (for incremental indexing)
     let filesToProcess: string[];
+    let removedPaths: string[] = [];
 
-    if (ctx.shouldForce()) {
+    if (ctx.shouldForce() || migrateChunkIds || rescanSecrets) {
       // Force mode: process all files
-      filesToProcess = currentFilePaths;
-      ctx.filesAdded = currentFilePaths.length;
+      filesToProcess = migrateChunkIds ? currentFilePaths : scopedFilePaths;
+      ctx.filesAdded = filesToProcess.length;
     } else {
       // Incremental mode: detect changes
       const storedFiles = await fileMetadataRepository.findBySourceId(ctx.sourceId);
       const storedFilesMap = createStoredFilesMap(
-        storedFiles.map((f) => ({
+        storedFiles.filter((f) => inScope(f.filePath)).map((f) => ({
           id: f.id,
           filePath: f.filePath,
           contentHash: f.contentHash,
         }))
       );
 
-      const changeDetector = new FileChangeDetector(ctx.sourcePath);
-      const changes = await changeDetector.detectChanges(storedFilesMap, currentFilePaths);
+      // Git checkouts only hash files changed since the indexed commit
+      const gitChanges = headSha && source?.lastIndexedSha
+        ? await gitDetector.detectChanges(
+            storedFilesMap,
+            scopedFilePaths,
+            source.lastIndexedSha,
+            source.lastIndexedDirtyPaths
+          )
+        : null;
+      if (gitChanges) {
+        ctx.log(`Detected changes with git since ${source!.lastIndexedSha!.slice(0, 7)}`);
+      }
+
+      const changes = gitChanges ??
+        (await new FileChangeDetector(ctx.sourcePath).detectChanges(storedFilesMap, scopedFilePaths));
 
       ctx.filesAdded = changes.added.length;
       ctx.filesModified = changes.modified.length;
@@ -318,11 +484,13 @@ export class IndexingPipeline {
 
       // Handle removed files
       if (changes.removed.length > 0) {
-        const removedPaths = changes.removed.map((f) => f.filePath);
+        removedPaths = changes.removed.map((f) => f.filePath);
         await fileMetadataRepository.deleteByPaths(ctx.sourceId, removedPaths);
 
         if (this.vectorStore) {
+          const removedChunks = await this.vectorStore.findChunks?.(ctx.sourceId, removedPaths);
           await this.vectorStore.deleteByFilePaths(ctx.sourceId, removedPaths);
+          ctx.chunksDeleted += removedChunks?.length ?? 0;
         }
       }
 
@@ -331,6 +499,13 @@ export class IndexingPipeline {
         ...changes.added.map((f) => f.filePath),
         ...changes.modified.map((f) => f.filePath),
       ];
+
+      // Checkpointed files look unchanged now, but their references were never resolved
+      const pendingPaths = new Set(filesToProcess);
+      const present = new Set(currentFilePaths);
+      for (const path of ctx.checkpoints.keys()) {
+        if (present.has(path) && !pendingPaths.has(path)) filesToProcess.push(path);
+      }
     }
 
     // Dry run: just report what would be processed
@@ -340,73 +515,377 @@ export class IndexingPipeline {
       return ctx.buildResult(true);
     }
 
-    // Phase 3: Collect and parse files
+    // Phase 3: Parse, summarize, embed and store files in bounded batches
     if (filesToProcess.length === 0) {
       ctx.log('No files to process');
+      await this.recordIndexedState(ctx, headSha, dirtyPaths, secretScanKey);
       return ctx.buildResult(true);
     }
 
-    const collectedFiles = await collector.collectFiles(filesToProcess);
-    ctx.log(`Collected ${collectedFiles.length} files`);
+    const total = filesToProcess.length;
+    const batchSize = Math.max(1, ctx.options.batchSize ?? DEFAULT_BATCH_SIZE);
 
-    // Phase 4: Parse and chunk files
-    ctx.reportProgress({ phase: 'parsing', current: 0, total: collectedFiles.length });
+    // Imports are resolved against every file of the source, not just the changed ones
+    const importResolver = new ImportResolver(currentFilePaths, {
+      goModulePath: await this.readGoModulePath(ctx.sourcePath),
+    });
 
-    const allChunks: ProcessedChunk[] = [];
+    ctx.checkAbort();
+    const pool = new ParsePool({
+      size: Math.min(ctx.options.concurrency ?? availableParallelism(), total),
+      chunking: ctx.options.chunking,
+      keepNotebookOutputs: ctx.options.notebookOutputs,
+      parserModules: ctx.options.parserModules,
+      signal: ctx.options.abortSignal,
+    });
 
-    for (let i = 0; i < collectedFiles.length; i++) {
-      checkAbort(); // Check for cancellation before each file
-      const file = collectedFiles[i];
+    // References are resolved once every changed file's symbols are stored,
+    // so only they outlive a batch
+    const storedFiles: Array<{ id: string; sourceId: string; filePath: string }> = [];
+    const referencesByFile = new Map<string, SymbolReference[]>();
+    const changedSymbolNames = new Set<string>();
+    const addStored = ({ fileMetadata, symbolNames, references }: StoredFile) => {
+      storedFiles.push(fileMetadata);
+      referencesByFile.set(fileMetadata.filePath, references);
+      symbolNames.forEach((name) => changedSymbolNames.add(name));
+    };
 
-      ctx.reportProgress({
-        phase: 'parsing',
-        current: i + 1,
-        total: collectedFiles.length,
-        currentFile: file.filePath,
-      });
+    try {
+      for (let offset = 0; offset < total; offset += batchSize) {
+        ctx.checkAbort();
+        const batch: BatchPosition = { offset, total };
+        const { files: collectedFiles, skipped } = this.guardSecrets(
+          ctx,
+          await collector.collectFiles(filesToProcess.slice(offset, offset + batchSize))
+        );
+        if (skipped.length > 0) {
+          await this.dropSkippedFiles(ctx, skipped);
+          removedPaths.push(...skipped.map((f) => f.filePath));
+        }
 
-      try {
-        const chunks = await this.parseFile(file, ctx);
-        allChunks.push(...chunks);
-        ctx.filesProcessed++;
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        ctx.addError({
-          file: file.filePath,
-          phase: 'parse',
-          message,
-        });
-        ctx.logError(`Failed to parse ${file.filePath}`, error);
+        // Phase 4: Parse and chunk files
+        const processedFiles = await this.parseBatch(ctx, pool, collectedFiles, importResolver, batch);
+        ctx.checkAbort();
+        ctx.chunksCreated += processedFiles.reduce((sum, f) => sum + f.chunks.length, 0);
+
+        const { resumed, pending } = await this.splitCheckpointed(ctx, processedFiles);
+        resumed.forEach(addStored);
+        if (pending.length === 0) continue;
+
+        const chunkChanges = await this.diffStoredChunks(ctx, pending);
+
+        // Phase 5: LLM summarization (if enabled)
+        if (!ctx.shouldSkipLLM() && this.llmService) {
+          await this.summarizeBatch(ctx, this.llmService, pending, batch);
+        }
+
+        // Phase 6: Generate embeddings (if enabled)
+        ctx.checkAbort();
+        if (this.embeddingService && !(await this.embedBatch(ctx, this.embeddingService, pending, batch))) {
+          // Without metadata the files count as changed and are retried on the next run
+          continue;
+        }
+
+        // Phase 7: Store results
+        ctx.checkAbort();
+        const stored = await this.storeBatch(ctx, pending, chunkChanges, batch);
+        stored.forEach(addStored);
+
+        if (ctx.taskId) {
+          await taskRepository.addCheckpoints(
+            ctx.taskId,
+            stored.map(({ fileMetadata }) => ({ filePath: fileMetadata.filePath, contentHash: fileMetadata.contentHash }))
+          );
+        }
       }
+    } finally {
+      await pool.close();
+    }
+
+    ctx.log(`Created ${ctx.chunksCreated} chunks`);
+    ctx.log(`Chunks: +${ctx.chunksAdded} ~${ctx.chunksUpdated} -${ctx.chunksDeleted}`);
+    const cacheLookups = ctx.embeddingCacheHits + ctx.embeddingCacheMisses;
+    if (cacheLookups > 0) {
+      ctx.log(`Embedding cache: ${ctx.embeddingCacheHits}/${cacheLookups} hits`);
     }
+    if (ctx.summariesGenerated > 0) {
+      ctx.log(`Generated ${ctx.summariesGenerated} summaries (${ctx.summaryCacheHits} from cache)`);
+    }
+
+    await this.storeReferences(ctx, storedFiles, referencesByFile, {
+      changedSymbolNames: [...changedSymbolNames],
+      removedPaths,
+      fullIndex: filesToProcess.length === currentFilePaths.length,
+    });
 
-    ctx.chunksCreated = allChunks.length;
-    ctx.log(`Created ${allChunks.length} chunks`);
+    await this.recordIndexedState(ctx, headSha, dirtyPaths, secretScanKey);
 
-    // Phase 5: LLM summarization (if enabled)
-    if (!ctx.shouldSkipLLM() && this.llmService && allChunks.length > 0) {
-      checkAbort();
-      ctx.reportProgress({ phase: 'summarizing', current: 0, total: allChunks.length });
+    ctx.log(`Indexing complete in ${ctx.getDuration()}ms`);
+    return ctx.buildResult(true);
+  }
 
-      for (let i = 0; i < allChunks.length; i++) {
-        checkAbort(); // Check for cancellation before each chunk
-        const chunk = allChunks[i];
+  /**
+   * Read the source's project config, store it for the dashboard and apply its display name
+   */
+  private async readProjectConfig(sourceId: string, sourcePath: string): Promise<ProjectConfig | null> {
+    const config = await loadProjectConfig(sourcePath);
+    await localSourceRepository.updateProjectConfig(sourceId, config);
+    if (config?.name) {
+      await localSourceRepository.update(sourceId, { name: config.name });
+    }
+    return config;
+  }
+
+  /**
+   * Remember the indexed commit and its dirty files for git-based change
+   * detection, and the secret scan the files went through. Runs with errors
+   * or limited to some paths keep the previous values, so the files they
+   * missed are looked at again. Without the dirty files the commit is
+   * forgotten, so the next run hashes every file.
+   */
+  private async recordIndexedState(
+    ctx: PipelineContext,
+    headSha: string | null,
+    dirtyPaths: string[] | null,
+    secretScanKey: string
+  ): Promise<void> {
+    if (ctx.options.paths || ctx.getErrors().length > 0) return;
+    await localSourceRepository.update(ctx.sourceId, {
+      ...(headSha && { lastIndexedSha: dirtyPaths ? headSha : null, lastIndexedDirtyPaths: dirtyPaths ?? [] }),
+      secretScanKey,
+    });
+  }
+
+  /**
+   * Secret policy of a run together with the scanner rules it applies
+   */
+  private secretScanKey(ctx: PipelineContext): string {
+    const policy = ctx.options.secrets ?? DEFAULT_SECRET_POLICY;
+    return policy === 'off' ? policy : `${policy}:${secretScanner.fingerprint}`;
+  }
+
+  /**
+   * Redact secrets from collected files, or drop the files under the skip policy,
+   * before any of their content reaches the LLM, embedding provider or vector store
+   */
+  private guardSecrets(
+    ctx: PipelineContext,
+    files: CollectedFile[]
+  ): { files: CollectedFile[]; skipped: CollectedFile[] } {
+    const policy = ctx.options.secrets ?? DEFAULT_SECRET_POLICY;
+    if (policy === 'off') return { files, skipped: [] };
+
+    const kept: CollectedFile[] = [];
+    const skipped: CollectedFile[] = [];
+    for (const file of files) {
+      const { content, findings } = secretScanner.redact(file.content);
+      if (findings.length === 0) {
+        kept.push(file);
+        continue;
+      }
+
+      for (const finding of findings) {
+        const fileFinding = { ...finding, filePath: file.filePath, skipped: policy === 'skip' };
+        ctx.addSecretFinding(fileFinding);
+        ctx.log(formatSecretFinding(fileFinding));
+      }
+      // The content hash stays that of the file on disk, for change detection
+      if (policy === 'skip') skipped.push(file);
+      else kept.push({ ...file, content });
+    }
+
+    return { files: kept, skipped };
+  }
+
+  /**
+   * Delete what was stored for files left out for their secrets, as for
+   * removed files, but record their content hash so they are only scanned
+   * again once they change
+   */
+  private async dropSkippedFiles(ctx: PipelineContext, files: CollectedFile[]): Promise<void> {
+    const paths = files.map((f) => f.filePath);
+    await fileMetadataRepository.deleteByPaths(ctx.sourceId, paths);
+
+    if (this.vectorStore) {
+      const skippedChunks = await this.vectorStore.findChunks?.(ctx.sourceId, paths);
+      await this.vectorStore.deleteByFilePaths(ctx.sourceId, paths);
+      ctx.chunksDeleted += skippedChunks?.length ?? 0;
+    }
+
+    const now = new Date();
+    await fileMetadataRepository.createMany(
+      files.map((file) => ({
+        sourceId: ctx.sourceId,
+        filePath: file.filePath,
+        absolutePath: file.absolutePath,
+        contentHash: file.contentHash,
+        size: file.size,
+        language: file.language,
+        lastModified: file.lastModified,
+        lastIndexed: now,
+        chunkCount: 0,
+      }))
+    );
+  }
+
+  /**
+   * Parse a batch of files on the pool; results keep the batch's file order
+   */
+  private async parseBatch(
+    ctx: PipelineContext,
+    pool: ParsePool,
+    files: CollectedFile[],
+    importResolver: ImportResolver,
+    batch: BatchPosition
+  ): Promise<ProcessedFile[]> {
+    const processedFiles: Array<ProcessedFile | null> = new Array(files.length).fill(null);
+    let parsedCount = 0;
+
+    await Promise.all(
+      files.map(async (file, i) => {
+        try {
+          const analysis = await pool.analyze(file, ctx.sourceId, file.contentHash);
+          processedFiles[i] = this.toProcessedFile(file, analysis, importResolver);
+        } catch (error) {
+          if (ctx.options.abortSignal?.aborted) return;
+
+          const message = error instanceof Error ? error.message : String(error);
+          ctx.addError({
+            file: file.filePath,
+            phase: 'parse',
+            message,
+          });
+          ctx.logError(`Failed to parse ${file.filePath}`, error);
+        }
 
         ctx.reportProgress({
-          phase: 'summarizing',
-          current: i + 1,
-          total: allChunks.length,
-          currentFile: chunk.metadata.filePath,
+          phase: 'parsing',
+          current: batch.offset + ++parsedCount,
+          total: batch.total,
+          currentFile: file.filePath,
         });
+      })
+    );
+
+    return processedFiles.filter((f): f is ProcessedFile => f !== null);
+  }
+
+  /**
+   * Separate files an interrupted run of the task already stored. Those are
+   * not stored again; only their references are resolved with the rest.
+   */
+  private async splitCheckpointed(
+    ctx: PipelineContext,
+    files: ProcessedFile[]
+  ): Promise<{ resumed: StoredFile[]; pending: ProcessedFile[] }> {
+    const checkpointed = files.filter((f) => ctx.checkpoints.get(f.file.filePath) === f.file.contentHash);
+    if (checkpointed.length === 0) return { resumed: [], pending: files };
+
+    const metadata = await fileMetadataRepository.findByPaths(ctx.sourceId, checkpointed.map((f) => f.file.filePath));
+    const metadataByPath = new Map(metadata.map((m) => [m.filePath, m]));
+
+    const resumed: StoredFile[] = [];
+    const pending: ProcessedFile[] = [];
+    for (const file of files) {
+      const fileMetadata = metadataByPath.get(file.file.filePath);
+      if (!fileMetadata || fileMetadata.contentHash !== file.file.contentHash) {
+        pending.push(file);
+        continue;
+      }
+
+      resumed.push({
+        fileMetadata,
+        symbolNames: this.collectSymbols(file.chunks, file.dependencies).map((s) => s.name),
+        references: file.references,
+      });
+      ctx.filesProcessed++;
+      ctx.filesResumed++;
+    }
+
+    return { resumed, pending };
+  }
+
+  /**
+   * Compare a batch's chunks with the stored ones by content hash. Unchanged
+   * chunks keep their stored summary and vector unless a full re-index is forced.
+   */
+  private async diffStoredChunks(ctx: PipelineContext, files: ProcessedFile[]): Promise<ChunkChanges> {
+    if (!this.vectorStore?.findChunks || files.length === 0) return { storedIds: new Set(), moved: [], staleIds: [] };
+
+    const storedChunks = await this.vectorStore.findChunks(ctx.sourceId, files.map((f) => f.file.filePath));
+    return diffChunks(files.flatMap((f) => f.chunks), storedChunks, {
+      force: ctx.shouldForce(),
+      // Chunks stored without a summary are redone once summaries are enabled
+      needsSummary: !ctx.shouldSkipLLM() && this.llmService !== undefined,
+    });
+  }
+
+  /**
+   * Summarize every chunk of a batch; failed chunks are stored without a summary.
+   * Summaries are looked up by content hash first, and new ones are cached.
+   */
+  private async summarizeBatch(
+    ctx: PipelineContext,
+    llmService: ILLMService,
+    files: ProcessedFile[],
+    batch: BatchPosition
+  ): Promise<void> {
+    const pending = files.flatMap((f) => f.chunks).filter((c) => !c.unchanged);
+    const cached = new Map<string, { summary: string; keywords: string[] }>();
+    const generations = await llmGenerationRepository.findByContentHashes(
+      'SUMMARY',
+      { provider: llmService.provider, model: llmService.model },
+      [...new Set(pending.map((c) => c.contentHash))]
+    );
+    for (const [contentHash, generation] of generations) {
+      const output = parseSummaryOutput(generation.output);
+      if (output) cached.set(contentHash, output);
+    }
+
+    const newGenerations: CreateLLMGenerationData[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+      for (const chunk of files[i].chunks) {
+        // Unchanged chunks kept the summary stored with them
+        if (chunk.unchanged) {
+          if (chunk.summary !== undefined) ctx.summariesGenerated++;
+          continue;
+        }
+
+        const hit = cached.get(chunk.contentHash);
+        if (hit) {
+          chunk.summary = hit.summary;
+          chunk.keywords = hit.keywords;
+          ctx.summariesGenerated++;
+          ctx.summaryCacheHits++;
+          continue;
+        }
+
+        ctx.checkAbort(); // Check for cancellation before each LLM call
 
         try {
-          const result = await this.llmService.summarize(chunk.content, {
+          const result = await llmService.summarize(chunk.content, {
             language: chunk.metadata.language,
-            symbolName: chunk.metadata.symbolName,
+            symbolName: chunk.metadata.qualifiedName ?? chunk.metadata.symbolName,
           });
           chunk.summary = result.summary;
           chunk.keywords = result.keywords;
           ctx.summariesGenerated++;
+
+          const output = { summary: result.summary, keywords: result.keywords };
+          cached.set(chunk.contentHash, output);
+          newGenerations.push({
+            sourceId: ctx.sourceId,
+            chunkId: chunk.id,
+            contentHash: chunk.contentHash,
+            generationType: 'SUMMARY',
+            provider: llmService.provider,
+            model: llmService.model,
+            input: chunk.content,
+            output: JSON.stringify(output),
+            promptTokens: result.promptTokens,
+            completionTokens: result.completionTokens,
+          });
         } catch (error) {
           const message = error instanceof Error ? error.message : String(error);
           ctx.addError({
@@ -417,63 +896,79 @@ export class IndexingPipeline {
         }
       }
 
-      ctx.log(`Generated ${ctx.summariesGenerated} summaries`);
+      ctx.reportProgress({
+        phase: 'summarizing',
+        current: batch.offset + i + 1,
+        total: batch.total,
+        currentFile: files[i].file.filePath,
+      });
     }
 
-    // Phase 6: Generate embeddings (if enabled)
-    checkAbort();
-    if (this.embeddingService && allChunks.length > 0) {
-      ctx.reportProgress({ phase: 'embedding', current: 0, total: allChunks.length });
+    await llmGenerationRepository.createMany(newGenerations);
+  }
 
-      const textsToEmbed = allChunks.map((chunk) =>
-        chunk.summary ? `${chunk.summary}\n\n${chunk.content}` : chunk.content
+  /**
+   * Embed every chunk of a batch; returns false if the batch could not be embedded
+   */
+  private async embedBatch(
+    ctx: PipelineContext,
+    embeddingService: IEmbeddingService,
+    files: ProcessedFile[],
+    batch: BatchPosition
+  ): Promise<boolean> {
+    const chunks = files.flatMap((f) => f.chunks).filter((c) => !c.unchanged);
+    if (chunks.length === 0) return true;
+
+    ctx.reportProgress({ phase: 'embedding', current: batch.offset, total: batch.total });
+
+    const statsBefore = embeddingService.cacheStats?.();
+    try {
+      const embeddings = await embeddingService.embedBatch(
+        chunks.map((chunk) => (chunk.summary ? `${chunk.summary}\n\n${chunk.content}` : chunk.content))
       );
-
-      try {
-        const embeddings = await this.embeddingService.embedBatch(textsToEmbed);
-
-        for (let i = 0; i < allChunks.length; i++) {
-          allChunks[i].embedding = embeddings[i];
-        }
-
-        ctx.log(`Generated ${embeddings.length} embeddings`);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
+      chunks.forEach((chunk, i) => {
+        chunk.embedding = embeddings[i];
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const { file } of files) {
         ctx.addError({
+          file: file.filePath,
           phase: 'embed',
           message,
         });
-        ctx.logError('Failed to generate embeddings', error);
       }
+      ctx.logError(`Failed to generate embeddings for ${files.length} files`, error);
+      return false;
     }
 
-    // Phase 7: Store results
-    checkAbort();
-    ctx.reportProgress({ phase: 'storing', current: 0, total: collectedFiles.length });
-
-    // Update file metadata
-    for (const file of collectedFiles) {
-      const fileChunks = allChunks.filter(
-        (c) => c.metadata.filePath === file.filePath
-      );
-
-      await fileMetadataRepository.upsert(ctx.sourceId, file.filePath, {
-        sourceId: ctx.sourceId,
-        filePath: file.filePath,
-        absolutePath: file.absolutePath,
-        contentHash: file.contentHash,
-        size: file.size,
-        language: file.language,
-        lastModified: file.lastModified,
-        lastIndexed: new Date(),
-        chunkCount: fileChunks.length,
-        hasSummary: fileChunks.some((c) => c.summary !== undefined),
-      });
+    const statsAfter = embeddingService.cacheStats?.();
+    if (statsBefore && statsAfter) {
+      ctx.embeddingCacheHits += statsAfter.hits - statsBefore.hits;
+      ctx.embeddingCacheMisses += statsAfter.misses - statsBefore.misses;
     }
 
-    // Store vectors (if vector store is configured)
-    if (this.vectorStore && allChunks.some((c) => c.embedding)) {
-      const chunksWithEmbeddings = allChunks.filter((c) => c.embedding);
+    ctx.reportProgress({ phase: 'embedding', current: batch.offset + files.length, total: batch.total });
+    return true;
+  }
+
+  /**
+   * Store a batch's vectors, then its file metadata, dependencies and symbols.
+   * Metadata goes last so an interrupted run re-indexes files whose vectors are missing.
+   */
+  private async storeBatch(
+    ctx: PipelineContext,
+    files: ProcessedFile[],
+    chunkChanges: ChunkChanges,
+    batch: BatchPosition
+  ): Promise<StoredFile[]> {
+    const chunksWithEmbeddings = files.flatMap((f) => f.chunks).filter((c) => c.embedding);
+
+    if (this.vectorStore && chunksWithEmbeddings.length > 0) {
+      // Without a listing of stored chunks, stale ones can only be found by clearing the files
+      if (!this.vectorStore.findChunks) {
+        await this.vectorStore.deleteByFilePaths(ctx.sourceId, files.map((f) => f.file.filePath));
+      }
 
       await this.vectorStore.upsert(
         chunksWithEmbeddings.map((chunk) => ({
@@ -488,36 +983,112 @@ export class IndexingPipeline {
             chunk_type: chunk.metadata.chunkType,
             chunk_level: chunk.metadata.chunkLevel,
             symbol_name: chunk.metadata.symbolName,
+            qualified_name: chunk.metadata.qualifiedName,
             signature: chunk.metadata.signature,
+            heading_path: chunk.metadata.headingPath,
+            docstring: chunk.metadata.docstring,
+            doc_params: chunk.metadata.docComment?.params,
+            doc_returns: chunk.metadata.docComment?.returns ?? undefined,
+            doc_examples: chunk.metadata.docComment?.examples,
+            deprecation_note: chunk.metadata.docComment?.deprecated ?? undefined,
+            decorators: chunk.metadata.decorators,
+            visibility: chunk.metadata.visibility,
+            deprecated: chunk.metadata.deprecated,
+            relations: chunk.metadata.relations,
             content: chunk.content,
             summary: chunk.summary,
             keywords: chunk.keywords,
+            content_hash: chunk.contentHash,
+            chunk_id_version: CHUNK_ID_VERSION,
           },
         }))
       );
+
+      for (const chunk of chunksWithEmbeddings) {
+        if (chunkChanges.storedIds.has(chunk.id)) {
+          ctx.chunksUpdated++;
+        } else {
+          ctx.chunksAdded++;
+        }
+      }
     }
 
-    ctx.log(`Indexing complete in ${ctx.getDuration()}ms`);
-    return ctx.buildResult(true);
+    if (this.vectorStore) {
+      for (const chunk of chunkChanges.moved) {
+        await this.vectorStore.setPayload(chunk.id, {
+          start_line: chunk.metadata.startLine,
+          end_line: chunk.metadata.endLine,
+        });
+      }
+
+      if (chunkChanges.staleIds.length > 0) {
+        await this.vectorStore.deleteByIds(chunkChanges.staleIds);
+        ctx.chunksDeleted += chunkChanges.staleIds.length;
+      }
+    }
+
+    const stored: StoredFile[] = [];
+    for (const { file, chunks, dependencies, references } of files) {
+      const fileMetadata = await fileMetadataRepository.upsert(ctx.sourceId, file.filePath, {
+        sourceId: ctx.sourceId,
+        filePath: file.filePath,
+        absolutePath: file.absolutePath,
+        contentHash: file.contentHash,
+        size: file.size,
+        language: file.language,
+        lastModified: file.lastModified,
+        lastIndexed: new Date(),
+        chunkCount: chunks.length,
+        hasSummary: chunks.some((c) => c.summary !== undefined),
+      });
+
+      await fileDependencyRepository.replaceForFile(fileMetadata, {
+        imports: (dependencies?.imports ?? []).map((i) => ({
+          specifier: i.source,
+          specifiers: i.specifiers,
+          importedNames: i.importedNames,
+          kind: i.kind.toUpperCase() as FileImportData['kind'],
+          isTypeOnly: i.isTypeOnly,
+          line: i.line,
+          targetPath: i.resolvedPath,
+        })),
+        exports: (dependencies?.exports ?? []).map((e) => ({
+          name: e.name,
+          isDefault: e.isDefault,
+          isTypeOnly: e.isTypeOnly,
+          fromSpecifier: e.source,
+        })),
+      });
+
+      const symbols = this.collectSymbols(chunks, dependencies);
+      await symbolGraphRepository.replaceSymbols(fileMetadata, symbols);
+
+      stored.push({ fileMetadata, symbolNames: symbols.map((s) => s.name), references });
+      ctx.filesProcessed++;
+
+      ctx.reportProgress({
+        phase: 'storing',
+        current: batch.offset + stored.length,
+        total: batch.total,
+        currentFile: file.filePath,
+      });
+    }
+
+    return stored;
   }
 
   /**
-   * Parse a file and create chunks
+   * Create chunks from a file parsed by the pool
    */
-  private async parseFile(
+  private toProcessedFile(
     file: CollectedFile,
-    ctx: PipelineContext
-  ): Promise<ProcessedChunk[]> {
-    const chunks = await astChunker.chunkFile(
-      file.filePath,
-      file.content,
-      ctx.sourceId,
-      file.contentHash
-    );
-
-    return chunks.map((chunk) => ({
+    { chunks, dependencies, references }: FileAnalysis,
+    importResolver: ImportResolver
+  ): ProcessedFile {
+    const processedChunks = chunks.map((chunk) => ({
       id: chunk.id,
       content: chunk.content,
+      contentHash: chunk.contentHash,
       metadata: {
         filePath: file.filePath,
         startLine: chunk.startLine,
@@ -526,9 +1097,119 @@ export class IndexingPipeline {
         chunkType: chunk.type,
         chunkLevel: chunk.level,
         symbolName: chunk.symbolName ?? undefined,
+        qualifiedName: chunk.qualifiedName ?? undefined,
         signature: chunk.signature ?? undefined,
+        headingPath: chunk.headingPath,
+        docstring: chunk.docstring ?? undefined,
+        docComment: chunk.docComment ?? undefined,
+        decorators: chunk.decorators,
+        visibility: chunk.visibility,
+        deprecated: chunk.deprecated,
+        relations: chunk.relations,
       },
     }));
+
+    return {
+      file,
+      chunks: processedChunks,
+      dependencies: dependencies
+        ? importResolver.resolveAll(file.filePath, file.language as SupportedLanguage, dependencies)
+        : null,
+      references,
+    };
+  }
+
+  /**
+   * Symbol table entries for a file, one per symbol summary chunk
+   */
+  private collectSymbols(chunks: ProcessedChunk[], dependencies: FileDependencies | null): CodeSymbolData[] {
+    const exported = new Set(dependencies?.exports.map((e) => e.name));
+
+    return chunks
+      .filter((c) => c.metadata.chunkLevel === 'summary' && c.metadata.qualifiedName && c.metadata.symbolName)
+      .map((c) => ({
+        qualifiedName: c.metadata.qualifiedName!,
+        name: c.metadata.symbolName!,
+        kind: c.metadata.chunkType,
+        // Only top-level symbols can be exported
+        isExported: c.metadata.qualifiedName === c.metadata.symbolName && exported.has(c.metadata.symbolName!),
+        chunkId: c.id,
+        startLine: c.metadata.startLine,
+        endLine: c.metadata.endLine,
+      }));
+  }
+
+  /**
+   * Resolve and store the references of changed files, then re-resolve
+   * references elsewhere that may point at added, changed or removed symbols
+   */
+  private async storeReferences(
+    ctx: PipelineContext,
+    files: Array<{ id: string; sourceId: string; filePath: string }>,
+    referencesByFile: Map<string, SymbolReference[]>,
+    changes: { changedSymbolNames: string[]; removedPaths: string[]; fullIndex: boolean }
+  ): Promise<void> {
+    const [symbols, imports] = await Promise.all([
+      symbolGraphRepository.getSymbolTable(ctx.sourceId),
+      fileDependencyRepository.getImportTable(ctx.sourceId),
+    ]);
+    const resolver = new ReferenceResolver(symbols, imports);
+
+    let resolved = 0;
+    let total = 0;
+    for (const file of files) {
+      const references: CodeReferenceData[] = (referencesByFile.get(file.filePath) ?? []).map((r) => ({
+        fromSymbol: r.fromSymbol,
+        fromChunkId: resolver.chunkIdOf(file.filePath, r.fromSymbol),
+        name: r.name,
+        receiver: r.receiver,
+        kind: r.kind.toUpperCase() as CodeReferenceData['kind'],
+        line: r.line,
+        ...resolver.resolve(file.filePath, r),
+      }));
+      await symbolGraphRepository.replaceReferences(file, references);
+
+      total += references.length;
+      resolved += references.filter((r) => r.resolution !== 'UNRESOLVED').length;
+    }
+    ctx.log(`Resolved ${resolved}/${total} symbol references`);
+
+    // Every file was resolved against the new table already
+    if (changes.fullIndex) return;
+
+    const changedPaths = files.map((f) => f.filePath);
+    const affected = await symbolGraphRepository.findAffectedReferences(ctx.sourceId, {
+      names: changes.changedSymbolNames,
+      targetPaths: [...changedPaths, ...changes.removedPaths],
+      excludePaths: changedPaths,
+    });
+
+    const updates = affected
+      .map((r) => ({ id: r.id, before: r, after: resolver.resolve(r.filePath, r) }))
+      .filter(({ before, after }) =>
+        before.targetSymbol !== after.targetSymbol ||
+        before.targetFilePath !== after.targetFilePath ||
+        before.targetChunkId !== after.targetChunkId ||
+        before.resolution !== after.resolution
+      )
+      .map(({ id, after }) => ({ id, ...after }));
+    await symbolGraphRepository.updateTargets(updates);
+
+    if (updates.length > 0) {
+      ctx.log(`Re-resolved ${updates.length} references in unchanged files`);
+    }
+  }
+
+  /**
+   * Module path from a root `go.mod`, used to resolve in-repo Go imports
+   */
+  private async readGoModulePath(sourcePath: string): Promise<string | null> {
+    try {
+      const goMod = await readFile(join(sourcePath, 'go.mod'), 'utf-8');
+      return goMod.match(/^module\s+(\S+)/m)?.[1] ?? null;
+    } catch {
+      return null;
+    }
   }
 
   /**
@@ -553,5 +1234,37 @@ export class IndexingPipeline {
   }
 }
 
+/**
+ * Apply a project config to indexing options. Explicit options win, except
+ * that exclude patterns of both apply.
+ */
+function withProjectConfig<T extends IndexingOptions>(options: T, config: ProjectConfig | null): T {
+  if (!config) return options;
+
+  return {
+    ...options,
+    include: options.include ?? config.include,
+    exclude: config.exclude || options.exclude ? [...(config.exclude ?? []), ...(options.exclude ?? [])] : undefined,
+    languages: options.languages ?? config.languages,
+    chunking: { ...config.chunking, ...options.chunking },
+    notebookOutputs: options.notebookOutputs ?? config.chunking?.keepNotebookOutputs,
+    skipLLM: options.skipLLM || config.llm === false,
+    secrets: options.secrets ?? config.secrets,
+  };
+}
+
+/**
+ * Summary and keywords of a cached SUMMARY generation
+ */
+function parseSummaryOutput(output: string): { summary: string; keywords: string[] } | null {
+  try {
+    const parsed = JSON.parse(output);
+    if (typeof parsed.summary !== 'string') return null;
+    return { summary: parsed.summary, keywords: Array.isArray(parsed.keywords) ? parsed.keywords : [] };
+  } catch {
+    return null;
+  }
+}
+
 // Singleton instance
 export const indexingPipeline = new IndexingPipeline();
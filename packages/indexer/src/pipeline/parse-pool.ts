@@ -0,0 +1,147 @@
+/**
+ * Parse Pool - parse and chunk files on worker threads
+ */
+
+import { Worker } from 'node:worker_threads';
+import type { ChunkingOptions, FileAnalysis } from '@context8/parser';
+
+export interface ParseWorkerData {
+  chunking: Partial<ChunkingOptions>;
+  keepNotebookOutputs: boolean;
+  parserModules: string[];
+}
+
+export interface ParseRequest {
+  id: number;
+  filePath: string;
+  content: string;
+  sourceId: string;
+  commitSha: string;
+}
+
+export type ParseResponse = { id: number; analysis: FileAnalysis } | { id: number; error: string };
+
+export interface ParsePoolOptions {
+  /** Number of worker threads */
+  size: number;
+  /** Overrides of the default chunking options */
+  chunking?: Partial<ChunkingOptions>;
+  /** Keep small text outputs of notebook cells */
+  keepNotebookOutputs?: boolean;
+  /** Modules each worker imports before parsing, e.g. to register languages */
+  parserModules?: string[];
+  /** Cancels queued and running parses */
+  signal?: AbortSignal;
+}
+
+interface ParseTask {
+  request: ParseRequest;
+  resolve: (analysis: FileAnalysis) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Fixed-size pool of parse workers. Workers are started on demand and each
+ * keeps its tree-sitter parsers for every file it handles.
+ */
+export class ParsePool {
+  private size: number;
+  private workerData: ParseWorkerData;
+  private workers = new Set<Worker>();
+  private idle: Worker[] = [];
+  private running = new Map<Worker, ParseTask>();
+  private queue: ParseTask[] = [];
+  private nextId = 0;
+  private closed = false;
+  private signal?: AbortSignal;
+  private onAbort = () => void this.close(new Error('Task cancelled'));
+
+  constructor(options: ParsePoolOptions) {
+    this.size = Math.max(1, options.size);
+    this.workerData = {
+      chunking: options.chunking ?? {},
+      keepNotebookOutputs: options.keepNotebookOutputs ?? false,
+      parserModules: options.parserModules ?? [],
+    };
+    this.signal = options.signal;
+    this.signal?.addEventListener('abort', this.onAbort, { once: true });
+  }
+
+  /**
+   * Chunk a file and extract its dependencies and references on a worker
+   */
+  analyze(file: { filePath: string; content: string }, sourceId: string, commitSha: string): Promise<FileAnalysis> {
+    if (this.closed) {
+      return Promise.reject(new Error('Parse pool is closed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = { id: this.nextId++, filePath: file.filePath, content: file.content, sourceId, commitSha };
+      this.queue.push({ request, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers; queued and running parses are rejected with `reason`
+   */
+  async close(reason: Error = new Error('Parse pool is closed')): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+
+    for (const task of [...this.queue, ...this.running.values()]) {
+      task.reject(reason);
+    }
+    this.queue = [];
+    this.running.clear();
+    this.idle = [];
+
+    await Promise.all([...this.workers].map((worker) => worker.terminate()));
+    this.workers.clear();
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.workers.size < this.size ? this.spawn() : null);
+      if (!worker) return;
+
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('./parse-worker.js', import.meta.url), { workerData: this.workerData });
+    this.workers.add(worker);
+
+    worker.on('message', (response: ParseResponse) => {
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+
+      if ('error' in response) {
+        task?.reject(new Error(response.error));
+      } else {
+        task?.resolve(response.analysis);
+      }
+      this.dispatch();
+    });
+
+    // A crashed worker fails its file only; the rest go to a replacement
+    worker.on('error', (error) => {
+      this.running.get(worker)?.reject(error);
+      this.running.delete(worker);
+    });
+    worker.on('exit', (code) => {
+      this.workers.delete(worker);
+      this.idle = this.idle.filter((w) => w !== worker);
+      this.running.get(worker)?.reject(new Error(`Parse worker exited with code ${code}`));
+      this.running.delete(worker);
+      if (!this.closed) this.dispatch();
+    });
+
+    return worker;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Parse Worker - chunks files on a worker thread for ParsePool
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { AstChunker } from '@context8/parser';
+import type { ParseRequest, ParseResponse, ParseWorkerData } from './parse-pool.js';
+
+const { chunking, keepNotebookOutputs, parserModules } = workerData as ParseWorkerData;
+
+// Languages registered outside @context8/parser must be registered in every thread
+for (const specifier of parserModules) {
+  await import(specifier);
+}
+
+// One chunker (and tree-sitter parser per grammar) for the lifetime of the thread
+const chunker = new AstChunker({ ...chunking, keepNotebookOutputs });
+
+parentPort!.on('message', async (request: ParseRequest) => {
+  let response: ParseResponse;
+  try {
+    const analysis = await chunker.analyzeFile(request.filePath, request.content, request.sourceId, request.commitSha);
+    response = { id: request.id, analysis };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(response);
+});
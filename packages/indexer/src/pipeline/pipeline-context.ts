@@ -2,6 +2,7 @@
  * Pipeline Context - shared state during indexing
  */
 
+import type { FileSecretFinding } from '@context8/secret-scanner';
 import type {
   IndexingOptions,
   IndexingResult,
@@ -15,30 +16,50 @@ export interface PipelineConfig {
   sourcePath: string;
   options: IndexingOptions;
   onProgress?: ProgressCallback;
+  /** Called for every secret found in a collected file */
+  onSecretFinding?: (finding: FileSecretFinding) => void;
+  /** Task that checkpoints stored files, if any */
+  taskId?: string;
 }
 
 export class PipelineContext {
   readonly sourceId: string;
   readonly sourcePath: string;
   readonly options: IndexingOptions;
+  readonly taskId?: string;
+
+  /** Content hashes of files an interrupted run of the task already stored */
+  checkpoints = new Map<string, string>();
+
+  private secretFindings: FileSecretFinding[] = [];
 
   private errors: IndexingError[] = [];
   private startTime: number;
   private progressCallback?: ProgressCallback;
+  private secretFindingCallback?: (finding: FileSecretFinding) => void;
 
   // Counters
   filesProcessed = 0;
   filesAdded = 0;
   filesModified = 0;
   filesRemoved = 0;
+  filesResumed = 0;
   chunksCreated = 0;
+  chunksAdded = 0;
+  chunksUpdated = 0;
+  chunksDeleted = 0;
+  embeddingCacheHits = 0;
+  embeddingCacheMisses = 0;
   summariesGenerated = 0;
+  summaryCacheHits = 0;
 
   constructor(config: PipelineConfig) {
     this.sourceId = config.sourceId;
     this.sourcePath = config.sourcePath;
     this.options = config.options;
+    this.taskId = config.taskId;
     this.progressCallback = config.onProgress;
+    this.secretFindingCallback = config.onSecretFinding;
     this.startTime = Date.now();
   }
 
@@ -58,6 +79,14 @@ export class PipelineContext {
     this.errors.push(error);
   }
 
+  /**
+   * Record a secret found in a file
+   */
+  addSecretFinding(finding: FileSecretFinding): void {
+    this.secretFindings.push(finding);
+    this.secretFindingCallback?.(finding);
+  }
+
   /**
    * Get all errors
    */
@@ -93,6 +122,15 @@ export class PipelineContext {
     return this.options.force ?? false;
   }
 
+  /**
+   * Throw if the task was cancelled
+   */
+  checkAbort(): void {
+    if (this.options.abortSignal?.aborted) {
+      throw new Error('Task cancelled');
+    }
+  }
+
   /**
    * Get duration in milliseconds
    */
@@ -112,8 +150,16 @@ export class PipelineContext {
       filesAdded: this.filesAdded,
       filesModified: this.filesModified,
       filesRemoved: this.filesRemoved,
+      filesResumed: this.filesResumed,
       chunksCreated: this.chunksCreated,
+      chunksAdded: this.chunksAdded,
+      chunksUpdated: this.chunksUpdated,
+      chunksDeleted: this.chunksDeleted,
+      embeddingCacheHits: this.embeddingCacheHits,
+      embeddingCacheMisses: this.embeddingCacheMisses,
       summariesGenerated: this.summariesGenerated,
+      summaryCacheHits: this.summaryCacheHits,
+      secretFindings: this.secretFindings,
       errors: this.errors,
       duration: this.getDuration(),
     };
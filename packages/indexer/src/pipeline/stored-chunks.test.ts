@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { CHUNK_ID_VERSION } from '@context8/parser';
+import type { ProcessedChunk } from '../types.js';
+import type { IVectorStore, StoredChunk } from './indexing-pipeline.js';
+import { diffChunks, dropLegacyChunks } from './stored-chunks.js';
+
+function chunk(id: string, contentHash: string, startLine = 0, endLine = 5): ProcessedChunk {
+  return {
+    id,
+    content: '',
+    contentHash,
+    metadata: { filePath: 'src/a.ts', startLine, endLine, language: 'typescript', chunkType: 'function', chunkLevel: 'summary' },
+  };
+}
+
+function stored(id: string, contentHash: string, startLine = 0, endLine = 5): StoredChunk {
+  return { id, filePath: 'src/a.ts', contentHash, startLine, endLine, summary: `summary of ${id}`, keywords: [id] };
+}
+
+const options = { force: false, needsSummary: false };
+
+describe('diffChunks', () => {
+  it('keeps the summary of unchanged chunks', () => {
+    const chunks = [chunk('a', 'hash-a')];
+    const changes = diffChunks(chunks, [stored('a', 'hash-a')], options);
+
+    expect(changes.storedIds).toEqual(new Set(['a']));
+    expect(changes.moved).toEqual([]);
+    expect(changes.staleIds).toEqual([]);
+    expect(chunks[0]).toMatchObject({ unchanged: true, summary: 'summary of a', keywords: ['a'] });
+  });
+
+  it('reports unchanged chunks whose lines moved', () => {
+    const chunks = [chunk('a', 'hash-a', 10, 15)];
+    const changes = diffChunks(chunks, [stored('a', 'hash-a')], options);
+
+    expect(chunks[0].unchanged).toBe(true);
+    expect(changes.moved).toEqual(chunks);
+  });
+
+  it('treats chunks with another content hash as changed', () => {
+    const chunks = [chunk('a', 'hash-a2')];
+    const changes = diffChunks(chunks, [stored('a', 'hash-a')], options);
+
+    expect(changes.storedIds).toEqual(new Set(['a']));
+    expect(chunks[0].unchanged).toBeUndefined();
+    expect(chunks[0].summary).toBeUndefined();
+  });
+
+  it('lists stored chunks that are gone as stale and ignores new ones', () => {
+    const changes = diffChunks(
+      [chunk('a', 'hash-a'), chunk('c', 'hash-c')],
+      [stored('a', 'hash-a'), stored('b', 'hash-b')],
+      options
+    );
+
+    expect(changes.storedIds).toEqual(new Set(['a']));
+    expect(changes.staleIds).toEqual(['b']);
+  });
+
+  it('redoes every chunk when forced and chunks without a summary when summaries are needed', () => {
+    const forced = [chunk('a', 'hash-a')];
+    diffChunks(forced, [stored('a', 'hash-a')], { force: true, needsSummary: false });
+    expect(forced[0].unchanged).toBeUndefined();
+
+    const unsummarized = [chunk('a', 'hash-a')];
+    diffChunks(unsummarized, [{ ...stored('a', 'hash-a'), summary: undefined }], { force: false, needsSummary: true });
+    expect(unsummarized[0].unchanged).toBeUndefined();
+  });
+});
+
+describe('dropLegacyChunks', () => {
+  function vectorStore(legacyCount: number) {
+    const calls: string[] = [];
+    const store = {
+      countLegacyChunks: async (sourceId: string, idVersion: number) => {
+        calls.push(`count ${sourceId} v${idVersion}`);
+        return legacyCount;
+      },
+      deleteBySourceId: async (sourceId: string) => {
+        calls.push(`delete ${sourceId}`);
+      },
+    } as unknown as IVectorStore;
+    return { store, calls };
+  }
+
+  it('deletes the points of a source with chunks from an older ID scheme', async () => {
+    const { store, calls } = vectorStore(3);
+
+    expect(await dropLegacyChunks(store, 'source-1')).toBe(3);
+    expect(calls).toEqual([`count source-1 v${CHUNK_ID_VERSION}`, 'delete source-1']);
+  });
+
+  it('leaves sources with current chunk IDs alone', async () => {
+    const { store, calls } = vectorStore(0);
+
+    expect(await dropLegacyChunks(store, 'source-1')).toBe(0);
+    expect(calls).toEqual([`count source-1 v${CHUNK_ID_VERSION}`]);
+  });
+
+  it('skips vector stores that cannot count legacy chunks', async () => {
+    const { store } = vectorStore(3);
+    delete (store as Partial<IVectorStore>).countLegacyChunks;
+
+    expect(await dropLegacyChunks(store, 'source-1')).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Stored Chunks - compare freshly parsed chunks with those in the vector store
+ */
+
+import { CHUNK_ID_VERSION } from '@context8/parser';
+import type { ProcessedChunk } from '../types.js';
+import type { IVectorStore, StoredChunk } from './indexing-pipeline.js';
+
+/** How a batch's chunks differ from the stored ones */
+export interface ChunkChanges {
+  /** IDs of the batch's chunks that are already stored */
+  storedIds: Set<string>;
+  /** Unchanged chunks whose lines moved */
+  moved: ProcessedChunk[];
+  /** Stored chunks of the batch's files that no longer exist */
+  staleIds: string[];
+}
+
+export interface ChunkDiffOptions {
+  /** Treat every chunk as changed */
+  force: boolean;
+  /** Chunks stored without a summary count as changed */
+  needsSummary: boolean;
+}
+
+/**
+ * Compare chunks with the stored chunks of the same files by ID and content
+ * hash. Unchanged chunks are marked and take over the stored summary.
+ */
+export function diffChunks(
+  chunks: ProcessedChunk[],
+  storedChunks: StoredChunk[],
+  options: ChunkDiffOptions
+): ChunkChanges {
+  const changes: ChunkChanges = { storedIds: new Set(), moved: [], staleIds: [] };
+  const stored = new Map(storedChunks.map((c) => [c.id, c]));
+
+  for (const chunk of chunks) {
+    const previous = stored.get(chunk.id);
+    if (!previous) continue;
+    stored.delete(chunk.id);
+    changes.storedIds.add(chunk.id);
+
+    if (
+      options.force ||
+      previous.contentHash !== chunk.contentHash ||
+      (options.needsSummary && previous.summary === undefined)
+    ) {
+      continue;
+    }
+
+    chunk.unchanged = true;
+    chunk.summary = previous.summary;
+    chunk.keywords = previous.keywords;
+    if (previous.startLine !== chunk.metadata.startLine || previous.endLine !== chunk.metadata.endLine) {
+      changes.moved.push(chunk);
+    }
+  }
+
+  changes.staleIds = [...stored.keys()];
+  return changes;
+}
+
+/**
+ * Points from an older chunk ID scheme can't be overwritten in place, so
+ * delete all points of the source when any are left. Returns how many
+ * legacy points were found; the source must then be re-indexed in full.
+ */
+export async function dropLegacyChunks(vectorStore: IVectorStore, sourceId: string): Promise<number> {
+  if (!vectorStore.countLegacyChunks) return 0;
+
+  const legacyCount = await vectorStore.countLegacyChunks(sourceId, CHUNK_ID_VERSION);
+  if (legacyCount > 0) {
+    await vectorStore.deleteBySourceId(sourceId);
+  }
+  return legacyCount;
+}
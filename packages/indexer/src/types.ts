@@ -2,6 +2,10 @@
  * Indexer Types
  */
 
+import type { ChunkingOptions, DocComment, FileDependencies, Visibility } from '@context8/parser';
+import type { FileSecretFinding, SecretPolicy } from '@context8/secret-scanner';
+import type { SymbolReference } from '@context8/types';
+
 export interface IndexingOptions {
   /** Skip LLM summarization */
   skipLLM?: boolean;
@@ -11,12 +15,26 @@ export interface IndexingOptions {
   dryRun?: boolean;
   /** Verbose output */
   verbose?: boolean;
-  /** Concurrency for file processing */
+  /** Number of parse worker threads (default: available CPUs) */
   concurrency?: number;
+  /** Files parsed, embedded and stored together; bounds memory use (default: 50) */
+  batchSize?: number;
   /** File patterns to include (glob) */
   include?: string[];
   /** File patterns to exclude (glob) */
   exclude?: string[];
+  /** Only look for changes at or under these relative paths, e.g. files touched in watch mode */
+  paths?: string[];
+  /** Only index files of these languages */
+  languages?: string[];
+  /** Overrides of the parser's chunking options */
+  chunking?: Partial<ChunkingOptions>;
+  /** Keep small text outputs of notebook cells */
+  notebookOutputs?: boolean;
+  /** What to do with files that contain secrets (default: redact) */
+  secrets?: SecretPolicy;
+  /** Modules imported by every parse worker, e.g. to register extra languages */
+  parserModules?: string[];
   /** Abort signal for cancellation */
   abortSignal?: AbortSignal;
 }
@@ -29,8 +47,25 @@ export interface IndexingResult {
   filesAdded: number;
   filesModified: number;
   filesRemoved: number;
+  /** Files a resumed task had stored before it was interrupted */
+  filesResumed: number;
   chunksCreated: number;
+  /** Chunks written to the vector store that were not stored before */
+  chunksAdded: number;
+  /** Stored chunks rewritten because their content changed */
+  chunksUpdated: number;
+  /** Stored chunks removed because their symbol or file is gone */
+  chunksDeleted: number;
+  /** Chunks embedded from the embedding cache */
+  embeddingCacheHits: number;
+  /** Chunks the embedding provider was called for */
+  embeddingCacheMisses: number;
+  /** Summaries of stored or reused chunks are counted too */
   summariesGenerated: number;
+  /** Summaries taken from the LLM generation cache */
+  summaryCacheHits: number;
+  /** Secrets redacted from, or found in skipped, files */
+  secretFindings: FileSecretFinding[];
   errors: IndexingError[];
   duration: number;
 }
@@ -74,11 +109,18 @@ export interface CollectedFile {
 export interface ProcessedFile {
   file: CollectedFile;
   chunks: ProcessedChunk[];
+  /** Imports (with resolved paths) and exports; null for non-code files */
+  dependencies: FileDependencies | null;
+  /** Calls and type references, attributed to their enclosing symbol */
+  references: SymbolReference[];
 }
 
 export interface ProcessedChunk {
   id: string;
   content: string;
+  contentHash: string;
+  /** Already stored with the same content; not summarized, embedded or written again */
+  unchanged?: boolean;
   summary?: string;
   keywords?: string[];
   embedding?: number[];
@@ -93,5 +135,13 @@ export interface ChunkMetadata {
   chunkType: string;
   chunkLevel: string;
   symbolName?: string;
+  qualifiedName?: string;
   signature?: string;
+  headingPath?: string[];
+  docstring?: string;
+  docComment?: DocComment;
+  decorators?: string[];
+  visibility?: Visibility;
+  deprecated?: boolean;
+  relations?: string[];
 }
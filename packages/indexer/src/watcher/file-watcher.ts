@@ -0,0 +1,119 @@
+/**
+ * File Watcher - reports changed files of a source in debounced batches
+ */
+
+import { watch, type FSWatcher } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { join, resolve, sep } from 'node:path';
+import { FileFilter } from '../collectors/file-filter.js';
+
+export interface FileWatcherOptions {
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  /** Quiet time after the last change before a batch is reported (default: 500) */
+  debounceMs?: number;
+}
+
+/**
+ * Handles a batch of relative paths: changed files, and deleted or renamed
+ * files and directories
+ */
+export type ChangeHandler = (paths: string[]) => Promise<void>;
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+export class FileWatcher {
+  private rootPath: string;
+  private options: FileWatcherOptions;
+  private filter: FileFilter | null = null;
+  private watcher: FSWatcher | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private changed = new Set<string>();
+  private running: Promise<void> | null = null;
+
+  constructor(rootPath: string, options: FileWatcherOptions = {}) {
+    this.rootPath = resolve(rootPath);
+    this.options = options;
+  }
+
+  /**
+   * Start watching; batches are handled one at a time, and changes made
+   * while a batch is handled are reported once it finishes
+   */
+  async start(onChange: ChangeHandler): Promise<void> {
+    this.filter = await FileFilter.create(this.rootPath, {
+      includePatterns: this.options.includePatterns,
+      excludePatterns: this.options.excludePatterns,
+    });
+
+    this.watcher = watch(this.rootPath, { recursive: true }, (_event, filename) => {
+      if (!filename) return;
+      const filePath = filename.split(sep).join('/');
+      if (this.filter!.isIgnored(join(this.rootPath, filePath), this.rootPath)) return;
+
+      this.changed.add(filePath);
+      this.schedule(onChange);
+    });
+  }
+
+  /**
+   * Stop watching and wait for the batch being handled
+   */
+  async close(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  private schedule(onChange: ChangeHandler): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.running) void this.flush(onChange);
+    }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  private async flush(onChange: ChangeHandler): Promise<void> {
+    const batch = [...this.changed];
+    this.changed.clear();
+
+    this.running = this.relevant(batch)
+      .then((paths) => (paths.length > 0 ? onChange(paths) : undefined))
+      .catch((error) => {
+        // Keep watching; the files are picked up again when they next change
+        console.error('[watcher] Failed to handle changes:', error);
+      });
+    await this.running;
+    this.running = null;
+
+    if (this.changed.size > 0 && this.watcher && !this.timer) {
+      await this.flush(onChange);
+    }
+  }
+
+  /**
+   * Drop files the indexer would skip; deleted paths and directories are
+   * kept so their stored files can be removed or re-collected
+   */
+  private async relevant(paths: string[]): Promise<string[]> {
+    const relevant: string[] = [];
+
+    for (const filePath of paths) {
+      const absolutePath = join(this.rootPath, filePath);
+      try {
+        const fileStat = await stat(absolutePath);
+        if (fileStat.isDirectory() || this.filter!.shouldInclude(absolutePath, this.rootPath)) {
+          relevant.push(filePath);
+        }
+      } catch {
+        relevant.push(filePath);
+      }
+    }
+
+    return relevant;
+  }
+}
@@ -0,0 +1 @@
+export * from './file-watcher.js';
@@ -45,7 +45,13 @@ export class CodeSummarizer {
       temperature: this.config.temperature,
     });
 
-    return parseSummaryResponse(response.content);
+    return {
+      ...parseSummaryResponse(response.content),
+      provider: this.provider.name,
+      model: response.model,
+      promptTokens: response.usage.promptTokens,
+      completionTokens: response.usage.completionTokens,
+    };
   }
 
   /**
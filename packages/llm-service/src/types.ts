@@ -34,6 +34,11 @@ export interface CodeSummary {
   summary: string;
   keywords: string[];
   complexity?: 'low' | 'medium' | 'high';
+  /** Provider and model that wrote the summary, and the tokens it took */
+  provider?: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
 }
 
 export interface CookbookEntry {
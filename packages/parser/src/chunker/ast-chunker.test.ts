@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { AstChunker } from './ast-chunker.js';
+
+const chunker = new AstChunker();
+
+async function moduleChunks(content: string) {
+  const chunks = await chunker.chunkFile('scripts/seed.ts', content, 'repo', 'sha');
+  return chunks.filter((c) => c.type === 'module');
+}
+
+describe('AstChunker module chunks', () => {
+  const script = [
+    "import { db } from './db';",
+    '',
+    'const users = await db.user.findMany();',
+    'console.log(users.length);',
+    '',
+    'export function seed() {',
+    '  return db.user.create({ data: { name: "a" } });',
+    '}',
+    '',
+    'await seed();',
+    'process.exit(0);',
+  ].join('\n');
+
+  it('covers top-level code between symbols', async () => {
+    const chunks = await moduleChunks(script);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].content).toContain('findMany');
+    expect(chunks[1].content).toContain('await seed()');
+    expect(chunks.every((c) => c.symbolName === 'seed')).toBe(true);
+  });
+
+  it('keeps the IDs of unchanged runs when a run is added before them', async () => {
+    const before = await moduleChunks(script);
+    const after = await moduleChunks(`setup();\n\nfunction setup() {}\n\n${script}`);
+
+    const ids = new Set(after.map((c) => c.id));
+    expect(after).toHaveLength(3);
+    expect(ids.has(before[0].id)).toBe(true);
+    expect(ids.has(before[1].id)).toBe(true);
+  });
+
+  it('gives identical runs distinct IDs', async () => {
+    const chunks = await moduleChunks('init();\n\nfunction a() {}\n\ninit();\n');
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].id).not.toBe(chunks[1].id);
+  });
+});
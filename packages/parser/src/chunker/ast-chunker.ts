@@ -1,9 +1,34 @@
-import { createHash, randomUUID } from 'crypto';
+import { createHash } from 'crypto';
+import type Parser from 'tree-sitter';
 import type { SupportedLanguage } from '@context8/types';
-import type { CodeChunkData, ChunkingOptions, ExtractedSymbol } from '../types.js';
+import { getTokenizer, type Tokenizer } from '@context8/tokenizer';
+import type { CodeChunkData, ChunkingOptions, ExtractedSymbol, FileAnalysis, FileDependencies } from '../types.js';
 import { DEFAULT_CHUNKING_OPTIONS } from '../types.js';
 import { TreeSitterParser, treeSitterParser } from '../tree-sitter-parser.js';
 import { SymbolExtractor } from './symbol-extractor.js';
+import { MarkdownChunker } from './markdown-chunker.js';
+import { ConfigChunker } from './config-chunker.js';
+import { SchemaChunker } from './schema-chunker.js';
+import { NotebookChunker } from './notebook-chunker.js';
+import { createChunkId, SymbolPathRegistry } from './chunk-id.js';
+import { BodySplitter } from './body-splitter.js';
+import { DependencyExtractor } from './dependency-extractor.js';
+import { ReferenceExtractor } from './reference-extractor.js';
+
+const COMMENT_NODE_TYPES = new Set(['comment', 'line_comment', 'block_comment']);
+
+// Top-level statements that only wire up the module
+const PREAMBLE_NODE_TYPES = new Set([
+  'import_statement',
+  'import_from_statement',
+  'future_import_statement',
+  'import_declaration',
+  'package_clause',
+  'package_declaration',
+  'use_declaration',
+  'extern_crate_declaration',
+  'mod_item',
+]);
 
 /**
  * AST-based hierarchical code chunker
@@ -11,12 +36,28 @@ import { SymbolExtractor } from './symbol-extractor.js';
 export class AstChunker {
   private parser: TreeSitterParser;
   private extractor: SymbolExtractor;
+  private markdownChunker: MarkdownChunker;
+  private configChunker: ConfigChunker;
+  private schemaChunker: SchemaChunker;
+  private notebookChunker: NotebookChunker;
+  private splitter: BodySplitter;
+  private dependencyExtractor: DependencyExtractor;
+  private referenceExtractor: ReferenceExtractor;
   private options: ChunkingOptions;
+  private tokenizer: Tokenizer;
 
   constructor(options?: Partial<ChunkingOptions>) {
     this.parser = treeSitterParser;
     this.extractor = new SymbolExtractor(this.parser);
     this.options = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    this.tokenizer = getTokenizer(this.options.encoding);
+    this.markdownChunker = new MarkdownChunker(this.options);
+    this.configChunker = new ConfigChunker(this.options);
+    this.schemaChunker = new SchemaChunker(this.options);
+    this.notebookChunker = new NotebookChunker(this.options);
+    this.splitter = new BodySplitter(this.options);
+    this.dependencyExtractor = new DependencyExtractor();
+    this.referenceExtractor = new ReferenceExtractor();
   }
 
   /**
@@ -28,23 +69,107 @@ export class AstChunker {
     repositoryId: string,
     commitSha: string
   ): Promise<CodeChunkData[]> {
+    const { chunks } = await this.analyzeFile(filePath, content, repositoryId, commitSha);
+    return chunks;
+  }
+
+  /**
+   * Chunk a file and extract its imports, exports and references from the same AST
+   */
+  async analyzeFile(
+    filePath: string,
+    content: string,
+    repositoryId: string,
+    commitSha: string
+  ): Promise<FileAnalysis> {
+    // Documentation is split by headings rather than by AST
+    if (this.markdownChunker.isMarkdownFile(filePath)) {
+      const chunks = this.markdownChunker.chunkFile(filePath, content, repositoryId, commitSha);
+      return { chunks, dependencies: null, references: [] };
+    }
+
+    // Config files are split by key rather than by AST
+    if (this.configChunker.isConfigFile(filePath)) {
+      const chunks = this.configChunker.chunkFile(filePath, content, repositoryId, commitSha);
+      return { chunks, dependencies: null, references: [] };
+    }
+
+    // Schema files are split into one chunk per model, table or type
+    if (this.schemaChunker.isSchemaFile(filePath)) {
+      const chunks = this.schemaChunker.chunkFile(filePath, content, repositoryId, commitSha);
+      return { chunks, dependencies: null, references: [] };
+    }
+
+    // Notebooks are split into code and markdown cells
+    if (this.notebookChunker.isNotebookFile(filePath)) {
+      return this.analyzeNotebook(filePath, content, repositoryId, commitSha);
+    }
+
     const language = this.parser.detectLanguage(filePath);
     if (!language) {
-      return []; // Skip unsupported files
+      return { chunks: [], dependencies: null, references: [] }; // Skip unsupported files
     }
 
-    const tree = this.parser.parse(content, language);
+    return this.analyzeSource(filePath, content, language, repositoryId, commitSha);
+  }
+
+  /**
+   * Code cells go through the Python extractor and markdown cells through the
+   * markdown chunker; chunk lines are cell indices
+   */
+  private analyzeNotebook(
+    filePath: string,
+    content: string,
+    repositoryId: string,
+    commitSha: string
+  ): FileAnalysis {
+    const notebook = this.notebookChunker.read(content);
+    if (!notebook) {
+      return { chunks: [], dependencies: null, references: [] };
+    }
+
+    // Only Python kernels (the default without metadata) have an extractor;
+    // other notebooks keep their markdown
+    const code =
+      (notebook.language ?? 'python') === 'python' && notebook.code.content.trim()
+        ? this.analyzeSource(filePath, notebook.code.content, 'python', repositoryId, commitSha)
+        : { chunks: [], dependencies: null, references: [] };
+    const docs = notebook.markdown.content.trim()
+      ? this.markdownChunker.chunkFile(filePath, notebook.markdown.content, repositoryId, commitSha)
+      : [];
+
+    return this.notebookChunker.combine(notebook, code, docs);
+  }
+
+  /**
+   * Chunk source code by the symbols of its AST
+   */
+  private analyzeSource(
+    filePath: string,
+    content: string,
+    language: SupportedLanguage,
+    repositoryId: string,
+    commitSha: string
+  ): FileAnalysis {
+    const tree = this.parser.parse(content, language, filePath);
     const lines = content.split('\n');
     const chunks: CodeChunkData[] = [];
+    const dependencies = this.dependencyExtractor.extract(tree, language);
 
     // Extract symbols from AST
     const symbols = this.extractor.extract(tree, content, language);
+    const symbolPaths = new SymbolPathRegistry();
+    const summariesByQualifiedName = new Map<string, CodeChunkData>();
+    const nestedSummaries: Array<{ parentSymbol: string; chunk: CodeChunkData }> = [];
 
     // Create chunks for each symbol
     for (const symbol of symbols) {
+      const symbolPath = symbolPaths.claim(symbol.qualifiedName);
+
       // Summary Chunk (signature + docstring)
       const summaryChunk = this.createSummaryChunk(
         symbol,
+        symbolPath,
         filePath,
         language,
         repositoryId,
@@ -56,49 +181,78 @@ export class AstChunker {
       // Implementation Chunk(s) (body)
       const implChunks = this.createImplementationChunks(
         symbol,
+        symbolPath,
         filePath,
         language,
         repositoryId,
         commitSha,
         lines,
+        tree,
         summaryChunk.id
       );
       chunks.push(...implChunks);
 
       // Link summary to implementations
       summaryChunk.childChunkIds = implChunks.map((c) => c.id);
+
+      if (!summariesByQualifiedName.has(symbol.qualifiedName)) {
+        summariesByQualifiedName.set(symbol.qualifiedName, summaryChunk);
+      }
+      if (symbol.parentSymbol) {
+        nestedSummaries.push({ parentSymbol: symbol.parentSymbol, chunk: summaryChunk });
+      }
     }
 
+    // Link nested symbols (methods, inner classes, closures) to their enclosing symbol
+    for (const { parentSymbol, chunk } of nestedSummaries) {
+      const parent = summariesByQualifiedName.get(parentSymbol);
+      if (parent) {
+        chunk.parentChunkId = parent.id;
+        parent.childChunkIds.push(chunk.id);
+      }
+    }
+
+    // Top-level code outside any symbol (scripts, route modules, re-exports)
+    const moduleChunks = this.createModuleChunks(tree, symbols, filePath, language, repositoryId, commitSha, lines);
+    chunks.push(...moduleChunks);
+
     // File-level summary chunk
-    if (symbols.length > 0) {
+    if (symbols.length > 0 || moduleChunks.length > 0) {
       const fileSummary = this.createFileSummaryChunk(
         symbols,
         filePath,
         language,
         repositoryId,
         commitSha,
-        content
+        content,
+        dependencies
       );
       chunks.unshift(fileSummary);
     }
 
-    return chunks;
+    const references = this.referenceExtractor.extract(tree, language, symbols);
+
+    return { chunks, dependencies, references };
   }
 
   private createSummaryChunk(
     symbol: ExtractedSymbol,
+    symbolPath: string,
     filePath: string,
     language: SupportedLanguage,
     repositoryId: string,
     commitSha: string,
     _lines: string[]
   ): CodeChunkData {
+    // Decorators outside the signature node (member decorators) are shown above it
+    const decorators = symbol.decorators.filter((d) => !symbol.signature.includes(d));
+    const declaration = [...decorators, symbol.signature].join('\n');
     const content = symbol.docstring
-      ? `${symbol.docstring}\n\n${symbol.signature}`
-      : symbol.signature;
+      ? `${symbol.docstring}\n\n${declaration}`
+      : declaration;
 
     return {
-      id: randomUUID(),
+      id: createChunkId({ sourceId: repositoryId, filePath, symbolPath, part: 'summary' }),
       repositoryId,
       level: 'summary',
       type: symbol.type,
@@ -106,6 +260,7 @@ export class AstChunker {
       content,
       signature: symbol.signature,
       symbolName: symbol.name,
+      qualifiedName: symbol.qualifiedName,
       filePath,
       startLine: symbol.startLine,
       endLine: symbol.endLine,
@@ -113,29 +268,48 @@ export class AstChunker {
       contentHash: this.hashContent(content),
       imports: [],
       exports: [],
+      ...this.getSymbolMetadata(symbol),
       parentChunkId: null,
       childChunkIds: [],
     };
   }
 
+  /**
+   * Documentation and modifier fields shared by all chunks of a symbol
+   */
+  private getSymbolMetadata(
+    symbol: ExtractedSymbol
+  ): Pick<CodeChunkData, 'docstring' | 'docComment' | 'decorators' | 'visibility' | 'deprecated'> {
+    return {
+      docstring: symbol.docstring,
+      docComment: symbol.docComment,
+      decorators: symbol.decorators,
+      visibility: symbol.visibility,
+      deprecated: symbol.deprecated,
+    };
+  }
+
   private createImplementationChunks(
     symbol: ExtractedSymbol,
+    symbolPath: string,
     filePath: string,
     language: SupportedLanguage,
     repositoryId: string,
     commitSha: string,
     lines: string[],
+    tree: Parser.Tree,
     parentChunkId: string
   ): CodeChunkData[] {
-    const bodyLines = lines.slice(symbol.bodyStartLine, symbol.endLine + 1);
-    const bodyContent = bodyLines.join('\n');
-    const tokenCount = this.estimateTokens(bodyContent);
+    // Containers use their outline so member bodies aren't duplicated
+    const bodyContent =
+      symbol.outline ?? lines.slice(symbol.bodyStartLine, symbol.endLine + 1).join('\n');
+    const tokenCount = this.tokenizer.countTokens(bodyContent);
 
     // If body fits in single chunk
     if (tokenCount <= this.options.maxChunkTokens) {
       return [
         {
-          id: randomUUID(),
+          id: createChunkId({ sourceId: repositoryId, filePath, symbolPath, part: 'impl:0' }),
           repositoryId,
           level: 'implementation',
           type: symbol.type,
@@ -143,6 +317,7 @@ export class AstChunker {
           content: bodyContent,
           signature: symbol.signature,
           symbolName: symbol.name,
+          qualifiedName: symbol.qualifiedName,
           filePath,
           startLine: symbol.bodyStartLine,
           endLine: symbol.endLine,
@@ -150,72 +325,126 @@ export class AstChunker {
           contentHash: this.hashContent(bodyContent),
           imports: [],
           exports: [],
+          ...this.getSymbolMetadata(symbol),
           parentChunkId,
           childChunkIds: [],
         },
       ];
     }
 
-    // Split large bodies into multiple chunks
-    return this.splitIntoChunks(
-      bodyContent,
-      symbol,
-      filePath,
-      language,
+    // Split large bodies at statement boundaries; outlines have no AST of their own
+    const outlineLines = symbol.outline?.split('\n');
+    const parts = outlineLines
+      ? this.splitter.split(outlineLines, 0, outlineLines.length - 1, null, symbol.signature, language)
+      : this.splitter.split(
+          lines,
+          symbol.bodyStartLine,
+          symbol.endLine,
+          this.extractor.findSymbolBody(tree, symbol),
+          symbol.signature,
+          language
+        );
+
+    return parts.map((part, partIndex) => ({
+      id: createChunkId({ sourceId: repositoryId, filePath, symbolPath, part: `impl:${partIndex}` }),
       repositoryId,
+      level: 'implementation',
+      type: symbol.type,
+      language,
+      content: part.content,
+      signature: parts.length > 1 ? `${symbol.signature} [part ${partIndex + 1}]` : symbol.signature,
+      symbolName: symbol.name,
+      qualifiedName: symbol.qualifiedName,
+      filePath,
+      // Outline lines don't map 1:1 to source lines, so parts span the whole body
+      startLine: symbol.outline ? symbol.bodyStartLine : part.startLine,
+      endLine: symbol.outline ? symbol.endLine : part.endLine,
       commitSha,
-      parentChunkId
-    );
+      contentHash: this.hashContent(part.content),
+      imports: [],
+      exports: [],
+      ...this.getSymbolMetadata(symbol),
+      parentChunkId,
+      childChunkIds: [],
+    }));
   }
 
-  private splitIntoChunks(
-    content: string,
-    symbol: ExtractedSymbol,
+  /**
+   * Chunk runs of top-level statements that no extracted symbol covers.
+   * Imports and comments alone only get a chunk when the file has no symbols.
+   */
+  private createModuleChunks(
+    tree: Parser.Tree,
+    symbols: ExtractedSymbol[],
     filePath: string,
     language: SupportedLanguage,
     repositoryId: string,
     commitSha: string,
-    parentChunkId: string
+    lines: string[]
   ): CodeChunkData[] {
-    const chunks: CodeChunkData[] = [];
-    const lines = content.split('\n');
-    const maxLines = Math.floor(this.options.maxChunkTokens / 10);
-    const overlapLines = Math.floor(this.options.overlapTokens / 10);
+    // A statement wrapping a symbol (export, decorators) ends where the symbol ends
+    const isCovered = (node: Parser.SyntaxNode) =>
+      symbols.some((s) => s.endLine === node.endPosition.row && s.startLine >= node.startPosition.row);
+
+    const runs: Parser.SyntaxNode[][] = [];
+    let run: Parser.SyntaxNode[] = [];
+    for (const node of tree.rootNode.namedChildren) {
+      if (!isCovered(node)) {
+        run.push(node);
+        continue;
+      }
+      // Comments right above a symbol are its documentation
+      while (run.length > 0 && COMMENT_NODE_TYPES.has(run[run.length - 1].type)) run.pop();
+      if (run.length > 0) runs.push(run);
+      run = [];
+    }
+    if (run.length > 0) runs.push(run);
+
+    const moduleRuns = runs.filter(
+      (nodes) =>
+        !nodes.every((n) => COMMENT_NODE_TYPES.has(n.type)) &&
+        (symbols.length === 0 || !nodes.every((n) => this.isPreambleNode(n)))
+    );
 
-    let startIdx = 0;
-    let partIndex = 0;
+    const moduleName = (filePath.split('/').pop() ?? filePath).replace(/\.[^.]+$/, '');
+    const signature = `Module: ${filePath}`;
+    const comment = language === 'python' ? '#' : '//';
+    const runKeys = new SymbolPathRegistry();
 
-    while (startIdx < lines.length) {
-      const endIdx = Math.min(startIdx + maxLines, lines.length);
-      const chunkLines = lines.slice(startIdx, endIdx);
-      const chunkContent = chunkLines.join('\n');
+    return moduleRuns.flatMap((nodes) => {
+      const startLine = nodes[0].startPosition.row;
+      const endLine = nodes[nodes.length - 1].endPosition.row;
+      // Keyed by content, so code added elsewhere in the file leaves the IDs of other runs alone
+      const runKey = runKeys.claim(this.hashContent(lines.slice(startLine, endLine + 1).join('\n')).slice(0, 16));
+      const parts = this.splitter.split(lines, startLine, endLine, tree.rootNode, `${comment} ${signature}`, language);
 
-      chunks.push({
-        id: randomUUID(),
+      return parts.map((part, partIndex): CodeChunkData => ({
+        id: createChunkId({ sourceId: repositoryId, filePath, symbolPath: '', part: `module:${runKey}:${partIndex}` }),
         repositoryId,
         level: 'implementation',
-        type: symbol.type,
+        type: 'module',
         language,
-        content: chunkContent,
-        signature: `${symbol.signature} [part ${partIndex + 1}]`,
-        symbolName: symbol.name,
+        content: part.content,
+        signature: parts.length > 1 ? `${signature} [part ${partIndex + 1}]` : signature,
+        symbolName: moduleName,
         filePath,
-        startLine: symbol.bodyStartLine + startIdx,
-        endLine: symbol.bodyStartLine + endIdx - 1,
+        startLine: part.startLine,
+        endLine: part.endLine,
         commitSha,
-        contentHash: this.hashContent(chunkContent),
+        contentHash: this.hashContent(part.content),
         imports: [],
         exports: [],
-        parentChunkId,
+        parentChunkId: null,
         childChunkIds: [],
-      });
-
-      startIdx = endIdx - overlapLines;
-      if (startIdx >= lines.length - overlapLines) break;
-      partIndex++;
-    }
+      }));
+    });
+  }
 
-    return chunks;
+  private isPreambleNode(node: Parser.SyntaxNode): boolean {
+    if (COMMENT_NODE_TYPES.has(node.type) || PREAMBLE_NODE_TYPES.has(node.type)) return true;
+    // `export ... from` re-exports and 'use client' style directives
+    if (node.type === 'export_statement') return node.childForFieldName('source') !== null;
+    return node.type === 'expression_statement' && /^['"]use [\w ]+['"];?$/.test(node.text);
   }
 
   private createFileSummaryChunk(
@@ -224,13 +453,14 @@ export class AstChunker {
     language: SupportedLanguage,
     repositoryId: string,
     commitSha: string,
-    fullContent: string
+    fullContent: string,
+    dependencies: FileDependencies
   ): CodeChunkData {
     const signatures = symbols.map((s) => s.signature).join('\n\n');
     const summary = `// File: ${filePath}\n// Symbols: ${symbols.length}\n\n${signatures}`;
 
     return {
-      id: randomUUID(),
+      id: createChunkId({ sourceId: repositoryId, filePath, symbolPath: '', part: 'file' }),
       repositoryId,
       level: 'summary',
       type: 'file_summary',
@@ -243,54 +473,16 @@ export class AstChunker {
       endLine: fullContent.split('\n').length - 1,
       commitSha,
       contentHash: this.hashContent(fullContent),
-      imports: this.extractImports(fullContent, language),
-      exports: this.extractExports(fullContent, language),
+      imports: [...new Set(dependencies.imports.map((i) => i.source))],
+      exports: [...new Set(dependencies.exports.map((e) => e.name))],
       parentChunkId: null,
       childChunkIds: [],
     };
   }
 
-  private extractImports(content: string, language: SupportedLanguage): string[] {
-    const imports: string[] = [];
-    const lines = content.split('\n');
-
-    for (const line of lines) {
-      if (language === 'typescript') {
-        const match = line.match(/from\s+['"]([^'"]+)['"]/);
-        if (match) imports.push(match[1]);
-      } else if (language === 'python') {
-        const importMatch = line.match(/^import\s+(\S+)/);
-        const fromMatch = line.match(/^from\s+(\S+)\s+import/);
-        if (importMatch) imports.push(importMatch[1]);
-        if (fromMatch) imports.push(fromMatch[1]);
-      }
-    }
-
-    return [...new Set(imports)];
-  }
-
-  private extractExports(content: string, language: SupportedLanguage): string[] {
-    const exports: string[] = [];
-    const lines = content.split('\n');
-
-    for (const line of lines) {
-      if (language === 'typescript') {
-        const exportMatch = line.match(/export\s+(?:const|let|var|function|class|interface|type)\s+(\w+)/);
-        if (exportMatch) exports.push(exportMatch[1]);
-      }
-    }
-
-    return [...new Set(exports)];
-  }
-
   private hashContent(content: string): string {
     return createHash('sha256').update(content).digest('hex');
   }
-
-  private estimateTokens(text: string): number {
-    // Rough estimate: ~4 characters per token
-    return Math.ceil(text.length / 4);
-  }
 }
 
 export const astChunker = new AstChunker();
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getTokenizer } from '@context8/tokenizer';
+import { BodySplitter } from './body-splitter.js';
+
+const tokenizer = getTokenizer();
+const options = { maxChunkTokens: 40, minChunkTokens: 30 };
+
+function split(lines: string[]) {
+  return new BodySplitter(options).split(lines, 0, lines.length - 1, null, 'function f()', 'typescript');
+}
+
+describe('BodySplitter', () => {
+  it('keeps a small trailing fragment separate when folding it would exceed maxChunkTokens', () => {
+    const lines = ['function f() {', ...Array.from({ length: 6 }, (_, i) => `  step(${i});`), '}'];
+    const parts = split(lines);
+
+    expect(parts.map((p) => [p.startLine, p.endLine])).toEqual([[0, 4], [5, 7]]);
+    for (const part of parts) {
+      expect(tokenizer.countTokens(part.content)).toBeLessThanOrEqual(options.maxChunkTokens);
+    }
+    expect(parts[1].content).toMatch(/^function f\(\)\n {2}\/\/ \.\.\.\n {2}step\(4\);/);
+  });
+
+  it('folds a small trailing fragment into the previous part when it fits', () => {
+    const lines = [
+      'function f() {',
+      ...Array.from({ length: 3 }, (_, i) => `  step(${i});`),
+      '  return combine(first, second);',
+      '}',
+    ];
+    const parts = split(lines);
+
+    expect(parts.map((p) => [p.startLine, p.endLine])).toEqual([[0, 5]]);
+    expect(tokenizer.countTokens(parts[0].content)).toBeLessThanOrEqual(options.maxChunkTokens);
+  });
+});
@@ -0,0 +1,208 @@
+import type Parser from 'tree-sitter';
+import type { SupportedLanguage } from '@context8/types';
+import { getTokenizer, type Tokenizer } from '@context8/tokenizer';
+import type { ChunkingOptions } from '../types.js';
+import { DEFAULT_CHUNKING_OPTIONS } from '../types.js';
+
+export interface BodyPart {
+  content: string;
+  startLine: number;
+  endLine: number;
+}
+
+interface Segment {
+  startLine: number;
+  endLine: number;
+  /** Header rows of the statements enclosing this segment */
+  context: number[];
+}
+
+/**
+ * Splits oversized symbol bodies at statement boundaries taken from the AST
+ */
+export class BodySplitter {
+  private options: ChunkingOptions;
+  private tokenizer: Tokenizer;
+
+  constructor(options?: Partial<ChunkingOptions>) {
+    this.options = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    this.tokenizer = getTokenizer(this.options.encoding);
+  }
+
+  /**
+   * Split `lines[startLine..endLine]` into parts of at most `maxChunkTokens`.
+   * Every part after the first is prefixed with the symbol signature, the
+   * headers of enclosing statements and an elision marker.
+   *
+   * Without a body node (e.g. outlines) the body is split between lines.
+   */
+  split(
+    lines: string[],
+    startLine: number,
+    endLine: number,
+    bodyNode: Parser.SyntaxNode | null,
+    signature: string,
+    language: SupportedLanguage
+  ): BodyPart[] {
+    // Leave room for the signature, context headers and marker on continuation parts
+    const headerTokens = this.tokenizer.countTokens(signature) + 16;
+    const budget = Math.max(this.options.maxChunkTokens - headerTokens, this.options.minChunkTokens);
+    const counts = new LineTokenCounts(lines, startLine, endLine, this.tokenizer);
+
+    const boundaries = new Map<number, number[]>();
+    if (bodyNode) {
+      this.collectBoundaries(bodyNode, counts, startLine, endLine, budget, [], boundaries);
+    } else {
+      for (let row = startLine + 1; row <= endLine; row++) boundaries.set(row, []);
+    }
+
+    const segments = this.toSegments(startLine, endLine, boundaries);
+    const packed = this.pack(segments, counts, budget, headerTokens);
+
+    return packed.map((segment, index) => {
+      const body = lines.slice(segment.startLine, segment.endLine + 1).join('\n');
+      return {
+        content: index === 0 ? body : `${this.renderHeader(segment, lines, signature, language)}\n${body}`,
+        startLine: segment.startLine,
+        endLine: segment.endLine,
+      };
+    });
+  }
+
+  /**
+   * Record the start row of every statement as a possible cut, descending
+   * into statements that are too large to keep whole
+   */
+  private collectBoundaries(
+    node: Parser.SyntaxNode,
+    counts: LineTokenCounts,
+    startLine: number,
+    endLine: number,
+    budget: number,
+    context: number[],
+    boundaries: Map<number, number[]>
+  ): void {
+    for (const child of node.namedChildren) {
+      const row = child.startPosition.row;
+      if (row > startLine && row <= endLine && !boundaries.has(row)) {
+        boundaries.set(row, context);
+      }
+
+      const spansLines = child.endPosition.row > row;
+      if (spansLines && counts.range(row, child.endPosition.row) > budget) {
+        const childContext = context.includes(row) ? context : [...context, row];
+        this.collectBoundaries(child, counts, startLine, endLine, budget, childContext, boundaries);
+      }
+    }
+  }
+
+  private toSegments(startLine: number, endLine: number, boundaries: Map<number, number[]>): Segment[] {
+    const rows = [...boundaries.keys()].sort((a, b) => a - b);
+    const segments: Segment[] = [];
+
+    let segmentStart = startLine;
+    let context: number[] = [];
+    for (const row of rows) {
+      segments.push({ startLine: segmentStart, endLine: row - 1, context });
+      segmentStart = row;
+      context = boundaries.get(row) ?? [];
+    }
+    segments.push({ startLine: segmentStart, endLine, context });
+
+    return segments;
+  }
+
+  /**
+   * Greedily pack consecutive segments into parts that fit the budget
+   */
+  private pack(segments: Segment[], counts: LineTokenCounts, budget: number, headerTokens: number): Segment[] {
+    const parts: Segment[] = [];
+    let current: Segment | null = null;
+
+    for (const segment of segments) {
+      const segmentTokens = counts.range(segment.startLine, segment.endLine);
+
+      if (current && counts.range(current.startLine, segment.endLine) > budget) {
+        parts.push(current);
+        current = null;
+      }
+
+      // A single statement that still doesn't fit is cut between lines as a last resort
+      if (!current && segmentTokens > budget) {
+        parts.push(...this.splitLines(segment, counts, budget));
+        continue;
+      }
+
+      if (current) {
+        current.endLine = segment.endLine;
+      } else {
+        current = { ...segment };
+      }
+    }
+    if (current) parts.push(current);
+
+    // Fold a tiny trailing fragment into the previous part while that stays within maxChunkTokens
+    if (parts.length > 1) {
+      const last = parts[parts.length - 1];
+      const previousHeader = parts.length > 2 ? headerTokens : 0;
+      const merged = counts.range(parts[parts.length - 2].startLine, last.endLine) + previousHeader;
+      if (
+        counts.range(last.startLine, last.endLine) < this.options.minChunkTokens &&
+        merged <= this.options.maxChunkTokens
+      ) {
+        parts.pop();
+        parts[parts.length - 1].endLine = last.endLine;
+      }
+    }
+
+    return parts;
+  }
+
+  private splitLines(segment: Segment, counts: LineTokenCounts, budget: number): Segment[] {
+    const pieces: Segment[] = [];
+    let pieceStart = segment.startLine;
+
+    for (let row = segment.startLine + 1; row <= segment.endLine + 1; row++) {
+      const isLast = row > segment.endLine;
+      if (isLast || counts.range(pieceStart, row) > budget) {
+        pieces.push({ startLine: pieceStart, endLine: row - 1, context: segment.context });
+        pieceStart = row;
+      }
+    }
+
+    return pieces;
+  }
+
+  private renderHeader(segment: Segment, lines: string[], signature: string, language: SupportedLanguage): string {
+    const comment = language === 'sql' ? '--' : language === 'python' || language === 'graphql' ? '#' : '//';
+    const indent = lines[segment.startLine].match(/^\s*/)?.[0] ?? '';
+    const contextLines = segment.context.map((row) => lines[row].trimEnd());
+
+    return [signature, ...contextLines, `${indent}${comment} ...`].join('\n');
+  }
+}
+
+/**
+ * Per-line token counts with prefix sums, so any line range can be measured
+ * without encoding it again. Each line carries one token for its newline.
+ */
+class LineTokenCounts {
+  private startLine: number;
+  private prefix: number[];
+
+  constructor(lines: string[], startLine: number, endLine: number, tokenizer: Tokenizer) {
+    this.startLine = startLine;
+    this.prefix = [0];
+    for (let row = startLine; row <= endLine; row++) {
+      this.prefix.push(this.prefix[this.prefix.length - 1] + tokenizer.countTokens(lines[row] ?? '') + 1);
+    }
+  }
+
+  /** Tokens in rows `startLine..endLine`, clamped to the measured range */
+  range(startLine: number, endLine: number): number {
+    const last = this.prefix.length - 1;
+    const from = Math.min(Math.max(startLine - this.startLine, 0), last);
+    const to = Math.min(Math.max(endLine - this.startLine + 1, 0), last);
+    return Math.max(this.prefix[to] - this.prefix[from], 0);
+  }
+}
@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+
+/**
+ * Version of the chunk ID scheme, stored alongside each vector so that
+ * points written under an older scheme can be found and migrated
+ */
+export const CHUNK_ID_VERSION = 1;
+
+export interface ChunkIdParts {
+  /** Source (or repository) the chunk belongs to */
+  sourceId: string;
+  /** File path relative to the source root */
+  filePath: string;
+  /** Qualified symbol path or heading path; empty for file-level chunks */
+  symbolPath: string;
+  /** Which chunk of the symbol this is, e.g. `summary` or `impl:0` */
+  part: string;
+}
+
+/**
+ * Derive a stable, UUID-formatted chunk ID from its location
+ *
+ * The same symbol in the same file always maps to the same ID, so
+ * re-indexing overwrites existing vector points instead of adding new ones.
+ */
+export function createChunkId(parts: ChunkIdParts): string {
+  const hash = createHash('sha256')
+    .update(
+      [`v${CHUNK_ID_VERSION}`, parts.sourceId, parts.filePath, parts.symbolPath, parts.part].join('\0')
+    )
+    .digest();
+
+  // Shape the digest as an RFC 4122 name-based UUID so Qdrant accepts it as a point ID
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Hands out unique symbol paths within a file, suffixing repeats
+ * (overloads, redeclarations) with their occurrence index
+ */
+export class SymbolPathRegistry {
+  private seen = new Map<string, number>();
+
+  claim(path: string): string {
+    const count = this.seen.get(path) ?? 0;
+    this.seen.set(path, count + 1);
+    return count === 0 ? path : `${path}#${count}`;
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigChunker } from './config-chunker.js';
+
+const chunker = new ConfigChunker();
+
+function chunk(filePath: string, content: string) {
+  return chunker.chunkFile(filePath, content, 'repo', 'sha');
+}
+
+describe('ConfigChunker', () => {
+  it('emits one chunk per top-level JSON key under a file outline', () => {
+    const content = JSON.stringify(
+      { name: 'app', version: '1.0.0', scripts: { build: 'tsc', test: 'vitest' }, dependencies: { zod: '^3.0.0' } },
+      null,
+      2
+    );
+    const [summary, ...chunks] = chunk('package.json', content);
+
+    expect(summary.type).toBe('file_summary');
+    expect(summary.content).toContain('- scripts');
+    expect(chunks.map((c) => c.symbolName)).toEqual(['name', 'version', 'scripts', 'dependencies']);
+    expect(chunks.every((c) => c.type === 'config' && c.language === 'json')).toBe(true);
+    expect(chunks.every((c) => c.parentChunkId === summary.id)).toBe(true);
+    expect(summary.childChunkIds).toEqual(chunks.map((c) => c.id));
+
+    const scripts = chunks[2];
+    expect(scripts.startLine).toBe(3);
+    expect(scripts.endLine).toBe(6);
+    expect(scripts.content).toContain('"build": "tsc"');
+  });
+
+  it('chunks members of collection keys with the collection line as header', () => {
+    const content = [
+      'version: "3.8"',
+      'services:',
+      '  # Public API',
+      '  web:',
+      '    image: node:20',
+      '    ports:',
+      '      - "3000:3000"',
+      '  db:',
+      '    image: postgres:16',
+      '',
+    ].join('\n');
+    const [, ...chunks] = chunk('docker-compose.yml', content);
+
+    expect(chunks.map((c) => c.symbolName)).toEqual(['version', 'services.web', 'services.db']);
+    const web = chunks[1];
+    expect(web.startLine).toBe(2);
+    expect(web.endLine).toBe(6);
+    expect(web.content.split('\n')[0]).toBe('services:');
+    expect(web.content).toContain('# Public API');
+    expect(chunks[2].content).not.toContain('node:20');
+  });
+
+  it('uses TOML table names as key paths and numbers array tables', () => {
+    const content = [
+      'name = "tool"',
+      '',
+      '[tool.poetry]',
+      'version = "0.1.0"',
+      '',
+      '[[bin]]',
+      'name = "a"',
+      '',
+      '[[bin]]',
+      'name = "b"',
+    ].join('\n');
+    const [, ...chunks] = chunk('pyproject.toml', content);
+
+    expect(chunks.map((c) => c.symbolName)).toEqual(['name', 'tool.poetry', 'bin[0]', 'bin[1]']);
+    expect(chunks[1].startLine).toBe(2);
+    expect(chunks[1].endLine).toBe(3);
+  });
+
+  it('splits env files by variable', () => {
+    const [, ...chunks] = chunk('.env.example', '# Database\nDATABASE_URL=postgres://localhost/db\nexport PORT=3000\n');
+
+    expect(chunks.map((c) => c.symbolName)).toEqual(['DATABASE_URL', 'PORT']);
+    expect(chunks[0].language).toBe('env');
+    expect(chunks[0].startLine).toBe(0);
+  });
+
+  it('keeps chunk IDs of unchanged keys when another key changes', () => {
+    const before = chunk('package.json', '{\n  "name": "app",\n  "version": "1.0.0"\n}');
+    const after = chunk('package.json', '{\n  "name": "app",\n  "version": "2.0.0"\n}');
+
+    expect(after[1].id).toBe(before[1].id);
+    expect(after[1].contentHash).toBe(before[1].contentHash);
+    expect(after[2].contentHash).not.toBe(before[2].contentHash);
+  });
+
+  it('chunks documents without keys as a whole and ignores other files', () => {
+    const [, whole] = chunk('data.json', '[1, 2, 3]');
+    expect(whole.symbolName).toBe('data.json');
+
+    expect(chunk('index.ts', 'export {}')).toEqual([]);
+    expect(chunk('empty.yaml', '\n')).toEqual([]);
+  });
+});
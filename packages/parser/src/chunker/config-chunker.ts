@@ -0,0 +1,478 @@
+import { createHash } from 'crypto';
+import type { SupportedLanguage } from '@context8/types';
+import { getTokenizer, type Tokenizer } from '@context8/tokenizer';
+import type { CodeChunkData, ChunkingOptions } from '../types.js';
+import { DEFAULT_CHUNKING_OPTIONS } from '../types.js';
+import { createChunkId, SymbolPathRegistry } from './chunk-id.js';
+
+export type ConfigLanguage = Extract<SupportedLanguage, 'json' | 'yaml' | 'toml' | 'env'>;
+
+const CONFIG_EXTENSIONS: Record<string, ConfigLanguage> = {
+  json: 'json',
+  jsonc: 'json',
+  json5: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  toml: 'toml',
+};
+
+// Keys whose members are chunked one by one, e.g. docker-compose services or CI jobs
+const COLLECTION_KEYS = new Set(['services', 'jobs', 'tasks', 'pipeline', 'workflows', 'stages']);
+
+const YAML_KEY = /^(\s*)("[^"]*"|'[^']*'|[^\s#'"?:\-[\]{}][^:#]*?)\s*:(?:\s|$)/;
+const TOML_TABLE = /^\s*(\[\[?)\s*([^\]]+?)\s*\]\]?\s*(?:#.*)?$/;
+const TOML_KEY = /^([A-Za-z0-9_\-]+|"[^"]*"|'[^']*')(?:\s*\.\s*(?:[A-Za-z0-9_\-]+|"[^"]*"|'[^']*'))*\s*=/;
+const ENV_KEY = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=/;
+
+interface ConfigEntry {
+  /** Key path from the document root, e.g. ['services', 'web'] */
+  path: string[];
+  /** First line, including comments directly above the key */
+  startLine: number;
+  keyLine: number;
+  endLine: number;
+  children: ConfigEntry[];
+}
+
+interface ConfigUnit {
+  /** Dotted key path, e.g. `services.web` */
+  keyPath: string;
+  startLine: number;
+  endLine: number;
+  /** Opening line of the enclosing entry, repeated above nested members */
+  header: string | null;
+}
+
+/**
+ * Structure-aware chunker for JSON, YAML, TOML and env-style config files.
+ * Splits by top-level keys (members of collection keys such as `services`
+ * get their own chunks) and keeps the key path as the chunk's symbol name.
+ */
+export class ConfigChunker {
+  private options: ChunkingOptions;
+  private tokenizer: Tokenizer;
+
+  constructor(options?: Partial<ChunkingOptions>) {
+    this.options = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    this.tokenizer = getTokenizer(this.options.encoding);
+  }
+
+  /**
+   * Config language of a file, or null for anything else
+   */
+  detectLanguage(filePath: string): ConfigLanguage | null {
+    const fileName = filePath.split('/').pop() ?? filePath;
+    if (fileName === '.env' || fileName.startsWith('.env.')) return 'env';
+
+    const ext = fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined;
+    return ext ? (CONFIG_EXTENSIONS[ext] ?? null) : null;
+  }
+
+  isConfigFile(filePath: string): boolean {
+    return this.detectLanguage(filePath) !== null;
+  }
+
+  /**
+   * Split a config file into key chunks under a file outline chunk
+   */
+  chunkFile(
+    filePath: string,
+    content: string,
+    repositoryId: string,
+    commitSha: string
+  ): CodeChunkData[] {
+    const language = this.detectLanguage(filePath);
+    if (!language || !content.trim()) {
+      return [];
+    }
+
+    const lines = content.split('\n');
+    let entries = this.parseEntries(language, content, lines);
+
+    // Documents without keys (e.g. a top-level array) are chunked as a whole
+    if (entries.length === 0) {
+      const fileName = filePath.split('/').pop() ?? filePath;
+      const endLine = this.trimEnd(lines, 0, lines.length - 1);
+      entries = [{ path: [fileName], startLine: 0, keyLine: 0, endLine, children: [] }];
+    }
+
+    const fileSummary = this.createFileSummaryChunk(entries, filePath, language, repositoryId, commitSha, content);
+    const chunks: CodeChunkData[] = [fileSummary];
+    const keyPaths = new SymbolPathRegistry();
+
+    for (const unit of this.collectUnits(entries, lines, null)) {
+      chunks.push(
+        ...this.createUnitChunks(unit, keyPaths, lines, filePath, language, repositoryId, commitSha, fileSummary.id)
+      );
+    }
+
+    fileSummary.childChunkIds = chunks.slice(1).map((c) => c.id);
+    return chunks;
+  }
+
+  private parseEntries(language: ConfigLanguage, content: string, lines: string[]): ConfigEntry[] {
+    switch (language) {
+      case 'json':
+        return this.parseJson(content);
+      case 'yaml':
+        return this.parseYaml(lines, 0, lines.length - 1, []);
+      case 'toml':
+        return this.parseToml(lines);
+      case 'env':
+        return this.parseEnv(lines);
+    }
+  }
+
+  /**
+   * Scan JSON (with comments and trailing commas) for object keys and the
+   * lines their values span
+   */
+  private parseJson(content: string): ConfigEntry[] {
+    const root: ConfigEntry = { path: [], startLine: 0, keyLine: 0, endLine: 0, children: [] };
+    // Members of objects inside arrays aren't addressable by key path
+    const detached = (): ConfigEntry => ({ path: [], startLine: 0, keyLine: 0, endLine: 0, children: [] });
+    const stack: Array<{ type: string; entry: ConfigEntry; open: ConfigEntry | null }> = [];
+
+    let line = 0;
+    let lastTokenLine = 0;
+    let pendingKey: { name: string; line: number } | null = null;
+
+    for (let i = 0; i < content.length; i++) {
+      const ch = content[i];
+      const top = stack[stack.length - 1];
+      const expectingKey = top?.type === '{' && top.open === null;
+
+      if (ch === '\n') {
+        line++;
+      } else if (/\s/.test(ch)) {
+        continue;
+      } else if (ch === '/' && content[i + 1] === '/') {
+        const end = content.indexOf('\n', i);
+        i = (end === -1 ? content.length : end) - 1;
+      } else if (ch === '/' && content[i + 1] === '*') {
+        const end = content.indexOf('*/', i + 2);
+        const stop = end === -1 ? content.length : end + 2;
+        line += (content.slice(i, stop).match(/\n/g) ?? []).length;
+        i = stop - 1;
+      } else if (ch === '"' || ch === "'") {
+        let j = i + 1;
+        while (j < content.length && content[j] !== ch) {
+          if (content[j] === '\\') j++;
+          j++;
+        }
+        if (expectingKey) pendingKey = { name: content.slice(i + 1, j), line };
+        line += (content.slice(i, j).match(/\n/g) ?? []).length;
+        lastTokenLine = line;
+        i = j;
+      } else if (ch === ':') {
+        if (expectingKey && pendingKey) {
+          const entry: ConfigEntry = {
+            path: [...top.entry.path, pendingKey.name],
+            startLine: pendingKey.line,
+            keyLine: pendingKey.line,
+            endLine: pendingKey.line,
+            children: [],
+          };
+          top.entry.children.push(entry);
+          top.open = entry;
+          pendingKey = null;
+        }
+      } else if (ch === '{' || ch === '[') {
+        const owner = top ? (top.open ?? detached()) : root;
+        stack.push({ type: ch, entry: ch === '{' ? owner : detached(), open: null });
+        lastTokenLine = line;
+      } else if (ch === '}' || ch === ']') {
+        const closed = stack.pop();
+        if (closed?.open) closed.open.endLine = lastTokenLine;
+        lastTokenLine = line;
+        pendingKey = null;
+      } else if (ch === ',') {
+        if (top?.open) {
+          top.open.endLine = lastTokenLine;
+          top.open = null;
+        }
+        pendingKey = null;
+      } else {
+        // Numbers, literals and JSON5 unquoted keys
+        let j = i;
+        while (j < content.length && !/[\s,:{}[\]"'/]/.test(content[j])) j++;
+        if (expectingKey) pendingKey = { name: content.slice(i, j), line };
+        lastTokenLine = line;
+        i = j - 1;
+      }
+    }
+
+    return root.children;
+  }
+
+  /**
+   * Keys at one indentation level between two lines, recursing into nested mappings
+   */
+  private parseYaml(lines: string[], from: number, to: number, parentPath: string[]): ConfigEntry[] {
+    let indent: number | null = null;
+    const starts: Array<{ line: number; path: string[] | null }> = [];
+
+    for (let i = from; i <= to; i++) {
+      const line = lines[i];
+      if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+      // Document markers end the current entry
+      if (/^(---|\.\.\.)(\s|$)/.test(line)) {
+        starts.push({ line: i, path: null });
+        continue;
+      }
+
+      const lineIndent = line.length - line.trimStart().length;
+      if (indent === null) indent = lineIndent;
+      if (lineIndent < indent) break;
+      if (lineIndent > indent) continue;
+
+      const match = line.match(YAML_KEY);
+      // Sequences aren't split into members
+      if (!match) {
+        if (parentPath.length > 0) return [];
+        continue;
+      }
+      starts.push({ line: i, path: [...parentPath, this.unquote(match[2])] });
+    }
+
+    return this.entriesFromStarts(lines, starts, to, '#').map((entry) => ({
+      ...entry,
+      // Block scalars (`key: |`) hold text, not nested keys
+      children: /:\s*[|>][-+0-9]*\s*(#.*)?$/.test(lines[entry.keyLine])
+        ? []
+        : this.parseYaml(lines, entry.keyLine + 1, entry.endLine, entry.path),
+    }));
+  }
+
+  /**
+   * Root-level keys and `[table]` / `[[array]]` sections
+   */
+  private parseToml(lines: string[]): ConfigEntry[] {
+    const starts: Array<{ line: number; path: string[] | null }> = [];
+    const arrayCounts = new Map<string, number>();
+    let inTable = false;
+
+    lines.forEach((line, i) => {
+      const table = line.match(TOML_TABLE);
+      if (table) {
+        inTable = true;
+        const path = this.splitTomlKey(table[2]);
+        if (table[1] === '[[') {
+          const count = arrayCounts.get(table[2]) ?? 0;
+          arrayCounts.set(table[2], count + 1);
+          path[path.length - 1] += `[${count}]`;
+        }
+        starts.push({ line: i, path });
+        return;
+      }
+
+      if (!inTable) {
+        const key = line.match(TOML_KEY);
+        if (key) starts.push({ line: i, path: this.splitTomlKey(key[0].slice(0, -1)) });
+      }
+    });
+
+    return this.entriesFromStarts(lines, starts, lines.length - 1, '#');
+  }
+
+  private parseEnv(lines: string[]): ConfigEntry[] {
+    const starts: Array<{ line: number; path: string[] | null }> = [];
+    lines.forEach((line, i) => {
+      const key = line.match(ENV_KEY);
+      if (key) starts.push({ line: i, path: [key[1]] });
+    });
+    return this.entriesFromStarts(lines, starts, lines.length - 1, '#');
+  }
+
+  /**
+   * Turn key lines into entries spanning up to the next key, with comments
+   * directly above a key attached to it
+   */
+  private entriesFromStarts(
+    lines: string[],
+    starts: Array<{ line: number; path: string[] | null }>,
+    lastLine: number,
+    commentPrefix: string
+  ): ConfigEntry[] {
+    const firstLines = starts.map((start, index) => {
+      const floor = index > 0 ? starts[index - 1].line + 1 : 0;
+      let first = start.line;
+      while (start.path && first > floor && lines[first - 1].trimStart().startsWith(commentPrefix)) first--;
+      return first;
+    });
+
+    const entries: ConfigEntry[] = [];
+    starts.forEach((start, index) => {
+      if (!start.path) return;
+      const end = index + 1 < starts.length ? firstLines[index + 1] - 1 : lastLine;
+      entries.push({
+        path: start.path,
+        startLine: firstLines[index],
+        keyLine: start.line,
+        endLine: this.trimEnd(lines, start.line, end),
+        children: [],
+      });
+    });
+    return entries;
+  }
+
+  /**
+   * Choose chunk boundaries: one chunk per top-level key, except that members
+   * of collections and of oversized entries are chunked individually
+   */
+  private collectUnits(entries: ConfigEntry[], lines: string[], header: string | null): ConfigUnit[] {
+    const units: ConfigUnit[] = [];
+
+    for (const entry of entries) {
+      const isCollection = entry.path.length === 1 && COLLECTION_KEYS.has(entry.path[0]);
+      const isOversized = this.countLines(lines, entry.startLine, entry.endLine) > this.options.maxChunkTokens;
+
+      if (entry.children.length > 0 && (isCollection || isOversized)) {
+        const opening = entry.children[0].keyLine > entry.keyLine ? lines[entry.keyLine] : null;
+        units.push(...this.collectUnits(entry.children, lines, opening));
+        continue;
+      }
+
+      units.push({
+        keyPath: entry.path.join('.'),
+        startLine: entry.startLine,
+        endLine: entry.endLine,
+        header,
+      });
+    }
+
+    return units;
+  }
+
+  private createUnitChunks(
+    unit: ConfigUnit,
+    keyPaths: SymbolPathRegistry,
+    lines: string[],
+    filePath: string,
+    language: ConfigLanguage,
+    repositoryId: string,
+    commitSha: string,
+    parentChunkId: string
+  ): CodeChunkData[] {
+    const { keyPath } = unit;
+    const symbolPath = keyPaths.claim(keyPath);
+    const parts = this.splitLines(lines, unit.startLine, unit.endLine);
+
+    return parts.map((part, index) => {
+      const body = lines.slice(part.startLine, part.endLine + 1).join('\n');
+      const content = unit.header ? `${unit.header}\n${body}` : body;
+
+      return {
+        id: createChunkId({ sourceId: repositoryId, filePath, symbolPath, part: `config:${index}` }),
+        repositoryId,
+        level: 'implementation',
+        type: 'config',
+        language,
+        content,
+        signature: parts.length > 1 ? `${keyPath} [part ${index + 1}]` : keyPath,
+        symbolName: keyPath,
+        qualifiedName: keyPath,
+        filePath,
+        startLine: part.startLine,
+        endLine: part.endLine,
+        commitSha,
+        contentHash: this.hashContent(content),
+        imports: [],
+        exports: [],
+        parentChunkId,
+        childChunkIds: [],
+      };
+    });
+  }
+
+  /**
+   * Split an oversized leaf entry (e.g. a long list) into line ranges that fit
+   */
+  private splitLines(lines: string[], startLine: number, endLine: number): Array<{ startLine: number; endLine: number }> {
+    if (this.countLines(lines, startLine, endLine) <= this.options.maxChunkTokens) {
+      return [{ startLine, endLine }];
+    }
+
+    const parts: Array<{ startLine: number; endLine: number }> = [];
+    let partStart = startLine;
+    let tokens = 0;
+
+    for (let i = startLine; i <= endLine; i++) {
+      const lineTokens = this.tokenizer.countTokens(lines[i]) + 1;
+      if (i > partStart && tokens + lineTokens > this.options.maxChunkTokens) {
+        parts.push({ startLine: partStart, endLine: i - 1 });
+        partStart = i;
+        tokens = 0;
+      }
+      tokens += lineTokens;
+    }
+    parts.push({ startLine: partStart, endLine });
+
+    return parts;
+  }
+
+  private createFileSummaryChunk(
+    entries: ConfigEntry[],
+    filePath: string,
+    language: ConfigLanguage,
+    repositoryId: string,
+    commitSha: string,
+    fullContent: string
+  ): CodeChunkData {
+    const outline = entries
+      .flatMap((entry) => {
+        const members = COLLECTION_KEYS.has(entry.path[entry.path.length - 1]) ? entry.children : [];
+        return [`- ${entry.path.join('.')}`, ...members.map((m) => `  - ${m.path[m.path.length - 1]}`)];
+      })
+      .join('\n');
+    const summary = `File: ${filePath}\nKeys: ${entries.length}\n\n${outline}`;
+
+    return {
+      id: createChunkId({ sourceId: repositoryId, filePath, symbolPath: '', part: 'file' }),
+      repositoryId,
+      level: 'summary',
+      type: 'file_summary',
+      language,
+      content: summary,
+      signature: `File: ${filePath}`,
+      symbolName: filePath.split('/').pop() ?? filePath,
+      filePath,
+      startLine: 0,
+      endLine: fullContent.split('\n').length - 1,
+      commitSha,
+      contentHash: this.hashContent(fullContent),
+      imports: [],
+      exports: [],
+      parentChunkId: null,
+      childChunkIds: [],
+    };
+  }
+
+  private splitTomlKey(key: string): string[] {
+    return (key.match(/"[^"]*"|'[^']*'|[^.\s]+/g) ?? [key]).map((part) => this.unquote(part));
+  }
+
+  private unquote(key: string): string {
+    return /^(["']).*\1$/.test(key) ? key.slice(1, -1) : key;
+  }
+
+  /**
+   * Last non-blank line of a range
+   */
+  private trimEnd(lines: string[], startLine: number, endLine: number): number {
+    let end = endLine;
+    while (end > startLine && !lines[end].trim()) end--;
+    return end;
+  }
+
+  private countLines(lines: string[], startLine: number, endLine: number): number {
+    return this.tokenizer.countTokens(lines.slice(startLine, endLine + 1).join('\n'));
+  }
+
+  private hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
+
+export const configChunker = new ConfigChunker();
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { SupportedLanguage } from '@context8/types';
+import { treeSitterParser } from '../tree-sitter-parser.js';
+import { dependencyExtractor } from './dependency-extractor.js';
+
+function extract(content: string, language: SupportedLanguage, filePath?: string) {
+  return dependencyExtractor.extract(treeSitterParser.parse(content, language, filePath), language);
+}
+
+describe('DependencyExtractor JavaScript', () => {
+  it('records a named default export once, under its local name', () => {
+    const { exports } = extract('export default function App() {\n  return null;\n}\n', 'typescript', 'App.tsx');
+
+    expect(exports).toEqual([{ name: 'App', isDefault: true, isTypeOnly: false, source: null }]);
+  });
+
+  it('names default exports of local bindings and keeps anonymous ones as default', () => {
+    const named = (content: string) => extract(content, 'javascript').exports.map((e) => [e.name, e.isDefault]);
+
+    expect(named('function App() {}\nexport default App;')).toEqual([['App', true]]);
+    expect(named('function App() {}\nexport { App as default };')).toEqual([['App', true]]);
+    expect(named('export default () => null;')).toEqual([['default', true]]);
+  });
+
+  it('binds the alias of renamed imports and re-exports', () => {
+    const { imports } = extract(
+      "import App, { load as loadConfig, save } from './config';\nexport { parse as parseConfig } from './parse';",
+      'typescript'
+    );
+
+    expect(imports.map((i) => [i.specifiers, i.importedNames])).toEqual([
+      [['default', 'loadConfig', 'save'], ['default', 'load', 'save']],
+      [['parseConfig'], ['parse']],
+    ]);
+  });
+});
+
+describe('DependencyExtractor Python', () => {
+  it('binds aliases and keeps the imported names for lookups', () => {
+    const content = [
+      'import os.path',
+      'import numpy as np',
+      'from .models import User as Account, Group',
+      'from .utils import *',
+    ].join('\n');
+    const { imports } = extract(content, 'python');
+
+    expect(imports.map((i) => [i.source, i.specifiers, i.importedNames])).toEqual([
+      ['os.path', [], []],
+      ['numpy', ['np'], ['*']],
+      ['.models', ['Account', 'Group'], ['User', 'Group']],
+      ['.utils', ['*'], ['*']],
+    ]);
+  });
+});
@@ -0,0 +1,503 @@
+import type Parser from 'tree-sitter';
+import type { ExportStatement, ImportKind, ImportStatement, SupportedLanguage } from '@context8/types';
+import type { FileDependencies } from '../types.js';
+import { languageRegistry } from '../languages/language-registry.js';
+
+/**
+ * Extract import and export statements from an AST.
+ *
+ * Sources are returned as written; `resolvedPath` is filled in later by
+ * `ImportResolver`, which knows the files of the whole repository.
+ */
+export class DependencyExtractor {
+  extract(tree: Parser.Tree, language: SupportedLanguage): FileDependencies {
+    const deps: FileDependencies = { imports: [], exports: [] };
+    languageRegistry.get(language)?.extractDependencies?.(tree.rootNode, deps);
+    return deps;
+  }
+
+  // ============================================
+  // TypeScript / JavaScript
+  // ============================================
+
+  extractJavaScript(root: Parser.SyntaxNode, deps: FileDependencies): void {
+    for (const node of root.namedChildren) {
+      if (node.type === 'import_statement') {
+        this.extractJsImport(node, deps);
+      } else if (node.type === 'export_statement') {
+        this.extractJsExport(node, deps);
+      } else if (node.type === 'expression_statement') {
+        this.extractCommonJsExport(node, deps);
+      }
+    }
+
+    // Dynamic `import()` and `require()` can appear anywhere
+    for (const call of root.descendantsOfType('call_expression')) {
+      const fn = call.childForFieldName('function');
+      const source = this.firstStringArgument(call);
+      if (!fn || source === null) continue;
+
+      if (fn.type === 'import') {
+        deps.imports.push(this.importStatement(source, [], false, 'dynamic', call));
+      } else if (fn.type === 'identifier' && fn.text === 'require') {
+        deps.imports.push(this.importStatement(source, this.requiredNames(call), false, 'require', call));
+      }
+    }
+  }
+
+  private extractJsImport(node: Parser.SyntaxNode, deps: FileDependencies): void {
+    const source = this.stringValue(node.childForFieldName('source'));
+    if (source === null) return;
+
+    const statementTypeOnly = this.hasToken(node, 'type') || this.hasToken(node, 'typeof');
+    const specifiers: string[] = [];
+    const importedNames: string[] = [];
+    let allSpecifiersTypeOnly = true;
+
+    const clause = node.namedChildren.find((c) => c.type === 'import_clause');
+    for (const part of clause?.namedChildren ?? []) {
+      if (part.type === 'identifier') {
+        specifiers.push('default');
+        importedNames.push('default');
+        allSpecifiersTypeOnly = false;
+      } else if (part.type === 'namespace_import') {
+        specifiers.push('*');
+        importedNames.push('*');
+        allSpecifiersTypeOnly = false;
+      } else if (part.type === 'named_imports') {
+        for (const spec of part.namedChildren.filter((c) => c.type === 'import_specifier')) {
+          const name = spec.childForFieldName('name');
+          if (name) {
+            specifiers.push(spec.childForFieldName('alias')?.text ?? name.text);
+            importedNames.push(name.text);
+          }
+          if (!this.hasToken(spec, 'type')) allSpecifiersTypeOnly = false;
+        }
+      }
+    }
+
+    // `import { type A, type B }` is erased just like `import type { A, B }`
+    const isTypeOnly = statementTypeOnly || (specifiers.length > 0 && allSpecifiersTypeOnly);
+    deps.imports.push(this.importStatement(source, specifiers, isTypeOnly, 'static', node, importedNames));
+  }
+
+  private extractJsExport(node: Parser.SyntaxNode, deps: FileDependencies): void {
+    const source = this.stringValue(node.childForFieldName('source'));
+    const statementTypeOnly = this.hasToken(node, 'type');
+    const isDefault = this.hasToken(node, 'default') || this.hasToken(node, '=');
+
+    // Re-exports: `export * from`, `export * as ns from`, `export { a } from`
+    if (source !== null) {
+      const clause = node.namedChildren.find((c) => c.type === 'export_clause');
+      const namespace = node.namedChildren.find((c) => c.type === 'namespace_export');
+
+      if (clause) {
+        const specs = clause.namedChildren.filter((c) => c.type === 'export_specifier');
+        const names = specs.map((spec) => spec.childForFieldName('name')?.text ?? spec.text);
+        const exported = specs.map((spec) => this.exportedName(spec));
+        deps.imports.push(this.importStatement(source, exported, statementTypeOnly, 'reexport', node, names));
+        for (const spec of specs) {
+          deps.exports.push({
+            name: this.exportedName(spec),
+            isDefault: false,
+            isTypeOnly: statementTypeOnly || this.hasToken(spec, 'type'),
+            source,
+          });
+        }
+      } else {
+        deps.imports.push(this.importStatement(source, ['*'], statementTypeOnly, 'reexport', node));
+        const alias = namespace?.namedChildren[0]?.text;
+        deps.exports.push({ name: alias ?? '*', isDefault: false, isTypeOnly: statementTypeOnly, source });
+      }
+      return;
+    }
+
+    // Local export list: `export { a, b as c }`; `export { a as default }` exports `a` as the default
+    const clause = node.namedChildren.find((c) => c.type === 'export_clause');
+    if (clause) {
+      for (const spec of clause.namedChildren.filter((c) => c.type === 'export_specifier')) {
+        const exported = this.exportedName(spec);
+        const isDefaultSpec = exported === 'default';
+        deps.exports.push({
+          name: isDefaultSpec ? (spec.childForFieldName('name')?.text ?? exported) : exported,
+          isDefault: isDefaultSpec,
+          isTypeOnly: statementTypeOnly || this.hasToken(spec, 'type'),
+          source: null,
+        });
+      }
+      return;
+    }
+
+    const declaration = node.childForFieldName('declaration');
+    if (declaration) {
+      const isTypeOnly = ['interface_declaration', 'type_alias_declaration'].includes(declaration.type);
+      const names = this.declaredNames(declaration);
+      for (const name of names) {
+        deps.exports.push({ name, isDefault, isTypeOnly, source: null });
+      }
+      if (isDefault && names.length === 0) {
+        deps.exports.push({ name: 'default', isDefault: true, isTypeOnly: false, source: null });
+      }
+      return;
+    }
+
+    // `export default expr` / `export = expr`, under the local name when exporting one
+    if (isDefault) {
+      const value = node.childForFieldName('value');
+      const name = value?.type === 'identifier' ? value.text : (value?.childForFieldName('name')?.text ?? 'default');
+      deps.exports.push({ name, isDefault: true, isTypeOnly: false, source: null });
+    }
+  }
+
+  /**
+   * `module.exports = ...`, `module.exports.foo = ...` and `exports.foo = ...`
+   */
+  private extractCommonJsExport(node: Parser.SyntaxNode, deps: FileDependencies): void {
+    const assignment = node.namedChildren[0];
+    if (assignment?.type !== 'assignment_expression') return;
+
+    const left = assignment.childForFieldName('left');
+    if (left?.type !== 'member_expression') return;
+
+    const target = left.text.replace(/\s+/g, '');
+    if (target === 'module.exports') {
+      deps.exports.push({ name: 'default', isDefault: true, isTypeOnly: false, source: null });
+      return;
+    }
+
+    const match = target.match(/^(?:module\.)?exports\.([\w$]+)$/);
+    if (match) {
+      deps.exports.push({ name: match[1], isDefault: false, isTypeOnly: false, source: null });
+    }
+  }
+
+  private declaredNames(declaration: Parser.SyntaxNode): string[] {
+    const name = declaration.childForFieldName('name');
+    if (name) return [name.text];
+
+    // `export const a = 1, b = 2`
+    return declaration.namedChildren
+      .filter((c) => c.type === 'variable_declarator')
+      .map((c) => c.childForFieldName('name'))
+      .filter((n): n is Parser.SyntaxNode => n?.type === 'identifier')
+      .map((n) => n.text);
+  }
+
+  private exportedName(spec: Parser.SyntaxNode): string {
+    return (spec.childForFieldName('alias') ?? spec.childForFieldName('name'))?.text ?? spec.text;
+  }
+
+  /**
+   * Names bound by `const { a, b } = require('x')`
+   */
+  private requiredNames(call: Parser.SyntaxNode): string[] {
+    const declarator = call.parent?.type === 'variable_declarator' ? call.parent : null;
+    const pattern = declarator?.childForFieldName('name');
+    if (pattern?.type !== 'object_pattern') return [];
+
+    return pattern.namedChildren
+      .map((c) => (c.type === 'pair_pattern' ? c.childForFieldName('key') : c))
+      .filter((c): c is Parser.SyntaxNode => c !== null)
+      .map((c) => c.text);
+  }
+
+  private firstStringArgument(call: Parser.SyntaxNode): string | null {
+    const first = call.childForFieldName('arguments')?.namedChildren[0];
+    if (!first) return null;
+    // Template literals only count when they have no substitutions
+    if (first.type === 'template_string' && first.namedChildren.some((c) => c.type === 'template_substitution')) {
+      return null;
+    }
+    return this.stringValue(first);
+  }
+
+  // ============================================
+  // Python
+  // ============================================
+
+  extractPython(root: Parser.SyntaxNode, deps: FileDependencies): void {
+    for (const node of root.descendantsOfType(['import_statement', 'import_from_statement'])) {
+      const isTypeOnly = this.isInTypeCheckingBlock(node);
+
+      if (node.type === 'import_statement') {
+        // `import a.b, c as d` imports each module separately; an alias binds the module
+        for (const name of node.childrenForFieldName('name')) {
+          const module = name.type === 'aliased_import' ? name.childForFieldName('name') : name;
+          const alias = name.type === 'aliased_import' ? name.childForFieldName('alias')?.text : undefined;
+          if (!module) continue;
+          deps.imports.push(
+            alias
+              ? this.importStatement(module.text, [alias], isTypeOnly, 'static', node, ['*'])
+              : this.importStatement(module.text, [], isTypeOnly, 'static', node)
+          );
+        }
+        continue;
+      }
+
+      const module = node.childForFieldName('module_name');
+      if (!module) continue;
+
+      // `from m import x as y` binds `y` to `x` of `m`
+      const isWildcard = node.namedChildren.some((c) => c.type === 'wildcard_import');
+      const names = isWildcard ? [] : node.childrenForFieldName('name');
+      const specifiers = isWildcard ? ['*'] : names.map((name) => this.pythonImportedName(name, 'alias'));
+      const importedNames = isWildcard ? ['*'] : names.map((name) => this.pythonImportedName(name, 'name'));
+      deps.imports.push(this.importStatement(module.text, specifiers, isTypeOnly, 'static', node, importedNames));
+    }
+
+    const explicit = this.pythonDunderAll(root);
+    if (explicit) {
+      deps.exports.push(...explicit.map((name) => this.exportStatement(name)));
+      return;
+    }
+
+    // Without `__all__`, every public top-level name is importable
+    for (const node of root.namedChildren) {
+      const definition = node.type === 'decorated_definition' ? node.childForFieldName('definition') : node;
+      let names: string[] = [];
+
+      if (definition?.type === 'function_definition' || definition?.type === 'class_definition') {
+        const name = definition.childForFieldName('name');
+        if (name) names = [name.text];
+      } else if (node.type === 'expression_statement' && node.namedChildren[0]?.type === 'assignment') {
+        const left = node.namedChildren[0].childForFieldName('left');
+        if (left?.type === 'identifier') names = [left.text];
+      }
+
+      for (const name of names.filter((n) => !n.startsWith('_'))) {
+        deps.exports.push(this.exportStatement(name));
+      }
+    }
+  }
+
+  /**
+   * The `name` or `alias` part of an imported name; both are the name itself without `as`
+   */
+  private pythonImportedName(name: Parser.SyntaxNode, part: 'name' | 'alias'): string {
+    return name.type === 'aliased_import' ? (name.childForFieldName(part)?.text ?? name.text) : name.text;
+  }
+
+  private pythonDunderAll(root: Parser.SyntaxNode): string[] | null {
+    for (const node of root.namedChildren) {
+      const assignment = node.type === 'expression_statement' ? node.namedChildren[0] : null;
+      if (assignment?.type !== 'assignment' || assignment.childForFieldName('left')?.text !== '__all__') continue;
+
+      const right = assignment.childForFieldName('right');
+      if (right?.type !== 'list' && right?.type !== 'tuple') return null;
+
+      return right.namedChildren
+        .map((item) => this.stringValue(item))
+        .filter((name): name is string => name !== null);
+    }
+    return null;
+  }
+
+  /**
+   * Imports under `if TYPE_CHECKING:` only exist for type checkers
+   */
+  private isInTypeCheckingBlock(node: Parser.SyntaxNode): boolean {
+    for (let current = node.parent; current; current = current.parent) {
+      if (current.type === 'if_statement') {
+        const condition = current.childForFieldName('condition')?.text ?? '';
+        if (/^(?:typing\.)?TYPE_CHECKING$/.test(condition)) return true;
+      }
+    }
+    return false;
+  }
+
+  // ============================================
+  // Go
+  // ============================================
+
+  extractGo(root: Parser.SyntaxNode, deps: FileDependencies): void {
+    for (const spec of root.descendantsOfType('import_spec')) {
+      const path = this.stringValue(spec.childForFieldName('path'));
+      if (path === null) continue;
+
+      // Aliased imports bind the alias, dot and blank imports bind nothing nameable
+      const alias = spec.childForFieldName('name')?.text;
+      const specifiers = alias === '.' ? ['*'] : alias && alias !== '_' ? [alias] : [];
+      deps.imports.push(this.importStatement(path, specifiers, false, 'static', spec, specifiers.map(() => '*')));
+    }
+
+    // Exported identifiers start with an upper-case letter
+    const names: string[] = [];
+    for (const node of root.namedChildren) {
+      switch (node.type) {
+        case 'function_declaration':
+          names.push(node.childForFieldName('name')?.text ?? '');
+          break;
+        case 'type_declaration':
+          for (const spec of node.namedChildren) {
+            names.push(spec.childForFieldName('name')?.text ?? '');
+          }
+          break;
+        case 'var_declaration':
+        case 'const_declaration':
+          for (const spec of node.descendantsOfType(['var_spec', 'const_spec'])) {
+            names.push(...spec.childrenForFieldName('name').map((n) => n.text));
+          }
+          break;
+      }
+    }
+    for (const name of names.filter((n) => /^\p{Lu}/u.test(n))) {
+      deps.exports.push(this.exportStatement(name));
+    }
+  }
+
+  // ============================================
+  // Rust
+  // ============================================
+
+  extractRust(root: Parser.SyntaxNode, deps: FileDependencies): void {
+    for (const node of root.namedChildren) {
+      const isPublic = node.namedChildren.some((c) => c.type === 'visibility_modifier' && c.text === 'pub');
+
+      if (node.type === 'use_declaration') {
+        const argument = node.childForFieldName('argument');
+        if (!argument) continue;
+
+        // Group flattened use-tree paths by the module they import from
+        const byModule = new Map<string, string[]>();
+        for (const path of this.flattenUseTree(argument, [])) {
+          const segments = path.split('::');
+          const module = segments.length > 1 ? segments.slice(0, -1).join('::') : path;
+          const names = byModule.get(module) ?? [];
+          if (segments.length > 1) names.push(segments[segments.length - 1]);
+          byModule.set(module, names);
+        }
+
+        for (const [module, names] of byModule) {
+          deps.imports.push(this.importStatement(module, names, false, isPublic ? 'reexport' : 'static', node));
+          if (isPublic) {
+            deps.exports.push(...names.map((name) => ({ ...this.exportStatement(name), source: module })));
+          }
+        }
+        continue;
+      }
+
+      // `mod foo;` pulls in `foo.rs` / `foo/mod.rs`
+      if (node.type === 'mod_item' && !node.childForFieldName('body')) {
+        const name = node.childForFieldName('name')?.text;
+        if (name) deps.imports.push(this.importStatement(name, [], false, 'module', node));
+      }
+
+      const name = node.childForFieldName('name')?.text;
+      if (isPublic && name && node.type !== 'impl_item') {
+        deps.exports.push(this.exportStatement(name));
+      }
+    }
+  }
+
+  /**
+   * Expand `a::{b, c::d as e, f::*}` into `a::b`, `a::c::d`, `a::f::*`
+   */
+  private flattenUseTree(node: Parser.SyntaxNode, prefix: string[]): string[] {
+    switch (node.type) {
+      case 'scoped_use_list': {
+        const path = node.childForFieldName('path');
+        const list = node.childForFieldName('list');
+        const nextPrefix = path ? [...prefix, path.text.replace(/\s+/g, '')] : prefix;
+        return list ? this.flattenUseTree(list, nextPrefix) : [];
+      }
+      case 'use_list':
+        return node.namedChildren.flatMap((child) => this.flattenUseTree(child, prefix));
+      case 'use_as_clause': {
+        const path = node.childForFieldName('path');
+        return path ? this.flattenUseTree(path, prefix) : [];
+      }
+      case 'use_wildcard': {
+        const path = node.namedChildren[0];
+        return [[...prefix, ...(path ? [path.text.replace(/\s+/g, '')] : []), '*'].join('::')];
+      }
+      default:
+        return [[...prefix, node.text.replace(/\s+/g, '')].join('::')];
+    }
+  }
+
+  // ============================================
+  // Java
+  // ============================================
+
+  extractJava(root: Parser.SyntaxNode, deps: FileDependencies): void {
+    for (const node of root.namedChildren) {
+      if (node.type === 'import_declaration') {
+        const path = node.namedChildren.find((c) => c.type === 'scoped_identifier' || c.type === 'identifier');
+        if (!path) continue;
+
+        const segments = path.text.replace(/\s+/g, '').split('.');
+        const isWildcard = node.namedChildren.some((c) => c.type === 'asterisk');
+        const isStatic = this.hasToken(node, 'static');
+
+        // `import a.b.C` imports class C; static imports name a member of the class
+        let source: string;
+        let specifiers: string[];
+        if (isWildcard) {
+          source = segments.join('.');
+          specifiers = ['*'];
+        } else if (isStatic) {
+          source = segments.slice(0, -1).join('.');
+          specifiers = [segments[segments.length - 1]];
+        } else {
+          source = segments.join('.');
+          specifiers = [segments[segments.length - 1]];
+        }
+        deps.imports.push(this.importStatement(source, specifiers, false, 'static', node));
+        continue;
+      }
+
+      const isPublic = node.namedChildren.some((c) => c.type === 'modifiers' && /\bpublic\b/.test(c.text));
+      const name = node.childForFieldName('name')?.text;
+      if (isPublic && name && /_declaration$/.test(node.type)) {
+        deps.exports.push(this.exportStatement(name));
+      }
+    }
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private importStatement(
+    source: string,
+    specifiers: string[],
+    isTypeOnly: boolean,
+    kind: ImportKind,
+    node: Parser.SyntaxNode,
+    importedNames: string[] = specifiers
+  ): ImportStatement {
+    return {
+      source,
+      specifiers,
+      importedNames,
+      isTypeOnly,
+      kind,
+      resolvedPath: null,
+      line: node.startPosition.row,
+    };
+  }
+
+  private exportStatement(name: string): ExportStatement {
+    return { name, isDefault: false, isTypeOnly: false, source: null };
+  }
+
+  private hasToken(node: Parser.SyntaxNode, token: string): boolean {
+    return node.children.some((c) => !c.isNamed && c.type === token);
+  }
+
+  /**
+   * Unquote a string literal node, ignoring strings with interpolation
+   */
+  private stringValue(node: Parser.SyntaxNode | null | undefined): string | null {
+    if (!node) return null;
+    if (!['string', 'template_string', 'interpreted_string_literal', 'raw_string_literal'].includes(node.type)) {
+      return null;
+    }
+    if (node.namedChildren.some((c) => c.type === 'interpolation')) return null;
+
+    const match = node.text.match(/^[rRbBuUfF]*(['"`]{1,3})([\s\S]*)\1$/);
+    return match ? match[2] : null;
+  }
+}
+
+export const dependencyExtractor = new DependencyExtractor();
@@ -0,0 +1,165 @@
+import type { DocComment, DocParam } from '../types.js';
+
+/**
+ * Parse a cleaned JSDoc / Javadoc comment body into its description and
+ * the tags we index (`@param`, `@returns`, `@example`, `@deprecated`)
+ */
+export function parseJsDoc(text: string): DocComment {
+  const doc = emptyDocComment();
+  const description: string[] = [];
+
+  // Split into blocks that each start with a tag; Javadoc often indents
+  // tags past the `*`, but indented `@` lines of an example are code
+  const blocks: Array<{ tag: string; body: string[] }> = [];
+  for (const line of text.split('\n')) {
+    const tagMatch = line.match(/^(\s*)@(\w+)\s?(.*)$/);
+    const inExample = blocks[blocks.length - 1]?.tag === 'example';
+    if (tagMatch && !(inExample && tagMatch[1])) {
+      blocks.push({ tag: tagMatch[2], body: [tagMatch[3]] });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].body.push(line);
+    } else {
+      description.push(line);
+    }
+  }
+
+  doc.description = description.join('\n').trim();
+
+  for (const { tag, body } of blocks) {
+    const content = body.join('\n').trim();
+
+    switch (tag) {
+      case 'param':
+      case 'arg':
+      case 'argument': {
+        const param = parseJsDocParam(content);
+        if (param) doc.params.push(param);
+        break;
+      }
+      case 'returns':
+      case 'return':
+        // Drop a leading `{Type}`
+        doc.returns = content.replace(/^\{[^}]*\}\s*/, '');
+        break;
+      case 'example':
+        doc.examples.push(content);
+        break;
+      case 'deprecated':
+        doc.deprecated = content;
+        break;
+    }
+  }
+
+  return doc;
+}
+
+/**
+ * Parse `{type} name - description`, `[name=default]` and Javadoc's `name description`
+ */
+function parseJsDocParam(content: string): DocParam | null {
+  const match = content.match(/^(?:\{([^}]*)\}\s*)?(\[[^\]]+\]|[\w$.]+)\s*(?:-\s*)?([\s\S]*)$/);
+  if (!match) return null;
+
+  const name = match[2].replace(/^\[|\]$/g, '').split('=')[0].trim();
+  return {
+    name,
+    type: match[1]?.trim() || null,
+    description: match[3].trim(),
+  };
+}
+
+/**
+ * Parse a Python docstring in Google (`Args:` / `Returns:`) or
+ * Sphinx (`:param x:` / `:returns:`) style
+ */
+export function parsePythonDocstring(text: string): DocComment {
+  const doc = emptyDocComment();
+  const description: string[] = [];
+  let section: 'params' | 'returns' | 'examples' | 'deprecated' | 'other' | null = null;
+  let example: string[] = [];
+
+  const flushExample = () => {
+    if (example.length > 0) doc.examples.push(example.join('\n').trim());
+    example = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+
+    // Sphinx field lists
+    const sphinxParam = trimmed.match(/^:param\s+(?:([\w\[\], .]+)\s+)?(\w+):\s*(.*)$/);
+    if (sphinxParam) {
+      doc.params.push({ name: sphinxParam[2], type: sphinxParam[1]?.trim() || null, description: sphinxParam[3] });
+      section = null;
+      continue;
+    }
+    const sphinxReturns = trimmed.match(/^:returns?:\s*(.*)$/);
+    if (sphinxReturns) {
+      doc.returns = sphinxReturns[1];
+      section = null;
+      continue;
+    }
+    const sphinxDeprecated = trimmed.match(/^\.\. deprecated::\s*(.*)$/);
+    if (sphinxDeprecated) {
+      doc.deprecated = sphinxDeprecated[1];
+      section = 'deprecated';
+      continue;
+    }
+
+    // Google style section headers
+    const header = trimmed.match(/^(Args|Arguments|Parameters|Returns|Yields|Examples?|Deprecated|Raises|Attributes|Notes?):$/);
+    if (header && !line.startsWith(' ')) {
+      flushExample();
+      const name = header[1];
+      if (['Args', 'Arguments', 'Parameters'].includes(name)) section = 'params';
+      else if (name === 'Returns' || name === 'Yields') section = 'returns';
+      else if (name.startsWith('Example')) section = 'examples';
+      else if (name === 'Deprecated') {
+        section = 'deprecated';
+        doc.deprecated = '';
+      } else section = 'other';
+      continue;
+    }
+
+    switch (section) {
+      case null:
+        description.push(line);
+        break;
+      case 'params': {
+        // `name (type): description`, continuation lines are indented further
+        const param = trimmed.match(/^(\*{0,2}\w+)\s*(?:\(([^)]*)\))?:\s*(.*)$/);
+        if (param && !/^\s{5,}/.test(line)) {
+          doc.params.push({ name: param[1], type: param[2]?.trim() || null, description: param[3] });
+        } else if (trimmed && doc.params.length > 0) {
+          const last = doc.params[doc.params.length - 1];
+          last.description = `${last.description} ${trimmed}`.trim();
+        }
+        break;
+      }
+      case 'returns':
+        if (trimmed) doc.returns = doc.returns ? `${doc.returns} ${trimmed}` : trimmed;
+        break;
+      case 'examples':
+        example.push(line);
+        break;
+      case 'deprecated':
+        if (!trimmed) section = null;
+        else doc.deprecated = doc.deprecated ? `${doc.deprecated} ${trimmed}` : trimmed;
+        break;
+    }
+  }
+
+  flushExample();
+  doc.description = description.join('\n').trim();
+  return doc;
+}
+
+function emptyDocComment(): DocComment {
+  return {
+    description: '',
+    params: [],
+    returns: null,
+    examples: [],
+    deprecated: null,
+  };
+}
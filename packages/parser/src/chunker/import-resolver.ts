@@ -0,0 +1,231 @@
+import { posix } from 'path';
+import type { ImportStatement, SupportedLanguage } from '@context8/types';
+import type { FileDependencies } from '../types.js';
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// ESM imports name the emitted file, e.g. `./utils.js` for `utils.ts`
+const JS_EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+export interface ImportResolverOptions {
+  /** Module path declared in `go.mod`, used to map Go imports to package directories */
+  goModulePath?: string | null;
+}
+
+/**
+ * Resolve import sources to files of the repository being indexed.
+ * External packages and anything that can't be matched resolve to null.
+ */
+export class ImportResolver {
+  private files: Set<string>;
+  private directories = new Set<string>();
+  private goModulePath: string | null;
+  // Path suffix -> file, for languages whose imports aren't relative to the importer
+  private suffixIndex: Map<string, string> | null = null;
+
+  constructor(filePaths: string[], options: ImportResolverOptions = {}) {
+    this.files = new Set(filePaths);
+    this.goModulePath = options.goModulePath ?? null;
+
+    for (const file of filePaths) {
+      for (let dir = posix.dirname(file); dir !== '.' && !this.directories.has(dir); dir = posix.dirname(dir)) {
+        this.directories.add(dir);
+      }
+    }
+  }
+
+  /**
+   * Fill in `resolvedPath` for every import of a file
+   */
+  resolveAll(fromFile: string, language: SupportedLanguage, deps: FileDependencies): FileDependencies {
+    return {
+      imports: deps.imports.map((statement) => ({
+        ...statement,
+        resolvedPath: this.resolve(fromFile, language, statement),
+      })),
+      exports: deps.exports,
+    };
+  }
+
+  resolve(fromFile: string, language: SupportedLanguage, statement: ImportStatement): string | null {
+    switch (language) {
+      case 'typescript':
+      case 'javascript':
+        return this.resolveJavaScript(fromFile, statement.source);
+      case 'python':
+        return this.resolvePython(fromFile, statement);
+      case 'go':
+        return this.resolveGo(statement.source);
+      case 'rust':
+        return this.resolveRust(fromFile, statement);
+      case 'java':
+        return this.resolveJava(statement);
+      default:
+        return null;
+    }
+  }
+
+  private resolveJavaScript(fromFile: string, source: string): string | null {
+    // Bare specifiers are packages
+    if (!source.startsWith('.') && !source.startsWith('/')) return null;
+
+    const base = posix.normalize(posix.join(posix.dirname(fromFile), source));
+    const candidates = [base];
+
+    const ext = posix.extname(base);
+    for (const replacement of JS_EMITTED_EXTENSIONS[ext] ?? []) {
+      candidates.push(base.slice(0, -ext.length) + replacement);
+    }
+    candidates.push(...JS_EXTENSIONS.map((e) => base + e));
+    candidates.push(...JS_EXTENSIONS.map((e) => posix.join(base, `index${e}`)));
+
+    return this.firstFile(candidates);
+  }
+
+  private resolvePython(fromFile: string, statement: ImportStatement): string | null {
+    const match = statement.source.match(/^(\.*)(.*)$/);
+    const dots = match?.[1].length ?? 0;
+    const modulePath = (match?.[2] ?? '').split('.').filter(Boolean).join('/');
+
+    if (dots > 0) {
+      // One dot is the importer's package, each further dot goes up a level
+      let base = posix.dirname(fromFile);
+      for (let i = 1; i < dots; i++) base = posix.dirname(base);
+
+      // `from . import sibling` imports modules rather than names
+      if (!modulePath) {
+        return this.firstPythonModule(this.pythonSubmodules(base, statement)) ?? this.firstPythonModule([base]);
+      }
+      const target = posix.join(base, modulePath);
+      return this.firstPythonModule([target]) ?? this.firstPythonModule(this.pythonSubmodules(target, statement));
+    }
+
+    const module = this.findBySuffix([`${modulePath}.py`, `${modulePath}.pyi`, `${modulePath}/__init__.py`]);
+    if (module) return module;
+
+    const submodules = this.pythonSubmodules(modulePath, statement);
+    return this.findBySuffix(submodules.flatMap((p) => [`${p}.py`, `${p}/__init__.py`]));
+  }
+
+  private pythonSubmodules(base: string, statement: ImportStatement): string[] {
+    return statement.importedNames.filter((s) => s !== '*').map((s) => posix.join(base, s));
+  }
+
+  private resolveGo(source: string): string | null {
+    if (!this.goModulePath) return null;
+    if (source !== this.goModulePath && !source.startsWith(`${this.goModulePath}/`)) return null;
+
+    // Go imports name a package directory rather than a file
+    const dir = source.slice(this.goModulePath.length + 1) || '.';
+    return dir === '.' || this.directories.has(dir) ? dir : null;
+  }
+
+  private resolveRust(fromFile: string, statement: ImportStatement): string | null {
+    const moduleDir = this.rustModuleDir(fromFile);
+
+    // `mod foo;` declares a child module of the current file
+    if (statement.kind === 'module') {
+      return this.firstRustModule(posix.join(moduleDir, statement.source));
+    }
+
+    const segments = statement.source.split('::');
+    let base: string;
+    let modules: string[];
+    if (segments[0] === 'crate') {
+      base = this.rustCrateRoot(fromFile);
+      modules = segments.slice(1);
+    } else if (segments[0] === 'self') {
+      base = moduleDir;
+      modules = segments.slice(1);
+    } else if (segments[0] === 'super') {
+      base = moduleDir;
+      let depth = 0;
+      while (segments[depth] === 'super') {
+        base = posix.dirname(base);
+        depth++;
+      }
+      modules = segments.slice(depth);
+    } else {
+      // Other crates
+      return null;
+    }
+
+    // Imported names may themselves be modules (`use self::config;`)
+    for (const name of statement.importedNames.filter((s) => s !== '*')) {
+      const resolved = this.firstRustModule(posix.join(base, ...modules, name));
+      if (resolved) return resolved;
+    }
+
+    // Otherwise the longest module prefix of the path that exists
+    for (let length = modules.length; length > 0; length--) {
+      const resolved = this.firstRustModule(posix.join(base, ...modules.slice(0, length)));
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+
+  private resolveJava(statement: ImportStatement): string | null {
+    // Wildcard imports name a package, which has no single file
+    if (statement.specifiers.includes('*')) return null;
+
+    // `a.b.C` lives in `a/b/C.java`; for static imports the class is the source
+    return this.findBySuffix([`${statement.source.split('.').join('/')}.java`]);
+  }
+
+  /**
+   * Directory holding the child modules of a Rust file
+   */
+  private rustModuleDir(fromFile: string): string {
+    const name = posix.basename(fromFile, '.rs');
+    const dir = posix.dirname(fromFile);
+    return ['mod', 'lib', 'main'].includes(name) ? dir : posix.join(dir, name);
+  }
+
+  private rustCrateRoot(fromFile: string): string {
+    for (let dir = posix.dirname(fromFile); dir !== '.'; dir = posix.dirname(dir)) {
+      if (this.files.has(posix.join(dir, 'lib.rs')) || this.files.has(posix.join(dir, 'main.rs'))) return dir;
+    }
+    return 'src';
+  }
+
+  private firstRustModule(path: string): string | null {
+    return this.firstFile([`${path}.rs`, posix.join(path, 'mod.rs')]);
+  }
+
+  private firstPythonModule(paths: string[]): string | null {
+    return this.firstFile(paths.flatMap((p) => [`${p}.py`, `${p}.pyi`, posix.join(p, '__init__.py')]));
+  }
+
+  private firstFile(candidates: string[]): string | null {
+    return candidates.find((c) => this.files.has(c)) ?? null;
+  }
+
+  /**
+   * Find a file whose path ends with one of the given relative paths,
+   * preferring the shortest (closest to the repository root) match
+   */
+  private findBySuffix(suffixes: string[]): string | null {
+    if (!this.suffixIndex) {
+      this.suffixIndex = new Map();
+      const byDepth = [...this.files].sort((a, b) => a.split('/').length - b.split('/').length);
+      for (const file of byDepth) {
+        const parts = file.split('/');
+        for (let i = 0; i < parts.length; i++) {
+          const suffix = parts.slice(i).join('/');
+          if (!this.suffixIndex.has(suffix)) this.suffixIndex.set(suffix, file);
+        }
+      }
+    }
+
+    for (const suffix of suffixes) {
+      const file = this.suffixIndex.get(suffix);
+      if (file) return file;
+    }
+    return null;
+  }
+}
@@ -1,2 +1,10 @@
 export * from './ast-chunker.js';
+export * from './chunk-id.js';
+export * from './config-chunker.js';
+export * from './dependency-extractor.js';
+export * from './import-resolver.js';
+export * from './markdown-chunker.js';
+export * from './notebook-chunker.js';
+export * from './reference-extractor.js';
+export * from './schema-chunker.js';
 export * from './symbol-extractor.js';
@@ -0,0 +1,392 @@
+import { createHash } from 'crypto';
+import type { ChunkType } from '@context8/types';
+import { getTokenizer, type Tokenizer } from '@context8/tokenizer';
+import type { CodeChunkData, ChunkingOptions } from '../types.js';
+import { DEFAULT_CHUNKING_OPTIONS } from '../types.js';
+import { createChunkId, SymbolPathRegistry } from './chunk-id.js';
+
+const MARKDOWN_EXTENSIONS = ['md', 'mdx', 'markdown'];
+
+interface MarkdownSection {
+  level: number;
+  title: string;
+  headingPath: string[];
+  startLine: number;
+  endLine: number;
+  lines: string[];
+  headingLine: string | null;
+  hasBody: boolean;
+}
+
+/**
+ * Heading-aware chunker for Markdown and MDX documentation
+ */
+export class MarkdownChunker {
+  private options: ChunkingOptions;
+  private tokenizer: Tokenizer;
+
+  constructor(options?: Partial<ChunkingOptions>) {
+    this.options = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    this.tokenizer = getTokenizer(this.options.encoding);
+  }
+
+  /**
+   * Check if a file is a Markdown/MDX document
+   */
+  isMarkdownFile(filePath: string): boolean {
+    const ext = filePath.split('.').pop()?.toLowerCase();
+    return ext !== undefined && MARKDOWN_EXTENSIONS.includes(ext);
+  }
+
+  /**
+   * Split a document into section chunks under a file outline chunk
+   */
+  chunkFile(
+    filePath: string,
+    content: string,
+    repositoryId: string,
+    commitSha: string
+  ): CodeChunkData[] {
+    const lines = content.split('\n');
+    const isMdx = filePath.toLowerCase().endsWith('.mdx');
+    const parsed = this.parseSections(lines, filePath, isMdx);
+    const sections = this.mergeEmptySections(parsed);
+
+    if (sections.length === 0) {
+      return [];
+    }
+
+    const type = this.getDocumentType(filePath);
+    const fileSummary = this.createFileSummaryChunk(parsed, filePath, repositoryId, commitSha, content);
+    const chunks: CodeChunkData[] = [fileSummary];
+    const headingPaths = new SymbolPathRegistry();
+
+    for (const section of sections) {
+      const sectionChunks = this.createSectionChunks(
+        section,
+        headingPaths.claim(section.headingPath.join(' > ')),
+        type,
+        filePath,
+        repositoryId,
+        commitSha,
+        fileSummary.id
+      );
+      chunks.push(...sectionChunks);
+    }
+
+    fileSummary.childChunkIds = chunks.slice(1).map((c) => c.id);
+    return chunks;
+  }
+
+  /**
+   * READMEs get their own chunk type, everything else is documentation
+   */
+  private getDocumentType(filePath: string): ChunkType {
+    const fileName = filePath.split('/').pop() ?? filePath;
+    return /^readme(\.[a-z]+)?$/i.test(fileName) ? 'readme' : 'documentation';
+  }
+
+  /**
+   * Walk the document and cut it into sections at ATX and setext headings,
+   * ignoring anything inside fenced code blocks
+   */
+  private parseSections(lines: string[], filePath: string, isMdx: boolean): MarkdownSection[] {
+    const sections: MarkdownSection[] = [];
+    const headingStack: Array<{ level: number; title: string }> = [];
+
+    let startIndex = 0;
+    let documentTitle = filePath.split('/').pop() ?? filePath;
+
+    // YAML front matter
+    if (lines[0]?.trim() === '---') {
+      const closing = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+      if (closing > 0) {
+        for (const line of lines.slice(1, closing)) {
+          const titleMatch = line.match(/^title:\s*["']?(.+?)["']?\s*$/);
+          if (titleMatch) documentTitle = titleMatch[1];
+        }
+        startIndex = closing + 1;
+      }
+    }
+
+    let current: MarkdownSection = {
+      level: 0,
+      title: documentTitle,
+      headingPath: [],
+      startLine: startIndex,
+      endLine: startIndex,
+      lines: [],
+      headingLine: null,
+      hasBody: false,
+    };
+
+    let fence: string | null = null;
+
+    for (let i = startIndex; i < lines.length; i++) {
+      const line = lines[i];
+
+      // Track fenced code blocks
+      const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (!fence) {
+          fence = fenceMatch[1];
+        } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+          fence = null;
+        }
+      }
+
+      if (!fence && !fenceMatch) {
+        // MDX module syntax carries no prose
+        if (isMdx && /^(import|export)\s/.test(line)) {
+          continue;
+        }
+
+        const heading = this.matchHeading(line, lines[i + 1]);
+        if (heading) {
+          this.pushSection(sections, current);
+
+          while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= heading.level) {
+            headingStack.pop();
+          }
+          headingStack.push(heading);
+
+          const headingLines = heading.setext ? [line, lines[i + 1]] : [line];
+          current = {
+            level: heading.level,
+            title: heading.title,
+            headingPath: headingStack.map((h) => h.title),
+            startLine: i,
+            endLine: i + headingLines.length - 1,
+            lines: headingLines,
+            headingLine: line,
+            hasBody: false,
+          };
+
+          if (heading.setext) i++;
+          continue;
+        }
+      }
+
+      current.lines.push(line);
+      current.endLine = i;
+      if (line.trim()) current.hasBody = true;
+    }
+
+    this.pushSection(sections, current);
+    return sections;
+  }
+
+  private matchHeading(
+    line: string,
+    nextLine: string | undefined
+  ): { level: number; title: string; setext: boolean } | null {
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (atx) {
+      return { level: atx[1].length, title: this.cleanHeading(atx[2]), setext: false };
+    }
+
+    // Setext headings: a paragraph line underlined with === or ---
+    if (line.trim() && !/^\s*([-*+>]|\d+[.)])\s/.test(line) && nextLine !== undefined) {
+      if (/^\s{0,3}=+\s*$/.test(nextLine)) {
+        return { level: 1, title: this.cleanHeading(line), setext: true };
+      }
+      if (/^\s{0,3}-+\s*$/.test(nextLine)) {
+        return { level: 2, title: this.cleanHeading(line), setext: true };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Strip inline markup (links, emphasis, code) from heading text
+   */
+  private cleanHeading(text: string): string {
+    return text
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/[*_`]/g, '')
+      .trim();
+  }
+
+  private pushSection(sections: MarkdownSection[], section: MarkdownSection): void {
+    if (section.lines.some((line) => line.trim())) {
+      sections.push(section);
+    }
+  }
+
+  /**
+   * Fold heading-only sections into their first subsection so that
+   * e.g. "## Usage" directly followed by "### CLI" ends up in one chunk
+   */
+  private mergeEmptySections(sections: MarkdownSection[]): MarkdownSection[] {
+    const merged: MarkdownSection[] = [];
+
+    let pending: MarkdownSection | null = null;
+
+    for (let i = 0; i < sections.length; i++) {
+      const section = { ...sections[i] };
+      const next = sections[i + 1];
+
+      if (pending) {
+        section.lines = [...pending.lines, ...section.lines];
+        section.startLine = pending.startLine;
+        pending = null;
+      }
+
+      if (!sections[i].hasBody && next && next.level > sections[i].level) {
+        pending = section;
+        continue;
+      }
+
+      merged.push(section);
+    }
+
+    return merged;
+  }
+
+  private createSectionChunks(
+    section: MarkdownSection,
+    symbolPath: string,
+    type: ChunkType,
+    filePath: string,
+    repositoryId: string,
+    commitSha: string,
+    parentChunkId: string
+  ): CodeChunkData[] {
+    const breadcrumb = section.headingPath.length > 0 ? section.headingPath.join(' > ') : section.title;
+    const parts = this.splitSection(section);
+
+    return parts.map((part, index) => {
+      const content = part.lines.join('\n').trim();
+      return {
+        id: createChunkId({ sourceId: repositoryId, filePath, symbolPath, part: `section:${index}` }),
+        repositoryId,
+        level: 'implementation',
+        type,
+        language: 'markdown',
+        content,
+        signature: parts.length > 1 ? `${breadcrumb} [part ${index + 1}]` : breadcrumb,
+        symbolName: section.title,
+        filePath,
+        startLine: part.startLine,
+        endLine: part.endLine,
+        commitSha,
+        contentHash: this.hashContent(content),
+        imports: [],
+        exports: [],
+        headingPath: section.headingPath,
+        parentChunkId,
+        childChunkIds: [],
+      };
+    });
+  }
+
+  /**
+   * Split an oversized section at blank lines outside code fences,
+   * repeating the section heading on continuation parts
+   */
+  private splitSection(
+    section: MarkdownSection
+  ): Array<{ lines: string[]; startLine: number; endLine: number }> {
+    const whole = { lines: section.lines, startLine: section.startLine, endLine: section.endLine };
+    if (this.tokenizer.countTokens(section.lines.join('\n')) <= this.options.maxChunkTokens) {
+      return [whole];
+    }
+
+    // Group lines into blocks separated by blank lines
+    const blocks: Array<{ lines: string[]; startLine: number }> = [];
+    let block: { lines: string[]; startLine: number } | null = null;
+    let inFence = false;
+
+    section.lines.forEach((line, offset) => {
+      if (/^\s{0,3}(`{3,}|~{3,})/.test(line)) inFence = !inFence;
+
+      if (!inFence && !line.trim()) {
+        if (block) blocks.push(block);
+        block = null;
+        return;
+      }
+
+      if (!block) block = { lines: [], startLine: section.startLine + offset };
+      block.lines.push(line);
+    });
+    if (block) blocks.push(block);
+
+    const headingLine = section.headingLine;
+    const parts: Array<{ lines: string[]; startLine: number; endLine: number }> = [];
+    let current: { lines: string[]; startLine: number; endLine: number } | null = null;
+
+    for (const b of blocks) {
+      const candidate = current ? [...current.lines, '', ...b.lines] : b.lines;
+
+      if (current && this.tokenizer.countTokens(candidate.join('\n')) > this.options.maxChunkTokens) {
+        parts.push(current);
+        current = null;
+      }
+
+      if (!current) {
+        const prefix = parts.length > 0 && headingLine ? [headingLine, ''] : [];
+        current = { lines: [...prefix, ...b.lines], startLine: b.startLine, endLine: b.startLine + b.lines.length - 1 };
+      } else {
+        current.lines = [...current.lines, '', ...b.lines];
+        current.endLine = b.startLine + b.lines.length - 1;
+      }
+    }
+    if (current) parts.push(current);
+
+    // Merge a tiny trailing fragment into the previous part
+    if (parts.length > 1) {
+      const last = parts[parts.length - 1];
+      if (this.tokenizer.countTokens(last.lines.join('\n')) < this.options.minChunkTokens) {
+        const previous = parts[parts.length - 2];
+        const body = headingLine ? last.lines.slice(2) : last.lines;
+        previous.lines = [...previous.lines, '', ...body];
+        previous.endLine = last.endLine;
+        parts.pop();
+      }
+    }
+
+    return parts.length > 0 ? parts : [whole];
+  }
+
+  private createFileSummaryChunk(
+    sections: MarkdownSection[],
+    filePath: string,
+    repositoryId: string,
+    commitSha: string,
+    fullContent: string
+  ): CodeChunkData {
+    const headings = sections.filter((s) => s.level > 0);
+    const outline = headings
+      .map((s) => `${'  '.repeat(s.headingPath.length - 1)}- ${s.title}`)
+      .join('\n');
+    const summary = `File: ${filePath}\nSections: ${headings.length}\n\n${outline}`.trim();
+
+    return {
+      id: createChunkId({ sourceId: repositoryId, filePath, symbolPath: '', part: 'file' }),
+      repositoryId,
+      level: 'summary',
+      type: 'file_summary',
+      language: 'markdown',
+      content: summary,
+      signature: `File: ${filePath}`,
+      symbolName: filePath.split('/').pop() ?? filePath,
+      filePath,
+      startLine: 0,
+      endLine: fullContent.split('\n').length - 1,
+      commitSha,
+      contentHash: this.hashContent(fullContent),
+      imports: [],
+      exports: [],
+      parentChunkId: null,
+      childChunkIds: [],
+    };
+  }
+
+  private hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
+
+export const markdownChunker = new MarkdownChunker();
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { AstChunker } from './ast-chunker.js';
+import { NotebookChunker } from './notebook-chunker.js';
+
+function notebook(cells: Array<Record<string, unknown>>, language = 'python'): string {
+  return JSON.stringify({ cells, metadata: { kernelspec: { language } }, nbformat: 4 });
+}
+
+const cells = [
+  { cell_type: 'markdown', source: ['# Loading data\n', '\n', 'Reads the CSV.'] },
+  { cell_type: 'code', source: ['%matplotlib inline\n', 'import pandas as pd'], outputs: [] },
+  { cell_type: 'code', source: '', outputs: [] },
+  {
+    cell_type: 'code',
+    source: ['def load(path):\n', '    return pd.read_csv(path)'],
+    outputs: [{ output_type: 'stream', text: ['loaded 3 rows\n'] }],
+  },
+  { cell_type: 'markdown', source: '## Plotting' },
+  {
+    cell_type: 'code',
+    source: 'load("a.csv")',
+    outputs: [{ output_type: 'execute_result', data: { 'text/plain': ['42'] } }],
+  },
+];
+
+describe('NotebookChunker', () => {
+  it('joins cells per kind with the cell index of every line', () => {
+    const read = new NotebookChunker().read(notebook(cells))!;
+
+    expect(read.language).toBe('python');
+    expect(read.cellCount).toBe(6);
+    expect(read.code.content.split('\n')).toEqual([
+      '# %matplotlib inline',
+      'import pandas as pd',
+      '',
+      'def load(path):',
+      '    return pd.read_csv(path)',
+      '',
+      'load("a.csv")',
+    ]);
+    expect(read.code.lineCells).toEqual([1, 1, 1, 3, 3, 3, 5]);
+    expect(read.markdown.lineCells).toEqual([0, 0, 0, 0, 4]);
+  });
+
+  it('strips outputs unless small text outputs are kept', () => {
+    expect(new NotebookChunker().read(notebook(cells))!.code.content).not.toContain('# Out:');
+
+    const kept = new NotebookChunker({ keepNotebookOutputs: true }).read(notebook(cells))!;
+    const lines = kept.code.content.split('\n');
+    expect(lines.slice(5, 7)).toEqual(['# Out:', '# loaded 3 rows']);
+    expect(lines.slice(-2)).toEqual(['# Out:', '# 42']);
+    expect(kept.code.lineCells.slice(-2)).toEqual([5, 5]);
+  });
+
+  it('rejects content that is not a notebook', () => {
+    const chunker = new NotebookChunker();
+
+    expect(chunker.read('not json')).toBeNull();
+    expect(chunker.read('{"metadata": {}}')).toBeNull();
+    expect(chunker.isNotebookFile('analysis/Explore.IPYNB')).toBe(true);
+    expect(chunker.isNotebookFile('explore.py')).toBe(false);
+  });
+});
+
+describe('AstChunker notebooks', () => {
+  const chunker = new AstChunker();
+
+  it('emits code and markdown chunks with cell indices as lines', async () => {
+    const { chunks, dependencies } = await chunker.analyzeFile('analysis.ipynb', notebook(cells), 'repo', 'sha');
+
+    const summaries = chunks.filter((c) => c.type === 'file_summary');
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0].startLine).toBe(0);
+    expect(summaries[0].endLine).toBe(5);
+
+    const load = chunks.find((c) => c.symbolName === 'load')!;
+    expect(load.type).toBe('function');
+    expect(load.startLine).toBe(3);
+    expect(load.endLine).toBe(3);
+
+    const docs = chunks.filter((c) => c.language === 'markdown' && c.type !== 'file_summary');
+    expect(docs.length).toBeGreaterThan(0);
+    expect(docs.every((c) => c.startLine === 0 || c.startLine === 4)).toBe(true);
+    expect(docs.some((c) => c.content.includes('## Plotting') && c.startLine === 4)).toBe(true);
+
+    // Sections hang off the notebook outline rather than a document of their own
+    expect(docs.every((c) => c.parentChunkId === summaries[0].id)).toBe(true);
+    expect(summaries[0].childChunkIds).toEqual(expect.arrayContaining(docs.map((c) => c.id)));
+    expect(dependencies?.imports.map((i) => i.line)).toEqual([1]);
+  });
+
+  it('keeps only the markdown of notebooks in other languages', async () => {
+    const { chunks } = await chunker.analyzeFile('analysis.ipynb', notebook(cells, 'julia'), 'repo', 'sha');
+
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(chunks.every((c) => c.language === 'markdown')).toBe(true);
+  });
+});
@@ -0,0 +1,197 @@
+import { getTokenizer, type Tokenizer } from '@context8/tokenizer';
+import type { CodeChunkData, ChunkingOptions, FileAnalysis } from '../types.js';
+import { DEFAULT_CHUNKING_OPTIONS } from '../types.js';
+
+const NOTEBOOK_EXTENSIONS = ['ipynb'];
+
+// Largest cell output kept when outputs are enabled
+const MAX_OUTPUT_TOKENS = 128;
+
+interface NotebookCell {
+  cell_type: 'code' | 'markdown' | 'raw';
+  source: string | string[];
+  outputs?: NotebookOutput[];
+}
+
+interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+}
+
+/**
+ * Cells of one kind joined into a single document, with the cell index of
+ * every line so chunks can be mapped back to cells
+ */
+export interface NotebookSource {
+  content: string;
+  lineCells: number[];
+}
+
+export interface Notebook {
+  /** Kernel language, e.g. `python` */
+  language: string | null;
+  cellCount: number;
+  code: NotebookSource;
+  markdown: NotebookSource;
+}
+
+/**
+ * Jupyter notebook reader. Code cells are joined into a script for the
+ * Python extractor and markdown cells into a document for the markdown
+ * chunker; chunk lines are then mapped back to cell indices.
+ */
+export class NotebookChunker {
+  private options: ChunkingOptions;
+  private tokenizer: Tokenizer;
+
+  constructor(options?: Partial<ChunkingOptions>) {
+    this.options = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    this.tokenizer = getTokenizer(this.options.encoding);
+  }
+
+  isNotebookFile(filePath: string): boolean {
+    const ext = filePath.split('.').pop()?.toLowerCase();
+    return ext !== undefined && NOTEBOOK_EXTENSIONS.includes(ext);
+  }
+
+  /**
+   * Parse notebook JSON (nbformat 4), or null if it isn't a valid notebook
+   */
+  read(content: string): Notebook | null {
+    let parsed: { cells?: NotebookCell[]; metadata?: Record<string, { language?: string; name?: string }> };
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return null;
+    }
+    if (!Array.isArray(parsed.cells)) {
+      return null;
+    }
+
+    const metadata = parsed.metadata ?? {};
+    const code: NotebookSource = { content: '', lineCells: [] };
+    const markdown: NotebookSource = { content: '', lineCells: [] };
+    const codeLines: string[] = [];
+    const markdownLines: string[] = [];
+
+    parsed.cells.forEach((cell, index) => {
+      const source = joinText(cell.source);
+      if (!source.trim()) return;
+
+      if (cell.cell_type === 'code') {
+        const cellLines = [...source.split('\n').map(commentOutMagic), ...this.renderOutputs(cell.outputs ?? [])];
+        this.appendCell(codeLines, code.lineCells, cellLines, index);
+      } else if (cell.cell_type === 'markdown') {
+        this.appendCell(markdownLines, markdown.lineCells, source.split('\n'), index);
+      }
+    });
+
+    code.content = codeLines.join('\n');
+    markdown.content = markdownLines.join('\n');
+
+    return {
+      language: metadata.kernelspec?.language ?? metadata.language_info?.name ?? null,
+      cellCount: parsed.cells.length,
+      code,
+      markdown,
+    };
+  }
+
+  /**
+   * Merge the analyses of the code and markdown cells into one for the
+   * notebook, with start/end lines replaced by cell indices
+   */
+  combine(notebook: Notebook, code: FileAnalysis, markdownChunks: CodeChunkData[]): FileAnalysis {
+    const toCell = (source: NotebookSource, line: number) =>
+      source.lineCells[Math.min(line, source.lineCells.length - 1)] ?? 0;
+    const mapChunk = (source: NotebookSource) => (chunk: CodeChunkData): CodeChunkData => ({
+      ...chunk,
+      startLine: toCell(source, chunk.startLine),
+      endLine: toCell(source, chunk.endLine),
+    });
+
+    const codeChunks = code.chunks.map(mapChunk(notebook.code));
+    const docChunks = markdownChunks.map(mapChunk(notebook.markdown));
+
+    // One outline for the notebook: the code summary, or the document's one
+    const codeSummary = codeChunks.find((c) => c.type === 'file_summary');
+    const docSummary = docChunks.find((c) => c.type === 'file_summary');
+    const summary = codeSummary ?? docSummary;
+
+    const chunks = [...codeChunks, ...docChunks.filter((c) => c !== docSummary || !codeSummary)];
+    if (summary) {
+      summary.startLine = 0;
+      summary.endLine = notebook.cellCount - 1;
+
+      if (codeSummary && docSummary) {
+        for (const chunk of chunks) {
+          if (chunk.parentChunkId === docSummary.id) chunk.parentChunkId = codeSummary.id;
+        }
+        codeSummary.childChunkIds = [...codeSummary.childChunkIds, ...docSummary.childChunkIds];
+      }
+    }
+
+    const dependencies = code.dependencies && {
+      imports: code.dependencies.imports.map((i) => ({ ...i, line: toCell(notebook.code, i.line) })),
+      exports: code.dependencies.exports,
+    };
+    const references = code.references.map((r) => ({ ...r, line: toCell(notebook.code, r.line) }));
+
+    return { chunks, dependencies, references };
+  }
+
+  /**
+   * Append a cell's lines, separated from the previous cell by a blank line
+   */
+  private appendCell(lines: string[], lineCells: number[], cellLines: string[], index: number): void {
+    if (lines.length > 0) {
+      lines.push('');
+      lineCells.push(lineCells[lineCells.length - 1]);
+    }
+    lines.push(...cellLines);
+    lineCells.push(...cellLines.map(() => index));
+  }
+
+  /**
+   * Small text outputs as comments below the cell's code; dropped unless
+   * `keepNotebookOutputs` is set
+   */
+  private renderOutputs(outputs: NotebookOutput[]): string[] {
+    if (!this.options.keepNotebookOutputs) {
+      return [];
+    }
+
+    const rendered: string[] = [];
+    for (const output of outputs) {
+      const text =
+        output.output_type === 'stream'
+          ? joinText(output.text)
+          : output.output_type === 'error'
+            ? `${output.ename}: ${output.evalue}`
+            : joinText(output.data?.['text/plain']);
+
+      if (!text.trim() || this.tokenizer.countTokens(text) > MAX_OUTPUT_TOKENS) continue;
+      rendered.push('# Out:', ...text.trimEnd().split('\n').map((line) => `# ${line}`));
+    }
+    return rendered;
+  }
+}
+
+/**
+ * Notebook text fields are either a string or a list of lines
+ */
+function joinText(text: string | string[] | undefined): string {
+  return Array.isArray(text) ? text.join('') : (text ?? '');
+}
+
+/**
+ * IPython magics and shell escapes aren't Python; keep them as comments
+ */
+function commentOutMagic(line: string): string {
+  return /^\s*[%!]/.test(line) ? `# ${line}` : line;
+}
+
+export const notebookChunker = new NotebookChunker();
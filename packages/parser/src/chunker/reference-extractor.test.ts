@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { AstChunker } from './ast-chunker.js';
+
+const chunker = new AstChunker();
+
+async function references(filePath: string, content: string) {
+  const result = await chunker.analyzeFile(filePath, content, 'repo', 'sha');
+  return result.references.map((r) => [r.fromSymbol, r.receiver, r.name, r.kind]);
+}
+
+describe('ReferenceExtractor', () => {
+  it('skips Python builtin decorators, types and functions', async () => {
+    const content = [
+      'class Store:',
+      '    @property',
+      '    def size(self) -> int:',
+      '        return len(self.items)',
+      '',
+      '    @staticmethod',
+      '    @cached',
+      '    def load(path: str) -> "Store":',
+      '        return parse(open(path).read())',
+    ].join('\n');
+
+    expect(await references('store.py', content)).toEqual([
+      ['Store.load', null, 'cached', 'call'],
+      ['Store.load', null, 'parse', 'call'],
+      ['Store.load', 'open(path)', 'read', 'call'],
+    ]);
+  });
+
+  it('skips Go predeclared types and functions', async () => {
+    const content = [
+      'package store',
+      '',
+      'func Load(path string) (*Store, error) {',
+      '\tdata := make([]byte, 0, len(path))',
+      '\treturn decode(data), nil',
+      '}',
+    ].join('\n');
+
+    expect(await references('store.go', content)).toEqual([
+      ['Load', null, 'Store', 'type'],
+      ['Load', null, 'decode', 'call'],
+    ]);
+  });
+});
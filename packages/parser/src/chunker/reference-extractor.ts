@@ -0,0 +1,250 @@
+import type Parser from 'tree-sitter';
+import type { ReferenceKind, SupportedLanguage, SymbolReference } from '@context8/types';
+import type { ExtractedSymbol } from '../types.js';
+import { languageRegistry } from '../languages/index.js';
+
+interface ReferenceTarget {
+  name: string;
+  receiver: string | null;
+  kind: ReferenceKind;
+}
+
+// Declarations whose `name` field is a type_identifier but not a reference
+const TYPE_DECLARATIONS = new Set([
+  'class_declaration',
+  'abstract_class_declaration',
+  'interface_declaration',
+  'type_alias_declaration',
+  'enum_declaration',
+  'type_parameter',
+  'type_spec',
+  'struct_item',
+  'enum_item',
+  'trait_item',
+  'type_item',
+  'associated_type',
+  'record_declaration',
+]);
+
+const MAX_RECEIVER_LENGTH = 80;
+
+/**
+ * Extract calls and type/heritage/JSX references from an AST, attributed to
+ * the innermost extracted symbol that contains them
+ */
+export class ReferenceExtractor {
+  extract(tree: Parser.Tree, language: SupportedLanguage, symbols: ExtractedSymbol[]): SymbolReference[] {
+    const definition = languageRegistry.get(language);
+    const nodeTypes = definition?.referenceNodeTypes ?? [];
+    if (nodeTypes.length === 0) return [];
+    const builtins = new Set(definition?.builtinNames);
+
+    const scopes = new Map<string, string>();
+    for (const symbol of symbols) {
+      const key = this.rangeKey(symbol.startLine, symbol.startColumn, symbol.endLine, symbol.endColumn);
+      if (!scopes.has(key)) scopes.set(key, symbol.qualifiedName);
+    }
+
+    const references: SymbolReference[] = [];
+    const seen = new Set<string>();
+
+    for (const node of tree.rootNode.descendantsOfType(nodeTypes)) {
+      for (const target of this.targetsOf(node, language)) {
+        if (target.receiver === null && builtins.has(target.name)) continue;
+
+        const fromSymbol = this.enclosingSymbol(node, scopes);
+        const key = [fromSymbol, target.receiver, target.name, target.kind].join('\0');
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        references.push({ fromSymbol, ...target, line: node.startPosition.row });
+      }
+    }
+
+    return references;
+  }
+
+  private targetsOf(node: Parser.SyntaxNode, language: SupportedLanguage): ReferenceTarget[] {
+    switch (node.type) {
+      // Calls
+      case 'call_expression':
+      case 'call': {
+        const fn = node.childForFieldName('function');
+        if (!fn || fn.type === 'import' || (fn.type === 'identifier' && fn.text === 'require')) return [];
+        return this.fromExpression(fn, 'call');
+      }
+      case 'new_expression':
+        return this.fromExpression(node.childForFieldName('constructor'), 'new');
+      case 'method_invocation': {
+        const name = node.childForFieldName('name');
+        const object = node.childForFieldName('object');
+        return name ? [{ name: name.text, receiver: object ? this.receiverText(object) : null, kind: 'call' }] : [];
+      }
+      case 'object_creation_expression':
+        return this.fromExpression(node.childForFieldName('type'), 'new');
+
+      // Types
+      case 'type_identifier':
+        if (this.isDeclarationName(node) || this.isInsideQualifiedType(node)) return [];
+        return [{ name: node.text, receiver: null, kind: this.isInHeritage(node) ? 'extends' : 'type' }];
+      case 'nested_type_identifier':
+      case 'qualified_type':
+      case 'scoped_type_identifier': {
+        const name = node.childForFieldName('name');
+        const scope = node.childForFieldName('module') ?? node.childForFieldName('package') ?? node.childForFieldName('path');
+        if (!name) return [];
+        return [{ name: name.text, receiver: scope ? this.receiverText(scope) : null, kind: 'type' }];
+      }
+      case 'type':
+        // Python annotations
+        return language === 'python'
+          ? node.descendantsOfType(['identifier', 'attribute'])
+              .filter((n) => n.parent?.type !== 'attribute')
+              .flatMap((n) => this.fromExpression(n, 'type'))
+          : [];
+
+      // Inheritance
+      case 'class_heritage':
+        // JavaScript puts the expression directly under class_heritage; TypeScript wraps it in extends_clause
+        return node.namedChildren
+          .flatMap((c) => (c.type === 'extends_clause' ? c.namedChildren : c.type === 'implements_clause' ? [] : [c]))
+          .filter((c) => c.type === 'identifier' || c.type === 'member_expression')
+          .flatMap((c) => this.fromExpression(c, 'extends'));
+      case 'class_definition': {
+        const superclasses = node.childForFieldName('superclasses');
+        return (superclasses?.namedChildren ?? [])
+          .filter((c) => c.type === 'identifier' || c.type === 'attribute')
+          .flatMap((c) => this.fromExpression(c, 'extends'));
+      }
+      case 'impl_item': {
+        const trait = node.childForFieldName('trait');
+        return trait ? this.fromExpression(trait, 'extends') : [];
+      }
+      case 'superclass':
+      case 'super_interfaces':
+        // Their type identifiers are picked up on their own as `extends`
+        return [];
+
+      // Components and decorators
+      case 'jsx_opening_element':
+      case 'jsx_self_closing_element': {
+        const name = node.childForFieldName('name');
+        // Lower-case tags are intrinsic elements
+        if (!name || /^[a-z]/.test(name.text)) return [];
+        return this.fromExpression(name, 'jsx');
+      }
+      case 'decorator': {
+        const expression = node.namedChildren[0];
+        // Decorator calls are already collected as calls
+        return expression && expression.type !== 'call' ? this.fromExpression(expression, 'call') : [];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Split `a.b.c` style expressions into receiver `a.b` and name `c`
+   */
+  private fromExpression(node: Parser.SyntaxNode | null, kind: ReferenceKind): ReferenceTarget[] {
+    if (!node) return [];
+
+    switch (node.type) {
+      case 'identifier':
+      case 'type_identifier':
+      case 'property_identifier':
+      case 'field_identifier':
+        return [{ name: node.text, receiver: null, kind }];
+      case 'member_expression':
+      case 'attribute':
+      case 'selector_expression':
+      case 'field_expression':
+      case 'scoped_identifier':
+      case 'scoped_type_identifier':
+      case 'nested_identifier':
+      case 'nested_type_identifier':
+      case 'member_expression_jsx': {
+        const name =
+          node.childForFieldName('property') ??
+          node.childForFieldName('attribute') ??
+          node.childForFieldName('field') ??
+          node.childForFieldName('name') ??
+          node.lastNamedChild;
+        const receiver =
+          node.childForFieldName('object') ??
+          node.childForFieldName('operand') ??
+          node.childForFieldName('value') ??
+          node.childForFieldName('path') ??
+          node.childForFieldName('module') ??
+          (node.namedChildCount > 1 ? node.firstNamedChild : null);
+        if (!name) return [];
+        return [{ name: name.text, receiver: receiver ? this.receiverText(receiver) : null, kind }];
+      }
+      case 'generic_type':
+      case 'generic_function': {
+        const inner = node.childForFieldName('type') ?? node.childForFieldName('function') ?? node.firstNamedChild;
+        return this.fromExpression(inner, kind);
+      }
+      default:
+        return [];
+    }
+  }
+
+  private receiverText(node: Parser.SyntaxNode): string {
+    const text = node.text.replace(/\s+/g, '');
+    return text.length > MAX_RECEIVER_LENGTH ? `…${text.slice(-MAX_RECEIVER_LENGTH)}` : text;
+  }
+
+  private isDeclarationName(node: Parser.SyntaxNode): boolean {
+    const parent = node.parent;
+    if (!parent) return false;
+
+    // `impl Trait for Type` is reported once as `extends`
+    if (parent.type === 'impl_item') return true;
+    // `new Foo<T>()` is already reported as `new`
+    if (parent.type === 'object_creation_expression' || parent.parent?.type === 'object_creation_expression') {
+      return true;
+    }
+
+    if (!TYPE_DECLARATIONS.has(parent.type)) return false;
+    const name = parent.childForFieldName('name');
+    return name?.startIndex === node.startIndex && name.endIndex === node.endIndex;
+  }
+
+  /**
+   * Qualified types are reported once, as a whole
+   */
+  private isInsideQualifiedType(node: Parser.SyntaxNode): boolean {
+    const parent = node.parent?.type;
+    return parent === 'nested_type_identifier' || parent === 'qualified_type' || parent === 'scoped_type_identifier';
+  }
+
+  private isInHeritage(node: Parser.SyntaxNode): boolean {
+    for (let current = node.parent, depth = 0; current && depth < 4; current = current.parent, depth++) {
+      if (['extends_clause', 'implements_clause', 'extends_type_clause', 'superclass', 'super_interfaces'].includes(current.type)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private enclosingSymbol(node: Parser.SyntaxNode, scopes: Map<string, string>): string | null {
+    // Start at the node itself so a class's heritage belongs to the class
+    for (let current: Parser.SyntaxNode | null = node; current; current = current.parent) {
+      const key = this.rangeKey(
+        current.startPosition.row,
+        current.startPosition.column,
+        current.endPosition.row,
+        current.endPosition.column
+      );
+      const symbol = scopes.get(key);
+      if (symbol) return symbol;
+    }
+    return null;
+  }
+
+  private rangeKey(startRow: number, startColumn: number, endRow: number, endColumn: number): string {
+    return `${startRow}:${startColumn}-${endRow}:${endColumn}`;
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { SchemaChunker } from './schema-chunker.js';
+
+const chunker = new SchemaChunker();
+
+function chunk(filePath: string, content: string) {
+  return chunker.chunkFile(filePath, content, 'repo', 'sha');
+}
+
+describe('SchemaChunker', () => {
+  it('emits one chunk per Prisma block with relations to other blocks', () => {
+    const content = [
+      'datasource db {',
+      '  provider = "postgresql"',
+      '}',
+      '',
+      '/// A registered user',
+      'model User {',
+      '  id    String @id',
+      '  posts Post[]',
+      '  role  Role',
+      '}',
+      '',
+      'model Post {',
+      '  id       String @id',
+      '  author   User   @relation(fields: [authorId], references: [id])',
+      '  authorId String',
+      '}',
+      '',
+      'enum Role {',
+      '  ADMIN',
+      '  MEMBER',
+      '}',
+    ].join('\n');
+    const [summary, ...chunks] = chunk('prisma/schema.prisma', content);
+
+    expect(summary.type).toBe('file_summary');
+    expect(summary.content).toContain('- model User -> Post, Role');
+    expect(chunks.map((c) => c.symbolName)).toEqual(['db', 'User', 'Post', 'Role']);
+    expect(chunks.every((c) => c.type === 'schema' && c.parentChunkId === summary.id)).toBe(true);
+    expect(summary.childChunkIds).toEqual(chunks.map((c) => c.id));
+
+    const [, user, post, role] = chunks;
+    expect(user.startLine).toBe(4);
+    expect(user.endLine).toBe(9);
+    expect(user.content).toContain('/// A registered user');
+    expect(user.signature).toBe('model User');
+    expect(user.relations).toEqual(['Post', 'Role']);
+    expect(post.relations).toEqual(['User']);
+    expect(role.relations).toEqual([]);
+  });
+
+  it('chunks SQL statements and collects inline and ALTER TABLE foreign keys', () => {
+    const content = [
+      '-- Accounts',
+      'CREATE TABLE "public"."users" (',
+      '  id uuid PRIMARY KEY,',
+      "  name text DEFAULT 'a;b'",
+      ');',
+      '',
+      'CREATE TABLE orders (',
+      '  id uuid PRIMARY KEY,',
+      '  user_id uuid REFERENCES users(id)',
+      ');',
+      '',
+      'CREATE TABLE items (id uuid, order_id uuid);',
+      'ALTER TABLE items ADD CONSTRAINT fk FOREIGN KEY (order_id) REFERENCES orders(id);',
+      '',
+      'CREATE VIEW user_orders AS SELECT * FROM users JOIN orders ON orders.user_id = users.id;',
+      '',
+      'CREATE OR REPLACE FUNCTION touch() RETURNS trigger AS $$',
+      'BEGIN',
+      '  UPDATE items SET id = id;',
+      'END;',
+      '$$ LANGUAGE plpgsql;',
+    ].join('\n');
+    const [, ...chunks] = chunk('db/schema.sql', content);
+
+    expect(chunks.map((c) => [c.symbolName, c.signature])).toEqual([
+      ['public.users', 'table public.users'],
+      ['orders', 'table orders'],
+      ['items', 'table items'],
+      ['user_orders', 'view user_orders'],
+      ['touch', 'function touch'],
+    ]);
+
+    const [users, orders, items, view, fn] = chunks;
+    expect(users.startLine).toBe(0);
+    expect(users.endLine).toBe(4);
+    expect(orders.relations).toEqual(['public.users']);
+    expect(items.relations).toEqual(['orders']);
+    expect(view.relations).toEqual(['public.users', 'orders']);
+    expect(fn.startLine).toBe(16);
+    expect(fn.endLine).toBe(20);
+    expect(fn.relations).toEqual(['items']);
+  });
+
+  it('chunks GraphQL root operation fields separately from types', () => {
+    const content = [
+      'type User implements Node {',
+      '  id: ID!',
+      '  posts: [Post!]!',
+      '}',
+      '',
+      'interface Node {',
+      '  id: ID!',
+      '}',
+      '',
+      'type Post {',
+      '  author: User',
+      '}',
+      '',
+      'type Query {',
+      '  "Look up a user"',
+      '  user(id: ID!): User',
+      '  posts(',
+      '    first: Int',
+      '  ): [Post!]!',
+      '}',
+    ].join('\n');
+    const [, ...chunks] = chunk('schema.graphql', content);
+
+    expect(chunks.map((c) => c.symbolName)).toEqual(['User', 'Node', 'Post', 'Query.user', 'Query.posts']);
+
+    const [user, , , queryUser, queryPosts] = chunks;
+    expect(user.relations).toEqual(['Node', 'Post']);
+    expect(queryUser.signature).toBe('query Query.user');
+    expect(queryUser.startLine).toBe(14);
+    expect(queryUser.endLine).toBe(15);
+    expect(queryUser.relations).toEqual(['User']);
+    expect(queryPosts.startLine).toBe(16);
+    expect(queryPosts.endLine).toBe(18);
+    expect(queryPosts.relations).toEqual(['Post']);
+  });
+
+  it('keeps chunk IDs of unchanged definitions when another one changes', () => {
+    const before = chunk('schema.prisma', 'model A {\n  id Int\n}\n\nmodel B {\n  id Int\n}');
+    const after = chunk('schema.prisma', 'model A {\n  id Int\n  name String\n}\n\nmodel B {\n  id Int\n}');
+
+    expect(after.slice(1).map((c) => c.id)).toEqual(before.slice(1).map((c) => c.id));
+    expect(after[2].contentHash).toBe(before[2].contentHash);
+    expect(after[1].contentHash).not.toBe(before[1].contentHash);
+  });
+
+  it('ignores files without definitions and other languages', () => {
+    expect(chunk('seed.sql', "INSERT INTO users VALUES ('a');")).toEqual([]);
+    expect(chunk('index.ts', 'export {}')).toEqual([]);
+  });
+});
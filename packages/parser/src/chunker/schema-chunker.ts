@@ -0,0 +1,505 @@
+import { createHash } from 'crypto';
+import type { SupportedLanguage } from '@context8/types';
+import type { CodeChunkData, ChunkingOptions } from '../types.js';
+import { DEFAULT_CHUNKING_OPTIONS } from '../types.js';
+import { createChunkId, SymbolPathRegistry } from './chunk-id.js';
+import { BodySplitter } from './body-splitter.js';
+
+export type SchemaLanguage = Extract<SupportedLanguage, 'prisma' | 'sql' | 'graphql'>;
+
+const SCHEMA_EXTENSIONS: Record<string, SchemaLanguage> = {
+  prisma: 'prisma',
+  sql: 'sql',
+  graphql: 'graphql',
+  gql: 'graphql',
+};
+
+const PRISMA_BLOCK = /^(model|enum|view|type|datasource|generator)\s+(\w+)\s*\{/;
+const GRAPHQL_DEFINITION =
+  /^(extend\s+)?(type|interface|input|enum|union|scalar|schema|directive|fragment|query|mutation|subscription)\b\s*@?(\w*)/;
+// Root operation types are chunked per field, so each query and mutation stands alone
+const GRAPHQL_ROOT_TYPES = new Set(['Query', 'Mutation', 'Subscription']);
+const GRAPHQL_BUILTIN_SCALARS = new Set(['String', 'Int', 'Float', 'Boolean', 'ID']);
+
+const SQL_DEFINITIONS: Array<{ kind: string; pattern: RegExp }> = [
+  {
+    kind: 'table',
+    pattern: /^CREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP(?:ORARY)?\s+|UNLOGGED\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([\w."`[\]]+)/i,
+  },
+  {
+    kind: 'view',
+    pattern: /^CREATE\s+(?:OR\s+REPLACE\s+)?(?:MATERIALIZED\s+)?VIEW\s+(?:IF\s+NOT\s+EXISTS\s+)?([\w."`[\]]+)/i,
+  },
+  {
+    kind: 'function',
+    pattern: /^CREATE\s+(?:OR\s+REPLACE\s+)?(?:DEFINER\s*=\s*\S+\s+)?(FUNCTION|PROCEDURE)\s+(?:IF\s+NOT\s+EXISTS\s+)?([\w."`[\]]+)/i,
+  },
+];
+const SQL_FOREIGN_KEY = /^ALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?([\w."`[\]]+)[\s\S]*?\bREFERENCES\s+([\w."`[\]]+)/i;
+
+interface SchemaDefinition {
+  name: string;
+  /** e.g. `model`, `table`, `type` */
+  kind: string;
+  startLine: number;
+  endLine: number;
+  /** Names of other definitions this one points at */
+  relations: string[];
+}
+
+/**
+ * Chunker for data model files: one chunk per Prisma model/enum, SQL
+ * table/view/function and GraphQL type, query and mutation
+ */
+export class SchemaChunker {
+  private options: ChunkingOptions;
+  private splitter: BodySplitter;
+
+  constructor(options?: Partial<ChunkingOptions>) {
+    this.options = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    this.splitter = new BodySplitter(this.options);
+  }
+
+  /**
+   * Schema language of a file, or null for anything else
+   */
+  detectLanguage(filePath: string): SchemaLanguage | null {
+    const ext = filePath.split('.').pop()?.toLowerCase();
+    return ext ? (SCHEMA_EXTENSIONS[ext] ?? null) : null;
+  }
+
+  isSchemaFile(filePath: string): boolean {
+    return this.detectLanguage(filePath) !== null;
+  }
+
+  /**
+   * Split a schema file into one chunk per definition under a file outline chunk
+   */
+  chunkFile(
+    filePath: string,
+    content: string,
+    repositoryId: string,
+    commitSha: string
+  ): CodeChunkData[] {
+    const language = this.detectLanguage(filePath);
+    if (!language) {
+      return [];
+    }
+
+    const lines = content.split('\n');
+    const definitions = this.parseDefinitions(language, content, lines);
+    if (definitions.length === 0) {
+      return [];
+    }
+
+    const fileSummary = this.createFileSummaryChunk(definitions, filePath, language, repositoryId, commitSha, content);
+    const chunks: CodeChunkData[] = [fileSummary];
+    const names = new SymbolPathRegistry();
+
+    for (const definition of definitions) {
+      chunks.push(
+        ...this.createDefinitionChunks(definition, names.claim(definition.name), lines, filePath, language, repositoryId, commitSha, fileSummary.id)
+      );
+    }
+
+    fileSummary.childChunkIds = chunks.slice(1).map((c) => c.id);
+    return chunks;
+  }
+
+  private parseDefinitions(language: SchemaLanguage, content: string, lines: string[]): SchemaDefinition[] {
+    switch (language) {
+      case 'prisma':
+        return this.parsePrisma(lines);
+      case 'sql':
+        return this.parseSql(content);
+      case 'graphql':
+        return this.parseGraphql(lines);
+    }
+  }
+
+  /**
+   * Blocks such as `model User { ... }`; relations are field types naming
+   * another block of the schema
+   */
+  private parsePrisma(lines: string[]): SchemaDefinition[] {
+    const starts = lines.flatMap((line, i) => {
+      const match = line.match(PRISMA_BLOCK);
+      return match ? [{ line: i, kind: match[1], name: match[2] }] : [];
+    });
+    const ranges = this.rangesFromStarts(lines, starts.map((s) => s.line), ['//']);
+    const blockNames = new Set(starts.map((s) => s.name));
+
+    return starts.map((start, index) => {
+      const relations = new Set<string>();
+      for (const line of lines.slice(start.line + 1, ranges[index].endLine + 1)) {
+        const fieldType = line.match(/^\s*\w+\s+(\w+)/)?.[1];
+        if (fieldType && fieldType !== start.name && blockNames.has(fieldType)) relations.add(fieldType);
+      }
+
+      return {
+        name: start.name,
+        kind: start.kind,
+        startLine: ranges[index].startLine,
+        endLine: ranges[index].endLine,
+        relations: [...relations],
+      };
+    });
+  }
+
+  /**
+   * CREATE TABLE / VIEW / FUNCTION statements; foreign keys declared inline
+   * or through `ALTER TABLE ... REFERENCES` become relations of the table
+   */
+  private parseSql(content: string): SchemaDefinition[] {
+    const definitions: SchemaDefinition[] = [];
+    const foreignKeys: Array<{ table: string; target: string }> = [];
+
+    for (const statement of this.splitSqlStatements(content)) {
+      if (SQL_FOREIGN_KEY.test(statement.text)) {
+        const match = statement.text.match(SQL_FOREIGN_KEY)!;
+        foreignKeys.push({ table: this.sqlName(match[1]), target: this.sqlName(match[2]) });
+        continue;
+      }
+
+      for (const { kind, pattern } of SQL_DEFINITIONS) {
+        const match = statement.text.match(pattern);
+        if (!match) continue;
+
+        const name = this.sqlName(match[match.length - 1]);
+        const relations =
+          kind === 'table'
+            ? [...statement.text.matchAll(/\bREFERENCES\s+([\w."`[\]]+)/gi)].map((m) => this.sqlName(m[1]))
+            : [];
+        definitions.push({
+          name,
+          kind: kind === 'function' ? match[1].toLowerCase() : kind,
+          startLine: statement.startLine,
+          endLine: statement.endLine,
+          relations,
+        });
+        break;
+      }
+    }
+
+    // Views and functions relate to the tables they mention
+    const tables = definitions.filter((d) => d.kind === 'table').map((d) => d.name);
+    // `users` and `public.users` name the same table
+    const tableName = (name: string) =>
+      tables.find((t) => t === name) ?? tables.find((t) => t.split('.').pop() === name.split('.').pop()) ?? name;
+
+    for (const definition of definitions) {
+      if (definition.kind === 'table') {
+        const targets = foreignKeys.filter((fk) => tableName(fk.table) === definition.name).map((fk) => fk.target);
+        definition.relations = [...definition.relations, ...targets].map(tableName);
+      } else {
+        const body = statementsText(content, definition);
+        definition.relations.push(
+          ...tables.filter((t) => new RegExp(`(^|[^\\w])"?${escapeRegExp(t.split('.').pop()!)}"?([^\\w]|$)`).test(body))
+        );
+      }
+      definition.relations = [...new Set(definition.relations)].filter((r) => r !== definition.name);
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Split SQL at semicolons outside strings, comments and dollar-quoted
+   * bodies, with leading comments attached to the statement that follows
+   */
+  private splitSqlStatements(content: string): Array<{ text: string; startLine: number; endLine: number }> {
+    const statements: Array<{ text: string; startLine: number; endLine: number }> = [];
+    let line = 0;
+    let start = 0;
+    let startLine = 0;
+    let codeStarted = false;
+
+    const push = (end: number, endLine: number) => {
+      const text = content.slice(start, end).trim();
+      if (codeStarted && text) {
+        // Statement text without its leading comments, for matching
+        const code = text.replace(/^(\s*(--[^\n]*|\/\*[\s\S]*?\*\/))*\s*/, '');
+        statements.push({ text: code, startLine, endLine });
+      }
+      codeStarted = false;
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const ch = content[i];
+
+      if (ch === '\n') {
+        line++;
+        continue;
+      }
+      if (/\s/.test(ch)) continue;
+
+      if (!codeStarted && start <= i && content.slice(start, i).trim() === '') {
+        startLine = line;
+      }
+
+      if (ch === '-' && content[i + 1] === '-') {
+        const end = content.indexOf('\n', i);
+        i = (end === -1 ? content.length : end) - 1;
+        continue;
+      }
+      if (ch === '/' && content[i + 1] === '*') {
+        const end = content.indexOf('*/', i + 2);
+        const stop = end === -1 ? content.length : end + 2;
+        line += (content.slice(i, stop).match(/\n/g) ?? []).length;
+        i = stop - 1;
+        continue;
+      }
+
+      codeStarted = true;
+
+      if (ch === "'" || ch === '"' || ch === '`') {
+        let j = i + 1;
+        while (j < content.length && content[j] !== ch) j++;
+        line += (content.slice(i, j).match(/\n/g) ?? []).length;
+        i = j;
+      } else if (ch === '$') {
+        // Dollar-quoted function bodies: $$ ... $$ or $tag$ ... $tag$
+        const tag = content.slice(i).match(/^\$\w*\$/)?.[0];
+        if (tag) {
+          const end = content.indexOf(tag, i + tag.length);
+          const stop = end === -1 ? content.length : end + tag.length;
+          line += (content.slice(i, stop).match(/\n/g) ?? []).length;
+          i = stop - 1;
+        }
+      } else if (ch === ';') {
+        push(i + 1, line);
+        start = i + 1;
+      }
+    }
+    push(content.length, line);
+
+    return statements;
+  }
+
+  /**
+   * Top-level definitions; fields of Query/Mutation/Subscription become
+   * definitions of their own
+   */
+  private parseGraphql(lines: string[]): SchemaDefinition[] {
+    const starts = lines.flatMap((line, i) => {
+      const match = line.match(GRAPHQL_DEFINITION);
+      return match ? [{ line: i, kind: match[2], name: match[3] || match[2], extended: Boolean(match[1]) }] : [];
+    });
+    const ranges = this.rangesFromStarts(lines, starts.map((s) => s.line), ['#', '"']);
+    const typeNames = new Set(
+      starts.filter((s) => !['query', 'mutation', 'subscription', 'fragment', 'directive', 'schema'].includes(s.kind)).map((s) => s.name)
+    );
+
+    const definitions: SchemaDefinition[] = [];
+    starts.forEach((start, index) => {
+      const { startLine, endLine } = ranges[index];
+
+      if (start.kind === 'type' && GRAPHQL_ROOT_TYPES.has(start.name)) {
+        const fields = this.graphqlFields(lines, start.line, endLine);
+        if (fields.length > 0) {
+          for (const field of fields) {
+            definitions.push({
+              name: `${start.name}.${field.name}`,
+              kind: start.name.toLowerCase(),
+              startLine: field.startLine,
+              endLine: field.endLine,
+              relations: this.graphqlTypeRefs(lines, field.startLine, field.endLine, typeNames, null),
+            });
+          }
+          return;
+        }
+      }
+
+      definitions.push({
+        name: start.name,
+        kind: start.extended ? `extend ${start.kind}` : start.kind,
+        startLine,
+        endLine,
+        relations: this.graphqlTypeRefs(lines, start.line, endLine, typeNames, start.name),
+      });
+    });
+
+    return definitions;
+  }
+
+  /**
+   * Fields at the top level of a `{ ... }` block, with their descriptions
+   */
+  private graphqlFields(
+    lines: string[],
+    headerLine: number,
+    endLine: number
+  ): Array<{ name: string; startLine: number; endLine: number }> {
+    const fields: Array<{ name: string; startLine: number; endLine: number }> = [];
+    let depth = 0;
+    let docStart: number | null = null;
+    let inBlockString = false;
+
+    for (let i = headerLine; i <= endLine; i++) {
+      const line = lines[i];
+      const trimmed = line.trim();
+      const depthAtStart = depth;
+
+      // Descriptions ("..." or """...""") and comments belong to the next field
+      if (i > headerLine && depthAtStart === 1 && (inBlockString || trimmed.startsWith('"') || trimmed.startsWith('#'))) {
+        docStart ??= i;
+        const quotes = (trimmed.match(/"""/g) ?? []).length;
+        if (quotes % 2 === 1) inBlockString = !inBlockString;
+        continue;
+      }
+
+      for (const ch of line.replace(/#.*$/, '').replace(/"[^"]*"/g, '')) {
+        if (ch === '{' || ch === '(') depth++;
+        if (ch === '}' || ch === ')') depth--;
+      }
+
+      const name = trimmed.match(/^(\w+)/)?.[1];
+      if (i > headerLine && depthAtStart === 1 && name) {
+        fields.push({ name, startLine: docStart ?? i, endLine: i });
+      } else if (fields.length > 0 && depthAtStart > 1) {
+        // Multi-line arguments
+        fields[fields.length - 1].endLine = i;
+      }
+      if (trimmed) docStart = null;
+    }
+
+    return fields;
+  }
+
+  /**
+   * Named types used in a definition (field, argument and union member
+   * types, implemented interfaces) that are defined in the same file
+   */
+  private graphqlTypeRefs(
+    lines: string[],
+    startLine: number,
+    endLine: number,
+    typeNames: Set<string>,
+    self: string | null
+  ): string[] {
+    const body = lines
+      .slice(startLine, endLine + 1)
+      .map((line) => line.replace(/#.*$/, '').replace(/"[^"]*"/g, ''))
+      .join('\n');
+    const refs = [...body.matchAll(/[:=|&]\s*\[*\s*(\w+)|\bimplements\s+(\w+)/g)]
+      .map((m) => m[1] ?? m[2])
+      .filter((name) => name !== self && typeNames.has(name) && !GRAPHQL_BUILTIN_SCALARS.has(name));
+    return [...new Set(refs)];
+  }
+
+  /**
+   * Line ranges for definitions starting at the given lines: each runs up to
+   * the next one, with comments directly above a definition attached to it
+   */
+  private rangesFromStarts(
+    lines: string[],
+    starts: number[],
+    commentPrefixes: string[]
+  ): Array<{ startLine: number; endLine: number }> {
+    const isComment = (line: string) => commentPrefixes.some((p) => line.trimStart().startsWith(p));
+
+    const firstLines = starts.map((start, index) => {
+      const floor = index > 0 ? starts[index - 1] + 1 : 0;
+      let first = start;
+      while (first > floor && isComment(lines[first - 1])) first--;
+      return first;
+    });
+
+    return starts.map((start, index) => {
+      let end = index + 1 < starts.length ? firstLines[index + 1] - 1 : lines.length - 1;
+      while (end > start && !lines[end].trim()) end--;
+      return { startLine: firstLines[index], endLine: end };
+    });
+  }
+
+  private createDefinitionChunks(
+    definition: SchemaDefinition,
+    symbolPath: string,
+    lines: string[],
+    filePath: string,
+    language: SchemaLanguage,
+    repositoryId: string,
+    commitSha: string,
+    parentChunkId: string
+  ): CodeChunkData[] {
+    const signature = `${definition.kind} ${definition.name}`;
+    const parts = this.splitter.split(lines, definition.startLine, definition.endLine, null, signature, language);
+
+    return parts.map((part, index) => ({
+      id: createChunkId({ sourceId: repositoryId, filePath, symbolPath, part: `schema:${index}` }),
+      repositoryId,
+      level: 'implementation',
+      type: 'schema',
+      language,
+      content: part.content,
+      signature: parts.length > 1 ? `${signature} [part ${index + 1}]` : signature,
+      symbolName: definition.name,
+      qualifiedName: definition.name,
+      filePath,
+      startLine: part.startLine,
+      endLine: part.endLine,
+      commitSha,
+      contentHash: this.hashContent(part.content),
+      imports: [],
+      exports: [],
+      relations: definition.relations,
+      parentChunkId,
+      childChunkIds: [],
+    }));
+  }
+
+  private createFileSummaryChunk(
+    definitions: SchemaDefinition[],
+    filePath: string,
+    language: SchemaLanguage,
+    repositoryId: string,
+    commitSha: string,
+    fullContent: string
+  ): CodeChunkData {
+    const outline = definitions
+      .map((d) => `- ${d.kind} ${d.name}${d.relations.length > 0 ? ` -> ${d.relations.join(', ')}` : ''}`)
+      .join('\n');
+    const summary = `File: ${filePath}\nDefinitions: ${definitions.length}\n\n${outline}`;
+
+    return {
+      id: createChunkId({ sourceId: repositoryId, filePath, symbolPath: '', part: 'file' }),
+      repositoryId,
+      level: 'summary',
+      type: 'file_summary',
+      language,
+      content: summary,
+      signature: `File: ${filePath}`,
+      symbolName: filePath.split('/').pop() ?? filePath,
+      filePath,
+      startLine: 0,
+      endLine: fullContent.split('\n').length - 1,
+      commitSha,
+      contentHash: this.hashContent(fullContent),
+      imports: [],
+      exports: definitions.map((d) => d.name),
+      parentChunkId: null,
+      childChunkIds: [],
+    };
+  }
+
+  /**
+   * Identifier without quoting, e.g. `"public"."User"` -> `public.User`
+   */
+  private sqlName(raw: string): string {
+    return raw.replace(/["`[\]]/g, '');
+  }
+
+  private hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
+
+function statementsText(content: string, definition: SchemaDefinition): string {
+  return content.split('\n').slice(definition.startLine, definition.endLine + 1).join('\n');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const schemaChunker = new SchemaChunker();
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { SupportedLanguage } from '@context8/types';
+import { treeSitterParser } from '../tree-sitter-parser.js';
+import { SymbolExtractor } from './symbol-extractor.js';
+
+const extractor = new SymbolExtractor(treeSitterParser);
+
+function symbols(content: string, language: SupportedLanguage, filePath?: string) {
+  const tree = treeSitterParser.parse(content, language, filePath);
+  return extractor.extract(tree, content, language);
+}
+
+function visibilities(content: string, language: SupportedLanguage, filePath?: string) {
+  return Object.fromEntries(symbols(content, language, filePath).map((s) => [s.name, s.visibility]));
+}
+
+describe('SymbolExtractor Java', () => {
+  it('reports members without an access modifier as package-private', () => {
+    const content = [
+      'public class Account {',
+      '  public void open() {}',
+      '  protected void audit() {}',
+      '  private void lock() {}',
+      '  void close() {}',
+      '  static void reset() {}',
+      '}',
+      '',
+      'class Helper {}',
+      '',
+      'interface Store {',
+      '  void save();',
+      '}',
+    ].join('\n');
+
+    expect(visibilities(content, 'java')).toEqual({
+      Account: 'public',
+      open: 'public',
+      audit: 'protected',
+      lock: 'private',
+      close: 'internal',
+      reset: 'internal',
+      Helper: 'internal',
+      Store: 'internal',
+      save: 'public',
+    });
+  });
+
+  it('marks Javadoc @deprecated tags as deprecated', () => {
+    const content = [
+      '/**',
+      ' * Legacy store.',
+      ' *',
+      ' *   @deprecated use {@link Store}',
+      ' */',
+      'public class LegacyStore {',
+      '  /** @deprecated */',
+      '  @Override',
+      '  public void save() {}',
+      '',
+      '  /** Still supported. */',
+      '  public void load() {}',
+      '}',
+    ].join('\n');
+    const [store, save, load] = symbols(content, 'java');
+
+    expect(store.deprecated).toBe(true);
+    expect(store.docComment).toMatchObject({ description: 'Legacy store.', deprecated: 'use {@link Store}' });
+    expect(save.deprecated).toBe(true);
+    expect(load.deprecated).toBe(false);
+  });
+});
+
+describe('SymbolExtractor TypeScript', () => {
+  it('extracts #private methods and function-valued fields as private members', () => {
+    const content = [
+      'export class Queue {',
+      '  #items: string[] = [];',
+      '  #drain() {}',
+      '  #onTick = () => this.#drain();',
+      '  private flush = function () {};',
+      '  push(item: string) {}',
+      '}',
+    ].join('\n');
+    const methods = symbols(content, 'typescript').filter((s) => s.type === 'method');
+
+    expect(methods.map((s) => [s.qualifiedName, s.visibility])).toEqual([
+      ['Queue.#drain', 'private'],
+      ['Queue.#onTick', 'private'],
+      ['Queue.flush', 'private'],
+      ['Queue.push', 'public'],
+    ]);
+    expect(methods.find((s) => s.name === '#onTick')!.signature).toBe('#onTick = () =>');
+  });
+});
@@ -1,8 +1,34 @@
 import type Parser from 'tree-sitter';
 import type { SupportedLanguage, ChunkType } from '@context8/types';
-import type { ExtractedSymbol } from '../types.js';
+import type { DocComment, ExtractedSymbol, Visibility } from '../types.js';
 import { TreeSitterParser } from '../tree-sitter-parser.js';
-import { TYPESCRIPT_QUERIES, PYTHON_QUERIES } from './queries.js';
+import { languageRegistry } from '../languages/index.js';
+
+/**
+ * Node types that open a naming scope for the symbols declared inside them
+ */
+const SCOPE_NODE_TYPES = new Set([
+  'class_declaration',
+  'abstract_class_declaration',
+  'class_definition',
+  'class',
+  'interface_declaration',
+  'enum_declaration',
+  'record_declaration',
+  'internal_module',
+  'trait_item',
+  'impl_item',
+  'mod_item',
+  'function_declaration',
+  'generator_function_declaration',
+  'function_definition',
+  'function_item',
+  'method_definition',
+  'method_declaration',
+  'constructor_declaration',
+  'arrow_function',
+  'function_expression',
+]);
 
 /**
  * Extract symbols from AST
@@ -21,29 +47,39 @@ export class SymbolExtractor {
     const symbols: ExtractedSymbol[] = [];
     const _lines = content.split('\n');
 
-    if (language === 'typescript') {
-      const queries = TYPESCRIPT_QUERIES;
-      // Extract functions
-      this.extractByQuery(tree, language, queries.functions, 'function', _lines, symbols);
-      // Extract classes
-      this.extractByQuery(tree, language, queries.classes, 'class', _lines, symbols);
-      // Extract methods
-      this.extractByQuery(tree, language, queries.methods, 'method', _lines, symbols);
-      // Extract interfaces
-      this.extractByQuery(tree, language, queries.interfaces, 'interface', _lines, symbols);
-      // Extract type aliases
-      this.extractByQuery(tree, language, queries.typeAliases, 'type_alias', _lines, symbols);
-    } else {
-      const queries = PYTHON_QUERIES;
-      // Extract functions
-      this.extractByQuery(tree, language, queries.functions, 'function', _lines, symbols);
-      // Extract classes
-      this.extractByQuery(tree, language, queries.classes, 'class', _lines, symbols);
+    for (const { query, type } of languageRegistry.get(language)?.queries ?? []) {
+      this.extractByQuery(tree, language, query, type, _lines, symbols);
     }
 
     return symbols;
   }
 
+  /**
+   * Find the body node of a symbol previously extracted from `tree`
+   */
+  findSymbolBody(tree: Parser.Tree, symbol: ExtractedSymbol): Parser.SyntaxNode | null {
+    let node: Parser.SyntaxNode | null = tree.rootNode.descendantForPosition({
+      row: symbol.startLine,
+      column: symbol.startColumn,
+    });
+
+    // Walk up from the first token to the node the symbol was created from
+    while (node) {
+      const { row, column } = node.endPosition;
+      if (
+        node.startPosition.row === symbol.startLine &&
+        node.startPosition.column === symbol.startColumn &&
+        row === symbol.endLine &&
+        column === symbol.endColumn
+      ) {
+        return this.findBodyNode(node);
+      }
+      node = node.parent;
+    }
+
+    return null;
+  }
+
   private extractByQuery(
     tree: Parser.Tree,
     language: SupportedLanguage,
@@ -53,14 +89,19 @@ export class SymbolExtractor {
     symbols: ExtractedSymbol[]
   ): void {
     try {
-      const captures = this.parser.query(tree, language, queryString);
+      const matches = this.parser.queryMatches(tree, language, queryString);
 
-      for (const capture of captures) {
-        if (this.isTopLevelCapture(capture.name)) {
-          const symbol = this.nodeToSymbol(capture.node, lines, defaultType);
-          if (symbol) {
-            symbols.push(symbol);
-          }
+      for (const match of matches) {
+        const capture = match.captures.find((c) => this.isTopLevelCapture(c.name));
+        if (!capture) continue;
+
+        // Decorated definitions are captured as a whole, skip the bare inner match
+        if (capture.node.parent?.type === 'decorated_definition') continue;
+
+        const nameNode = match.captures.find((c) => c.name === 'name')?.node ?? null;
+        const symbol = this.nodeToSymbol(capture.node, lines, defaultType, language, nameNode);
+        if (symbol) {
+          symbols.push(symbol);
         }
       }
     } catch (error) {
@@ -70,36 +111,75 @@ export class SymbolExtractor {
   }
 
   private isTopLevelCapture(name: string): boolean {
-    return ['function', 'class', 'method', 'interface', 'type_alias', 'decorated_function', 'decorated_class'].includes(name);
+    return [
+      'function',
+      'class',
+      'method',
+      'interface',
+      'type_alias',
+      'struct',
+      'enum',
+      'trait',
+      'impl',
+      'module',
+      'decorated_function',
+      'decorated_class',
+    ].includes(name);
   }
 
   private nodeToSymbol(
     node: Parser.SyntaxNode,
     lines: string[],
-    type: ChunkType
+    type: ChunkType,
+    language: SupportedLanguage,
+    nameNode: Parser.SyntaxNode | null = null
   ): ExtractedSymbol | null {
-    const name = this.extractName(node);
+    const name = nameNode ? this.resolveCapturedName(nameNode) : this.extractName(node);
     if (!name) return null;
 
     const signature = this.extractSignature(node, lines);
-    const docstring = this.extractDocstring(node, lines);
+    const docstring = this.extractDocstring(node, lines, language);
+    const docComment = this.parseDocComment(docstring, language);
+    const decorators = this.extractDecorators(node, language);
+    const parentSymbol = this.extractParentSymbol(node);
+
+    // Python has no method syntax: functions defined in a class body are methods
+    if (language === 'python' && type === 'function' && this.findEnclosingScope(node)?.type === 'class_definition') {
+      type = 'method';
+    }
 
     return {
       name,
       type,
       signature,
       docstring,
+      docComment,
       startLine: node.startPosition.row,
       endLine: node.endPosition.row,
       startColumn: node.startPosition.column,
       endColumn: node.endPosition.column,
       bodyStartLine: this.findBodyStartLine(node),
-      decorators: this.extractDecorators(node, lines),
-      visibility: this.extractVisibility(node),
-      parentSymbol: this.extractParentSymbol(node),
+      decorators,
+      visibility: this.extractVisibility(node, language, name),
+      deprecated: this.isDeprecated(docstring, docComment, decorators, language),
+      parentSymbol,
+      qualifiedName: parentSymbol ? `${parentSymbol}.${name}` : name,
+      outline: this.extractOutline(node, lines),
     };
   }
 
+  private resolveCapturedName(nameNode: Parser.SyntaxNode): string {
+    // CommonJS: `module.exports.foo` / `exports.foo` -> `foo`
+    if (nameNode.type === 'member_expression') {
+      return nameNode.text.replace(/^(module\.)?exports\.?/, '') || 'module.exports';
+    }
+    // Rust: `impl<T> Foo<T>` is named after `Foo`, matching its methods' parent
+    if (nameNode.type === 'generic_type') {
+      return nameNode.childForFieldName('type')?.text ?? nameNode.text;
+    }
+    return nameNode.text;
+  }
+
   private extractName(node: Parser.SyntaxNode): string | null {
     // Find name child node
     const nameNode = node.childForFieldName('name');
@@ -122,111 +202,441 @@ export class SymbolExtractor {
     let endLine = startLine;
 
     // Find where the signature ends (before the body block)
-    const bodyNode = node.childForFieldName('body');
+    const bodyNode = this.findBodyNode(node);
     if (bodyNode) {
       endLine = bodyNode.startPosition.row;
     }
 
-    // Extract lines up to body
+    // Extract lines up to body, starting at the node's own column
     const signatureLines = lines.slice(startLine, endLine + 1);
-    let signature = signatureLines.join('\n');
+    if (signatureLines.length === 0) return '';
+
+    const lastIndex = signatureLines.length - 1;
+    if (bodyNode) {
+      signatureLines[lastIndex] = signatureLines[lastIndex].slice(0, bodyNode.startPosition.column);
+    } else if (node.endPosition.row === endLine) {
+      signatureLines[lastIndex] = signatureLines[lastIndex].slice(0, node.endPosition.column);
+    }
+    signatureLines[0] = signatureLines[0].slice(node.startPosition.column);
 
-    // Trim to just the signature (before opening brace or colon)
-    const braceIndex = signature.indexOf('{');
-    const colonIndex = signature.lastIndexOf(':');
+    let signature = signatureLines.join('\n').trim();
 
-    if (braceIndex > -1) {
-      signature = signature.substring(0, braceIndex).trim();
-    } else if (node.type.includes('python') && colonIndex > -1) {
-      signature = signature.substring(0, colonIndex + 1).trim();
+    // Go type specs don't include the `type` keyword of their declaration
+    if (node.type === 'type_spec' || node.type === 'type_alias') {
+      signature = `type ${signature}`;
+    }
+
+    // Without a body node, trim to just the signature (before opening brace)
+    if (!bodyNode) {
+      const braceIndex = signature.indexOf('{');
+      if (braceIndex > -1) {
+        signature = signature.substring(0, braceIndex).trim();
+      }
     }
 
     return signature;
   }
 
-  private extractDocstring(node: Parser.SyntaxNode, _lines: string[]): string | null {
+  /**
+   * Find the body block of a symbol, looking through wrappers such as
+   * decorated definitions, `const f = () => {}` and `memo(function C() {})`
+   */
+  private findBodyNode(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
     const bodyNode = node.childForFieldName('body');
-    if (!bodyNode) return null;
+    if (bodyNode) return bodyNode;
+
+    // Python decorated definitions wrap the actual definition
+    const definition = node.childForFieldName('definition');
+    if (definition) return this.findBodyNode(definition);
+
+    // Variable-bound functions, function-valued class fields and CommonJS assignments
+    const binding = node.type === 'public_field_definition' ? node : node.namedChildren.find(
+      (child) => child.type === 'variable_declarator' || child.type === 'assignment_expression'
+    );
+    const value = binding?.childForFieldName('value') ?? binding?.childForFieldName('right');
+    if (!value) return null;
+
+    if (value.type === 'call_expression') {
+      // forwardRef((props, ref) => ...) / memo(function C() {})
+      const fn = value
+        .childForFieldName('arguments')
+        ?.namedChildren.find((arg) => arg.type === 'arrow_function' || arg.type === 'function_expression');
+      return fn?.childForFieldName('body') ?? null;
+    }
+
+    return value.childForFieldName('body');
+  }
+
+  private extractDocstring(
+    node: Parser.SyntaxNode,
+    _lines: string[],
+    language: SupportedLanguage
+  ): string | null {
+    const rules = languageRegistry.get(language)?.docstring ?? {};
 
     // Look for string at start of body (docstring)
-    const firstChild = bodyNode.firstChild;
-    if (!firstChild) return null;
+    const firstChild = this.findBodyNode(node)?.firstNamedChild;
 
     // Python docstring
-    if (firstChild.type === 'expression_statement') {
-      const stringNode = firstChild.firstChild;
+    if (rules.bodyString && firstChild?.type === 'expression_statement') {
+      const stringNode = firstChild.firstNamedChild;
       if (stringNode?.type === 'string') {
-        return this.cleanDocstring(stringNode.text);
+        return this.cleanPythonDocstring(stringNode.text);
       }
     }
 
-    // JSDoc comment (look before the node)
-    const prevSibling = node.previousNamedSibling;
-    if (prevSibling?.type === 'comment' && prevSibling.text.startsWith('/**')) {
+    // JSDoc / Javadoc comment (look before the node)
+    const prevSibling = this.getDocAnchor(node).previousNamedSibling;
+    if (
+      rules.blockComment &&
+      (prevSibling?.type === 'comment' || prevSibling?.type === 'block_comment') &&
+      prevSibling.text.startsWith('/**')
+    ) {
       return this.cleanDocstring(prevSibling.text);
     }
 
+    // Go (`//`) and Rust (`///`) line doc comments
+    if (rules.lineCommentPrefix) {
+      return this.extractLineDocComment(node, rules.lineCommentPrefix);
+    }
+
     return null;
   }
 
+  /**
+   * The node a doc comment is attached to: comments sit above `export`
+   * and above any decorators stacked on a class member
+   */
+  private getDocAnchor(node: Parser.SyntaxNode): Parser.SyntaxNode {
+    let anchor = node.parent?.type === 'export_statement' ? node.parent : node;
+    while (anchor.previousNamedSibling?.type === 'decorator') {
+      anchor = anchor.previousNamedSibling;
+    }
+    return anchor;
+  }
+
+  private parseDocComment(docstring: string | null, language: SupportedLanguage): DocComment | null {
+    if (!docstring) return null;
+
+    return languageRegistry.get(language)?.docstring?.parse?.(docstring) ?? null;
+  }
+
+  /**
+   * Collect consecutive line comments directly above a declaration
+   */
+  private extractLineDocComment(node: Parser.SyntaxNode, prefix: string): string | null {
+    // Go doc comments on a single-spec type declaration sit above the `type` keyword
+    let anchor = node;
+    if (!anchor.previousNamedSibling && anchor.parent?.type === 'type_declaration') {
+      anchor = anchor.parent;
+    }
+
+    const commentLines: string[] = [];
+    let expectedRow = anchor.startPosition.row - 1;
+    let sibling = anchor.previousNamedSibling;
+
+    while (sibling) {
+      // Rust attributes (#[derive(...)]) may sit between doc comment and item
+      if (sibling.type === 'attribute_item') {
+        expectedRow = sibling.startPosition.row - 1;
+        sibling = sibling.previousNamedSibling;
+        continue;
+      }
+
+      const isLineComment = sibling.type === 'comment' || sibling.type === 'line_comment';
+      if (!isLineComment || !sibling.text.startsWith(prefix) || sibling.startPosition.row !== expectedRow) {
+        break;
+      }
+
+      commentLines.unshift(sibling.text.slice(prefix.length).trim());
+      expectedRow = sibling.startPosition.row - 1;
+      sibling = sibling.previousNamedSibling;
+    }
+
+    return commentLines.length > 0 ? commentLines.join('\n') : null;
+  }
+
   private cleanDocstring(text: string): string {
-    // Remove triple quotes for Python
-    let cleaned = text.replace(/^['\"]{3}|['\"]{3}$/g, '');
     // Remove JSDoc markers
-    cleaned = cleaned.replace(/^\/\*\*|\*\/$/g, '');
+    let cleaned = text.replace(/^\/\*\*|\*\/$/g, '');
     cleaned = cleaned.replace(/^\s*\*\s?/gm, '');
     return cleaned.trim();
   }
 
+  /**
+   * Strip quotes and string prefixes, then remove the common indentation
+   * of continuation lines (like `inspect.cleandoc`)
+   */
+  private cleanPythonDocstring(text: string): string {
+    const unquoted = text
+      .replace(/^[rRuUbBfF]{0,2}("""|\'\'\'|"|')/, '')
+      .replace(/("""|\'\'\'|"|')$/, '');
+
+    const [first, ...rest] = unquoted.split('\n');
+    const indents = rest
+      .filter((line) => line.trim())
+      .map((line) => line.length - line.trimStart().length);
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+    return [first.trim(), ...rest.map((line) => line.slice(indent).trimEnd())].join('\n').trim();
+  }
+
   private findBodyStartLine(node: Parser.SyntaxNode): number {
-    const bodyNode = node.childForFieldName('body');
+    const bodyNode = this.findBodyNode(node);
     if (bodyNode) {
       return bodyNode.startPosition.row;
     }
-    return node.startPosition.row + 1;
+    // Single-line symbols without a body keep their only line
+    return Math.min(node.startPosition.row + 1, node.endPosition.row);
   }
 
-  private extractDecorators(node: Parser.SyntaxNode, _lines: string[]): string[] {
-    const decorators: string[] = [];
+  private extractDecorators(node: Parser.SyntaxNode, language: SupportedLanguage): string[] {
+    const decorators: Parser.SyntaxNode[] = [];
+
+    switch (language) {
+      case 'python': {
+        // Decorated definitions are captured whole; older callers may pass the inner node
+        const decorated = node.type === 'decorated_definition'
+          ? node
+          : node.parent?.type === 'decorated_definition' ? node.parent : null;
+        decorators.push(...(decorated?.namedChildren.filter((child) => child.type === 'decorator') ?? []));
+        break;
+      }
+
+      case 'typescript':
+      case 'javascript': {
+        // Member decorators (and those of an exported class) are siblings stacked above
+        let sibling = node.previousNamedSibling;
+        while (sibling?.type === 'decorator') {
+          decorators.unshift(sibling);
+          sibling = sibling.previousNamedSibling;
+        }
+        decorators.push(...node.namedChildren.filter((child) => child.type === 'decorator'));
+        break;
+      }
+
+      case 'java': {
+        const modifiers = node.namedChildren.find((child) => child.type === 'modifiers');
+        decorators.push(
+          ...(modifiers?.namedChildren.filter(
+            (child) => child.type === 'marker_annotation' || child.type === 'annotation'
+          ) ?? [])
+        );
+        break;
+      }
 
-    // Check parent for decorated_definition
-    if (node.parent?.type === 'decorated_definition') {
-      for (const child of node.parent.children) {
-        if (child.type === 'decorator') {
-          decorators.push(child.text);
+      case 'rust': {
+        // `#[...]` attributes, possibly interleaved with doc comments
+        let sibling = node.previousNamedSibling;
+        while (sibling && (sibling.type === 'attribute_item' || sibling.type === 'line_comment')) {
+          if (sibling.type === 'attribute_item') decorators.unshift(sibling);
+          sibling = sibling.previousNamedSibling;
         }
+        break;
       }
     }
 
-    return decorators;
+    return decorators.map((decorator) => decorator.text);
   }
 
-  private extractVisibility(node: Parser.SyntaxNode): 'public' | 'private' | 'protected' {
-    // TypeScript: check for accessibility modifier
-    for (const child of node.children) {
-      if (child.type === 'accessibility_modifier') {
-        if (child.text === 'private') return 'private';
-        if (child.text === 'protected') return 'protected';
+  /**
+   * Deprecated via doc tag, decorator/annotation/attribute, or Go's
+   * `Deprecated:` doc paragraph
+   */
+  private isDeprecated(
+    docstring: string | null,
+    docComment: DocComment | null,
+    decorators: string[],
+    language: SupportedLanguage
+  ): boolean {
+    if (docComment?.deprecated != null) return true;
+    if (decorators.some((decorator) => /^(@|#\[)([\w.]+\.)?deprecated\b/i.test(decorator))) return true;
+    return language === 'go' && docstring !== null && /^Deprecated:/m.test(docstring);
+  }
+
+  private extractVisibility(
+    node: Parser.SyntaxNode,
+    language: SupportedLanguage,
+    name: string
+  ): Visibility {
+    switch (language) {
+      case 'go':
+        // Go: exported identifiers start with an uppercase letter
+        return /^[A-Z]/.test(name) ? 'public' : 'private';
+
+      case 'rust': {
+        // Rust: `pub` modifier, trait items are public with the trait
+        if (node.children.some((child) => child.type === 'visibility_modifier')) return 'public';
+        const container = node.parent?.parent;
+        if (container?.type === 'trait_item') return 'public';
+        if (container?.type === 'impl_item' && container.childForFieldName('trait')) return 'public';
+        return 'private';
+      }
+
+      case 'java': {
+        // Java: access modifiers live in the `modifiers` node; none means package-private
+        const modifiers = node.children.find((child) => child.type === 'modifiers');
+        const keywords = modifiers?.children.map((child) => child.type) ?? [];
+        if (keywords.includes('public')) return 'public';
+        if (keywords.includes('private')) return 'private';
+        if (keywords.includes('protected')) return 'protected';
+        return this.isImplicitlyPublic(node) ? 'public' : 'internal';
+      }
+
+      case 'typescript':
+      case 'javascript': {
+        // Class members: accessibility modifiers and `#private` names
+        for (const child of node.children) {
+          if (child.type === 'accessibility_modifier') {
+            if (child.text === 'private') return 'private';
+            if (child.text === 'protected') return 'protected';
+          }
+        }
+        if (name.startsWith('#')) return 'private';
+
+        // Top-level declarations an ES module doesn't export are module-private
+        if (this.isModulePrivate(node, name)) return 'private';
+        break;
       }
     }
 
-    // Python: check for underscore prefix
-    const name = this.extractName(node);
-    if (name?.startsWith('__') && !name.endsWith('__')) return 'private';
-    if (name?.startsWith('_')) return 'protected';
+    // Underscore naming conventions (Python, also common in JavaScript)
+    if (name.startsWith('__') && name.endsWith('__')) return 'public';
+    if (name.startsWith('__')) return 'private';
+    if (name.startsWith('_')) return 'protected';
 
     return 'public';
   }
 
+  /**
+   * Java interface and annotation members are public without a modifier
+   */
+  private isImplicitlyPublic(node: Parser.SyntaxNode): boolean {
+    const body = node.parent?.type;
+    return body === 'interface_body' || body === 'annotation_type_body';
+  }
+
+  private isModulePrivate(node: Parser.SyntaxNode, name: string): boolean {
+    const program = node.parent;
+    if (program?.type !== 'program') return false;
+
+    const exportStatements = program.namedChildren.filter((child) => child.type === 'export_statement');
+    if (exportStatements.length === 0) return false; // Script or CommonJS module
+
+    // `export { name }` / `export default name`
+    return !exportStatements.some((statement) => {
+      const clause = statement.namedChildren.find((child) => child.type === 'export_clause');
+      if (clause) {
+        return clause.namedChildren.some((specifier) => specifier.childForFieldName('name')?.text === name);
+      }
+      return statement.childForFieldName('value')?.text === name;
+    });
+  }
+
+  /**
+   * Build the dotted path of enclosing scopes (classes, modules, impls,
+   * functions for closures), e.g. `Outer.Inner` for a method of `Inner`
+   */
   private extractParentSymbol(node: Parser.SyntaxNode): string | null {
+    const path: string[] = [];
+
+    for (let scope = this.findEnclosingScope(node); scope; scope = this.findEnclosingScope(scope)) {
+      const scopeName = this.getScopeName(scope);
+      if (scopeName) path.unshift(scopeName);
+    }
+
+    // Go: methods belong to their receiver type
+    const receiverType = this.extractReceiverType(node);
+    if (receiverType) path.push(receiverType);
+
+    return path.length > 0 ? path.join('.') : null;
+  }
+
+  private findEnclosingScope(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
     let parent = node.parent;
     while (parent) {
-      if (parent.type === 'class_declaration' || parent.type === 'class_definition') {
-        const nameNode = parent.childForFieldName('name');
-        return nameNode?.text ?? null;
+      if (SCOPE_NODE_TYPES.has(parent.type) && this.getScopeName(parent)) {
+        return parent;
       }
       parent = parent.parent;
     }
     return null;
   }
+
+  private getScopeName(node: Parser.SyntaxNode): string | null {
+    switch (node.type) {
+      case 'impl_item':
+        return node.childForFieldName('type')?.text.replace(/<.*>$/, '') ?? null;
+
+      case 'method_declaration': {
+        const name = node.childForFieldName('name')?.text;
+        const receiverType = this.extractReceiverType(node);
+        if (!name) return null;
+        return receiverType ? `${receiverType}.${name}` : name;
+      }
+
+      case 'arrow_function':
+      case 'function_expression': {
+        // Only functions bound to a name form a scope: `const handler = () => {}`
+        const ownName = node.childForFieldName('name')?.text;
+        if (ownName) return ownName;
+        const declarator = node.parent?.type === 'variable_declarator' ? node.parent : null;
+        return declarator?.childForFieldName('name')?.text ?? null;
+      }
+
+      default:
+        return node.childForFieldName('name')?.text ?? null;
+    }
+  }
+
+  private extractReceiverType(node: Parser.SyntaxNode): string | null {
+    if (node.type !== 'method_declaration') return null;
+
+    const receiverType = node
+      .childForFieldName('receiver')
+      ?.namedChildren.find((child) => child.type === 'parameter_declaration')
+      ?.childForFieldName('type');
+    return receiverType ? receiverType.text.replace(/^\*/, '').replace(/\[.*\]$/, '') : null;
+  }
+
+  /**
+   * For container symbols (classes, impls, traits), render the body with
+   * member implementations elided so methods aren't duplicated in the
+   * container's own chunk. Returns null when there is nothing to elide.
+   */
+  private extractOutline(node: Parser.SyntaxNode, lines: string[]): string | null {
+    const body = this.findBodyNode(node);
+    if (!body) return null;
+
+    const elided: Parser.SyntaxNode[] = [];
+    for (const member of body.namedChildren) {
+      const declaration = member.type === 'decorated_definition'
+        ? member.childForFieldName('definition')
+        : member;
+      if (!declaration || !SCOPE_NODE_TYPES.has(declaration.type)) continue;
+
+      // One-liners are already as short as their outline
+      const memberBody = this.findBodyNode(declaration);
+      if (memberBody && memberBody.endPosition.row > member.startPosition.row) {
+        elided.push(memberBody);
+      }
+    }
+
+    if (elided.length === 0) return null;
+
+    // Outline covers the same lines as the implementation chunk would
+    const content = lines.join('\n');
+    const bodyStartRow = body.startPosition.row;
+    let cursor = lines.slice(0, bodyStartRow).reduce((offset, line) => offset + line.length + 1, 0);
+    let outline = '';
+
+    for (const memberBody of elided) {
+      outline += content.slice(cursor, memberBody.startIndex);
+      outline += memberBody.text.startsWith('{') ? '{ ... }' : '...';
+      cursor = memberBody.endIndex;
+    }
+    outline += content.slice(cursor, node.endIndex);
+
+    return outline;
+  }
 }
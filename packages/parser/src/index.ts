@@ -1,3 +1,4 @@
+export * from './languages/index.js';
 export * from './tree-sitter-parser.js';
 export * from './chunker/index.js';
 export * from './types.js';
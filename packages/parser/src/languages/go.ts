@@ -0,0 +1,69 @@
+import Go from 'tree-sitter-go';
+import { dependencyExtractor } from '../chunker/dependency-extractor.js';
+import type { LanguageDefinition } from './language-registry.js';
+
+export const goLanguage: LanguageDefinition = {
+  id: 'go',
+  extensions: ['.go'],
+  grammar: Go,
+  queries: [
+    // Function declarations
+    {
+      type: 'function',
+      query: `
+        (function_declaration
+          name: (identifier) @name
+        ) @function
+      `,
+    },
+    // Methods with receivers
+    {
+      type: 'method',
+      query: `
+        (method_declaration
+          name: (field_identifier) @name
+        ) @method
+      `,
+    },
+    // Struct type declarations
+    {
+      type: 'struct',
+      query: `
+        (type_spec
+          name: (type_identifier) @name
+          type: (struct_type)
+        ) @struct
+      `,
+    },
+    // Interface type declarations
+    {
+      type: 'interface',
+      query: `
+        (type_spec
+          name: (type_identifier) @name
+          type: (interface_type)
+        ) @interface
+      `,
+    },
+    // Type aliases
+    {
+      type: 'type_alias',
+      query: `
+        (type_alias
+          name: (type_identifier) @name
+        ) @type_alias
+      `,
+    },
+  ],
+  docstring: { blockComment: true, lineCommentPrefix: '//' },
+  extractDependencies: (root, deps) => dependencyExtractor.extractGo(root, deps),
+  referenceNodeTypes: ['call_expression', 'type_identifier', 'qualified_type'],
+  builtinNames: [
+    // Predeclared types
+    'any', 'bool', 'byte', 'comparable', 'complex64', 'complex128', 'error', 'float32', 'float64', 'int', 'int8',
+    'int16', 'int32', 'int64', 'rune', 'string', 'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr',
+    // Predeclared functions
+    'append', 'cap', 'clear', 'close', 'complex', 'copy', 'delete', 'imag', 'len', 'make', 'max', 'min', 'new',
+    'panic', 'print', 'println', 'real', 'recover',
+  ],
+};
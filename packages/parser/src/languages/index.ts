@@ -0,0 +1,14 @@
+import { languageRegistry } from './language-registry.js';
+import { typescriptLanguage } from './typescript.js';
+import { javascriptLanguage } from './javascript.js';
+import { pythonLanguage } from './python.js';
+import { goLanguage } from './go.js';
+import { rustLanguage } from './rust.js';
+import { javaLanguage } from './java.js';
+
+export * from './language-registry.js';
+export { typescriptLanguage, javascriptLanguage, pythonLanguage, goLanguage, rustLanguage, javaLanguage };
+
+for (const language of [typescriptLanguage, javascriptLanguage, pythonLanguage, goLanguage, rustLanguage, javaLanguage]) {
+  languageRegistry.register(language);
+}
@@ -0,0 +1,59 @@
+import Java from 'tree-sitter-java';
+import { parseJsDoc } from '../chunker/doc-comment.js';
+import { dependencyExtractor } from '../chunker/dependency-extractor.js';
+import type { LanguageDefinition } from './language-registry.js';
+
+export const javaLanguage: LanguageDefinition = {
+  id: 'java',
+  extensions: ['.java'],
+  grammar: Java,
+  queries: [
+    // Class and record declarations
+    {
+      type: 'class',
+      query: `
+        (class_declaration
+          name: (identifier) @name
+        ) @class
+
+        (record_declaration
+          name: (identifier) @name
+        ) @class
+      `,
+    },
+    // Methods and constructors
+    {
+      type: 'method',
+      query: `
+        (method_declaration
+          name: (identifier) @name
+        ) @method
+
+        (constructor_declaration
+          name: (identifier) @name
+        ) @method
+      `,
+    },
+    // Interface declarations
+    {
+      type: 'interface',
+      query: `
+        (interface_declaration
+          name: (identifier) @name
+        ) @interface
+      `,
+    },
+    // Enum declarations
+    {
+      type: 'enum',
+      query: `
+        (enum_declaration
+          name: (identifier) @name
+        ) @enum
+      `,
+    },
+  ],
+  docstring: { blockComment: true, parse: parseJsDoc },
+  extractDependencies: (root, deps) => dependencyExtractor.extractJava(root, deps),
+  referenceNodeTypes: ['method_invocation', 'object_creation_expression', 'type_identifier', 'superclass', 'super_interfaces'],
+};
@@ -0,0 +1,101 @@
+import JavaScript from 'tree-sitter-javascript';
+import { parseJsDoc } from '../chunker/doc-comment.js';
+import { dependencyExtractor } from '../chunker/dependency-extractor.js';
+import type { LanguageDefinition } from './language-registry.js';
+
+export const javascriptLanguage: LanguageDefinition = {
+  id: 'javascript',
+  extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+  grammar: JavaScript,
+  queries: [
+    // Function declarations and function-valued variables
+    {
+      type: 'function',
+      query: `
+        (function_declaration
+          name: (identifier) @name
+        ) @function
+
+        (generator_function_declaration
+          name: (identifier) @name
+        ) @function
+
+        (lexical_declaration
+          (variable_declarator
+            name: (identifier) @name
+            value: [(arrow_function) (function_expression)]
+          )
+        ) @function
+
+        (variable_declaration
+          (variable_declarator
+            name: (identifier) @name
+            value: [(arrow_function) (function_expression)]
+          )
+        ) @function
+      `,
+    },
+    // React components wrapped in forwardRef / memo
+    {
+      type: 'function',
+      query: `
+        (lexical_declaration
+          (variable_declarator
+            name: (identifier) @name
+            value: (call_expression
+              function: [(identifier) (member_expression)] @wrapper
+            )
+          )
+          (#match? @wrapper "^(React\\\\.)?(forwardRef|memo)$")
+        ) @function
+      `,
+    },
+    // Class declarations
+    {
+      type: 'class',
+      query: `
+        (class_declaration
+          name: (identifier) @name
+        ) @class
+      `,
+    },
+    // Method definitions within classes
+    {
+      type: 'method',
+      query: `
+        (method_definition
+          name: (_) @name
+        ) @method
+      `,
+    },
+    // CommonJS function exports: module.exports = fn, exports.foo = fn
+    {
+      type: 'function',
+      query: `
+        (expression_statement
+          (assignment_expression
+            left: (member_expression) @name
+            right: [(function_expression) (arrow_function) (class)]
+          )
+          (#match? @name "^(module\\\\.)?exports(\\\\.[A-Za-z_$][A-Za-z0-9_$]*)?$")
+        ) @function
+      `,
+    },
+    // CommonJS object exports: module.exports = { ... }
+    {
+      type: 'module',
+      query: `
+        (expression_statement
+          (assignment_expression
+            left: (member_expression) @name
+            right: (object)
+          )
+          (#match? @name "^module\\\\.exports$")
+        ) @module
+      `,
+    },
+  ],
+  docstring: { blockComment: true, parse: parseJsDoc },
+  extractDependencies: (root, deps) => dependencyExtractor.extractJavaScript(root, deps),
+  referenceNodeTypes: ['call_expression', 'new_expression', 'jsx_opening_element', 'jsx_self_closing_element', 'class_heritage'],
+};
@@ -0,0 +1,116 @@
+import type Parser from 'tree-sitter';
+import type { ChunkType } from '@context8/types';
+import type { DocComment, FileDependencies } from '../types.js';
+
+/**
+ * A tree-sitter query whose matches become symbols of one chunk type.
+ *
+ * The symbol node is captured as `@function`, `@class`, `@method`,
+ * `@interface`, `@type_alias`, `@struct`, `@enum`, `@trait`, `@impl` or
+ * `@module`, and its name (optionally) as `@name`.
+ */
+export interface SymbolQuery {
+  type: ChunkType;
+  query: string;
+}
+
+/**
+ * Where a language keeps the documentation of a declaration
+ */
+export interface DocstringRules {
+  /** A string literal opening the body, like Python docstrings */
+  bodyString?: boolean;
+  /** A `/** ... *\/` comment right above the declaration */
+  blockComment?: boolean;
+  /** Prefix of consecutive line comments right above the declaration, e.g. `///` */
+  lineCommentPrefix?: string;
+  /** Parse the cleaned docstring into params, returns and tags */
+  parse?: (docstring: string) => DocComment | null;
+}
+
+/**
+ * Everything the parser needs to chunk a language
+ */
+export interface LanguageDefinition {
+  /** Language ID stored on chunks and files, e.g. `typescript` */
+  id: string;
+  /** File extensions including the dot, e.g. `['.ts', '.mts']` */
+  extensions: string[];
+  /** Tree-sitter grammar */
+  grammar: unknown;
+  /** Grammars for specific extensions, e.g. TSX for `.tsx` */
+  extensionGrammars?: Record<string, unknown>;
+  /** Symbol queries, run in order */
+  queries: SymbolQuery[];
+  docstring?: DocstringRules;
+  /** Collect the imports and exports of a file */
+  extractDependencies?: (root: Parser.SyntaxNode, deps: FileDependencies) => void;
+  /** Node types that reference another symbol, for the call graph */
+  referenceNodeTypes?: string[];
+  /** Predeclared names (builtin functions, types and decorators) that are not references to the source */
+  builtinNames?: string[];
+}
+
+/**
+ * Languages the parser can chunk, looked up by ID or file extension.
+ *
+ * Built-in languages are registered when the package is loaded; other
+ * packages can register their own (or replace a built-in one) before indexing.
+ */
+export class LanguageRegistry {
+  private languages = new Map<string, LanguageDefinition>();
+  private byExtension = new Map<string, LanguageDefinition>();
+
+  /**
+   * Add a language; registering an ID again replaces the earlier definition
+   */
+  register(definition: LanguageDefinition): void {
+    const previous = this.languages.get(definition.id);
+    for (const ext of previous?.extensions ?? []) {
+      if (this.byExtension.get(ext) === previous) this.byExtension.delete(ext);
+    }
+
+    this.languages.set(definition.id, definition);
+    for (const ext of definition.extensions) {
+      this.byExtension.set(ext.toLowerCase(), definition);
+    }
+  }
+
+  get(id: string): LanguageDefinition | undefined {
+    return this.languages.get(id);
+  }
+
+  /**
+   * Language of a file, by its extension
+   */
+  detect(filePath: string): LanguageDefinition | undefined {
+    return this.byExtension.get(extensionOf(filePath));
+  }
+
+  /**
+   * Grammar for a file; some languages use another grammar for some extensions
+   */
+  grammarFor(definition: LanguageDefinition, filePath?: string): unknown {
+    const ext = filePath ? extensionOf(filePath) : '';
+    return definition.extensionGrammars?.[ext] ?? definition.grammar;
+  }
+
+  list(): LanguageDefinition[] {
+    return [...this.languages.values()];
+  }
+
+  /**
+   * Extension -> language ID of every registered language
+   */
+  extensions(): Record<string, string> {
+    return Object.fromEntries([...this.byExtension].map(([ext, definition]) => [ext, definition.id]));
+  }
+}
+
+function extensionOf(filePath: string): string {
+  const fileName = filePath.slice(filePath.lastIndexOf('/') + 1);
+  const lastDot = fileName.lastIndexOf('.');
+  return lastDot > 0 ? fileName.slice(lastDot).toLowerCase() : '';
+}
+
+export const languageRegistry = new LanguageRegistry();
@@ -0,0 +1,58 @@
+import Python from 'tree-sitter-python';
+import { parsePythonDocstring } from '../chunker/doc-comment.js';
+import { dependencyExtractor } from '../chunker/dependency-extractor.js';
+import type { LanguageDefinition } from './language-registry.js';
+
+export const pythonLanguage: LanguageDefinition = {
+  id: 'python',
+  extensions: ['.py', '.pyi'],
+  grammar: Python,
+  queries: [
+    // Function definitions
+    {
+      type: 'function',
+      query: `
+        (function_definition
+          name: (identifier) @name
+        ) @function
+
+        (decorated_definition
+          definition: (function_definition
+            name: (identifier) @name
+          )
+        ) @decorated_function
+      `,
+    },
+    // Class definitions
+    {
+      type: 'class',
+      query: `
+        (class_definition
+          name: (identifier) @name
+        ) @class
+
+        (decorated_definition
+          definition: (class_definition
+            name: (identifier) @name
+          )
+        ) @decorated_class
+      `,
+    },
+  ],
+  docstring: { bodyString: true, parse: parsePythonDocstring },
+  extractDependencies: (root, deps) => dependencyExtractor.extractPython(root, deps),
+  referenceNodeTypes: ['call', 'class_definition', 'type', 'decorator'],
+  builtinNames: [
+    // Decorators
+    'staticmethod', 'classmethod', 'property',
+    // Types
+    'bool', 'bytearray', 'bytes', 'complex', 'dict', 'float', 'frozenset', 'int', 'list', 'object', 'set', 'str',
+    'tuple', 'type',
+    // Functions
+    'abs', 'aiter', 'all', 'anext', 'any', 'ascii', 'bin', 'breakpoint', 'callable', 'chr', 'compile', 'delattr',
+    'dir', 'divmod', 'enumerate', 'eval', 'exec', 'filter', 'format', 'getattr', 'globals', 'hasattr', 'hash',
+    'help', 'hex', 'id', 'input', 'isinstance', 'issubclass', 'iter', 'len', 'locals', 'map', 'max', 'memoryview',
+    'min', 'next', 'oct', 'open', 'ord', 'pow', 'print', 'range', 'repr', 'reversed', 'round', 'setattr', 'slice',
+    'sorted', 'sum', 'super', 'vars', 'zip',
+  ],
+};
@@ -0,0 +1,107 @@
+import Rust from 'tree-sitter-rust';
+import { dependencyExtractor } from '../chunker/dependency-extractor.js';
+import type { LanguageDefinition } from './language-registry.js';
+
+export const rustLanguage: LanguageDefinition = {
+  id: 'rust',
+  extensions: ['.rs'],
+  grammar: Rust,
+  queries: [
+    // Free functions (module level)
+    {
+      type: 'function',
+      query: `
+        (source_file
+          (function_item
+            name: (identifier) @name
+          ) @function
+        )
+
+        (mod_item
+          body: (declaration_list
+            (function_item
+              name: (identifier) @name
+            ) @function
+          )
+        )
+      `,
+    },
+    // Methods inside impl and trait blocks
+    {
+      type: 'method',
+      query: `
+        (impl_item
+          body: (declaration_list
+            (function_item
+              name: (identifier) @name
+            ) @method
+          )
+        )
+
+        (trait_item
+          body: (declaration_list
+            (function_item
+              name: (identifier) @name
+            ) @method
+          )
+        )
+
+        (trait_item
+          body: (declaration_list
+            (function_signature_item
+              name: (identifier) @name
+            ) @method
+          )
+        )
+      `,
+    },
+    // Struct declarations
+    {
+      type: 'struct',
+      query: `
+        (struct_item
+          name: (type_identifier) @name
+        ) @struct
+      `,
+    },
+    // Enum declarations
+    {
+      type: 'enum',
+      query: `
+        (enum_item
+          name: (type_identifier) @name
+        ) @enum
+      `,
+    },
+    // Trait declarations
+    {
+      type: 'trait',
+      query: `
+        (trait_item
+          name: (type_identifier) @name
+        ) @trait
+      `,
+    },
+    // Impl blocks
+    {
+      type: 'impl',
+      query: `
+        (impl_item
+          type: (_) @name
+        ) @impl
+      `,
+    },
+    // Type aliases
+    {
+      type: 'type_alias',
+      query: `
+        (type_item
+          name: (type_identifier) @name
+        ) @type_alias
+      `,
+    },
+  ],
+  docstring: { blockComment: true, lineCommentPrefix: '///' },
+  extractDependencies: (root, deps) => dependencyExtractor.extractRust(root, deps),
+  referenceNodeTypes: ['call_expression', 'type_identifier', 'scoped_type_identifier', 'impl_item'],
+};
@@ -0,0 +1,96 @@
+import TypeScript from 'tree-sitter-typescript';
+import { parseJsDoc } from '../chunker/doc-comment.js';
+import { dependencyExtractor } from '../chunker/dependency-extractor.js';
+import type { LanguageDefinition } from './language-registry.js';
+
+export const typescriptLanguage: LanguageDefinition = {
+  id: 'typescript',
+  extensions: ['.ts', '.tsx', '.mts', '.cts'],
+  grammar: TypeScript.typescript,
+  extensionGrammars: { '.tsx': TypeScript.tsx },
+  queries: [
+    // Function declarations and arrow functions
+    {
+      type: 'function',
+      query: `
+        (function_declaration
+          name: (identifier) @name
+        ) @function
+
+        (lexical_declaration
+          (variable_declarator
+            name: (identifier) @name
+            value: [(arrow_function) (function_expression)]
+          )
+        ) @function
+      `,
+    },
+    // React components wrapped in forwardRef / memo
+    {
+      type: 'function',
+      query: `
+        (lexical_declaration
+          (variable_declarator
+            name: (identifier) @name
+            value: (call_expression
+              function: [(identifier) (member_expression)] @wrapper
+            )
+          )
+          (#match? @wrapper "^(React\\\\.)?(forwardRef|memo)$")
+        ) @function
+      `,
+    },
+    // Class declarations
+    {
+      type: 'class',
+      query: `
+        (class_declaration
+          name: (type_identifier) @name
+        ) @class
+      `,
+    },
+    // Method definitions and function-valued fields within classes, including `#private` ones
+    {
+      type: 'method',
+      query: `
+        (method_definition
+          name: [(property_identifier) (private_property_identifier)] @name
+        ) @method
+
+        (public_field_definition
+          name: [(property_identifier) (private_property_identifier)] @name
+          value: [(arrow_function) (function_expression)]
+        ) @method
+      `,
+    },
+    // Interface declarations
+    {
+      type: 'interface',
+      query: `
+        (interface_declaration
+          name: (type_identifier) @name
+        ) @interface
+      `,
+    },
+    // Type alias declarations
+    {
+      type: 'type_alias',
+      query: `
+        (type_alias_declaration
+          name: (type_identifier) @name
+        ) @type_alias
+      `,
+    },
+  ],
+  docstring: { blockComment: true, parse: parseJsDoc },
+  extractDependencies: (root, deps) => dependencyExtractor.extractJavaScript(root, deps),
+  referenceNodeTypes: [
+    'call_expression',
+    'new_expression',
+    'type_identifier',
+    'nested_type_identifier',
+    'jsx_opening_element',
+    'jsx_self_closing_element',
+    'class_heritage',
+  ],
+};
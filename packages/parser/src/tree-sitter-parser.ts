@@ -1,59 +1,40 @@
 import Parser from 'tree-sitter';
-import TypeScript from 'tree-sitter-typescript';
-import Python from 'tree-sitter-python';
 import type { SupportedLanguage } from '@context8/types';
+import { languageRegistry } from './languages/index.js';
 
 /**
- * Tree-sitter based parser for TypeScript and Python
+ * Tree-sitter based parser for the languages of the language registry
  */
 export class TreeSitterParser {
-  private parsers: Map<SupportedLanguage, Parser> = new Map();
-
-  constructor() {
-    this.initializeParsers();
-  }
-
-  private initializeParsers(): void {
-    // TypeScript parser
-    const tsParser = new Parser();
-    tsParser.setLanguage(TypeScript.typescript);
-    this.parsers.set('typescript', tsParser);
-
-    // Python parser
-    const pyParser = new Parser();
-    pyParser.setLanguage(Python);
-    this.parsers.set('python', pyParser);
-  }
+  // One parser per grammar, created on first use
+  private parsers: Map<unknown, Parser> = new Map();
+  // Grammar each tree was parsed with, so queries run against the same grammar
+  private treeGrammars: WeakMap<Parser.Tree, unknown> = new WeakMap();
 
   /**
    * Parse source code and return AST
+   *
+   * Pass the file path so extension-specific grammars (e.g. TSX) are used.
    */
-  parse(content: string, language: SupportedLanguage): Parser.Tree {
-    const parser = this.parsers.get(language);
-    if (!parser) {
+  parse(content: string, language: SupportedLanguage, filePath?: string): Parser.Tree {
+    const definition = languageRegistry.get(language);
+    if (!definition) {
       throw new Error(`Unsupported language: ${language}`);
     }
-    return parser.parse(content);
+    const grammar = languageRegistry.grammarFor(definition, filePath);
+    const tree = this.getParser(grammar).parse(content);
+    this.treeGrammars.set(tree, grammar);
+    return tree;
   }
 
   /**
    * Detect language from file extension
+   *
+   * Languages registered from outside the package aren't part of the
+   * `SupportedLanguage` union; their IDs are passed through as is.
    */
   detectLanguage(filePath: string): SupportedLanguage | null {
-    const ext = filePath.split('.').pop()?.toLowerCase();
-
-    switch (ext) {
-      case 'ts':
-      case 'tsx':
-      case 'mts':
-      case 'cts':
-        return 'typescript';
-      case 'py':
-      case 'pyi':
-        return 'python';
-      default:
-        return null;
-    }
+    return (languageRegistry.detect(filePath)?.id as SupportedLanguage | undefined) ?? null;
   }
 
   /**
@@ -67,24 +48,41 @@ export class TreeSitterParser {
    * Get the language object for tree-sitter queries
    */
   getLanguage(language: SupportedLanguage): unknown {
-    switch (language) {
-      case 'typescript':
-        return TypeScript.typescript;
-      case 'python':
-        return Python;
-      default:
-        throw new Error(`Unsupported language: ${language}`);
+    const definition = languageRegistry.get(language);
+    if (!definition) {
+      throw new Error(`Unsupported language: ${language}`);
     }
+    return definition.grammar;
   }
 
   /**
    * Query the AST using tree-sitter query syntax
    */
   query(tree: Parser.Tree, language: SupportedLanguage, queryString: string): Parser.QueryCapture[] {
-    const lang = this.getLanguage(language);
+    return this.createQuery(tree, language, queryString).captures(tree.rootNode);
+  }
+
+  /**
+   * Query the AST and return captures grouped per pattern match
+   */
+  queryMatches(tree: Parser.Tree, language: SupportedLanguage, queryString: string): Parser.QueryMatch[] {
+    return this.createQuery(tree, language, queryString).matches(tree.rootNode);
+  }
+
+  private createQuery(tree: Parser.Tree, language: SupportedLanguage, queryString: string): Parser.Query {
+    const lang = this.treeGrammars.get(tree) ?? this.getLanguage(language);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const query = new Parser.Query(lang as any, queryString);
-    return query.captures(tree.rootNode);
+    return new Parser.Query(lang as any, queryString);
+  }
+
+  private getParser(grammar: unknown): Parser {
+    let parser = this.parsers.get(grammar);
+    if (!parser) {
+      parser = new Parser();
+      parser.setLanguage(grammar);
+      this.parsers.set(grammar, parser);
+    }
+    return parser;
   }
 }
 
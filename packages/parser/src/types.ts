@@ -1,4 +1,12 @@
-import type { SupportedLanguage, ChunkType, ChunkLevel } from '@context8/types';
+import type {
+  SupportedLanguage,
+  ChunkType,
+  ChunkLevel,
+  ExportStatement,
+  ImportStatement,
+  SymbolReference,
+} from '@context8/types';
+import type { TokenizerEncoding } from '@context8/tokenizer';
 
 /**
  * Parser Types
@@ -10,19 +18,47 @@ export interface ParsedFile {
   content: string;
 }
 
+export interface DocParam {
+  name: string;
+  type: string | null;
+  description: string;
+}
+
+/**
+ * Structured view of a JSDoc comment or Python docstring
+ */
+export interface DocComment {
+  description: string;
+  params: DocParam[];
+  returns: string | null;
+  examples: string[];
+  /** Deprecation note; empty string when deprecated without a reason */
+  deprecated: string | null;
+}
+
+/** `internal`: Java package-private (no access modifier) */
+export type Visibility = 'public' | 'private' | 'protected' | 'internal';
+
 export interface ExtractedSymbol {
   name: string;
   type: ChunkType;
   signature: string;
   docstring: string | null;
+  docComment: DocComment | null;
   startLine: number;
   endLine: number;
   startColumn: number;
   endColumn: number;
   bodyStartLine: number;
   decorators: string[];
-  visibility: 'public' | 'private' | 'protected';
+  visibility: Visibility;
+  deprecated: boolean;
+  /** Qualified path of the enclosing symbol, e.g. `Outer.Inner` */
   parentSymbol: string | null;
+  /** Full dotted path including enclosing symbols, e.g. `Outer.Inner.method` */
+  qualifiedName: string;
+  /** Body with member implementations elided, for container symbols */
+  outline: string | null;
 }
 
 export interface CodeChunkData {
@@ -34,6 +70,7 @@ export interface CodeChunkData {
   content: string;
   signature: string | null;
   symbolName: string | null;
+  qualifiedName?: string | null;
   filePath: string;
   startLine: number;
   endLine: number;
@@ -41,20 +78,51 @@ export interface CodeChunkData {
   contentHash: string;
   imports: string[];
   exports: string[];
+  /** Heading breadcrumb for documentation chunks */
+  headingPath?: string[];
+  /** Documentation and modifiers of the symbol a code chunk belongs to */
+  docstring?: string | null;
+  docComment?: DocComment | null;
+  decorators?: string[];
+  visibility?: Visibility;
+  deprecated?: boolean;
+  /** Other definitions a schema chunk refers to (relations, foreign keys) */
+  relations?: string[];
   parentChunkId: string | null;
   childChunkIds: string[];
 }
 
+/**
+ * Imports and exports of a single source file
+ */
+export interface FileDependencies {
+  imports: ImportStatement[];
+  exports: ExportStatement[];
+}
+
+/**
+ * Chunks of a file together with its dependencies, from a single parse
+ */
+export interface FileAnalysis {
+  chunks: CodeChunkData[];
+  /** Null for files without an import system (e.g. Markdown) */
+  dependencies: FileDependencies | null;
+  /** Calls and type references made by the file's code */
+  references: SymbolReference[];
+}
+
 export interface ChunkingOptions {
   maxChunkTokens: number;
   minChunkTokens: number;
-  overlapTokens: number;
-  includeSignatureInBody: boolean;
+  /** BPE encoding used to measure chunk sizes, matching the target model */
+  encoding: TokenizerEncoding;
+  /** Keep small text outputs of notebook cells (stripped by default) */
+  keepNotebookOutputs: boolean;
 }
 
 export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
   maxChunkTokens: 512,
   minChunkTokens: 50,
-  overlapTokens: 50,
-  includeSignatureInBody: true,
+  encoding: 'cl100k_base',
+  keepNotebookOutputs: false,
 };
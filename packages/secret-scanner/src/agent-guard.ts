@@ -0,0 +1,116 @@
+/**
+ * Agent Secret Guard - keeps secrets in source files out of an agent's context
+ */
+
+import { readFile } from 'node:fs/promises';
+import { relative, resolve } from 'node:path';
+import type { HookCallback, HookCallbackMatcher, HookEvent, HookJSONOutput } from '@anthropic-ai/claude-agent-sdk';
+import type { SecretPolicy } from '@context8/types';
+import {
+  DEFAULT_SECRET_POLICY,
+  secretScanner,
+  type FileSecretFinding,
+  type RedactionResult,
+  type SecretScanner,
+} from './scanner.js';
+
+/** Lines the Read tool returns when no limit is given */
+const DEFAULT_READ_LIMIT = 2000;
+
+export interface AgentSecretGuardOptions {
+  /** Directory the agent works in; finding paths are relative to it */
+  rootPath: string;
+  policy?: SecretPolicy;
+  scanner?: SecretScanner;
+  /** Called once per secret of every file the agent tries to read */
+  onFinding?: (finding: FileSecretFinding) => void;
+}
+
+/**
+ * PreToolUse hooks for the agent SDK. Reading a file with secrets returns
+ * its redacted content instead, or nothing under the skip policy. Grep could
+ * print the matched lines of any file, so it only lists matching files.
+ */
+export function createSecretGuardHooks(
+  options: AgentSecretGuardOptions
+): Partial<Record<HookEvent, HookCallbackMatcher[]>> {
+  const policy = options.policy ?? DEFAULT_SECRET_POLICY;
+  if (policy === 'off') return {};
+
+  const scanner = options.scanner ?? secretScanner;
+  const scanned = new Map<string, RedactionResult | null>();
+
+  const scanFile = async (filePath: string): Promise<RedactionResult | null> => {
+    if (scanned.has(filePath)) return scanned.get(filePath)!;
+
+    let result: RedactionResult | null = null;
+    try {
+      const content = await readFile(filePath, 'utf-8');
+      // Binary files are left to the tool
+      if (!content.includes('\0')) result = scanner.redact(content);
+    } catch {
+      // Missing or unreadable; the tool reports the error
+    }
+
+    const relativePath = relative(options.rootPath, filePath);
+    for (const finding of result?.findings ?? []) {
+      options.onFinding?.({ ...finding, filePath: relativePath, skipped: policy === 'skip' });
+    }
+    scanned.set(filePath, result);
+    return result;
+  };
+
+  const guardRead: HookCallback = async (input) => {
+    if (input.hook_event_name !== 'PreToolUse') return {};
+    const { file_path, offset, limit } = input.tool_input as { file_path?: string; offset?: number; limit?: number };
+    if (!file_path) return {};
+
+    const filePath = resolve(input.cwd || options.rootPath, file_path);
+    const result = await scanFile(filePath);
+    if (!result || result.findings.length === 0) return {};
+
+    const relativePath = relative(options.rootPath, filePath);
+    if (policy === 'skip') {
+      return deny(`${relativePath} contains secrets and is excluded from analysis. Do not try to read it.`);
+    }
+
+    const start = Math.max(0, (offset ?? 1) - 1);
+    const lines = result.content.split('\n').slice(start, start + (limit ?? DEFAULT_READ_LIMIT));
+    const numbered = lines.map((line, i) => `${String(start + i + 1).padStart(6)}\t${line}`).join('\n');
+    return deny(
+      `${relativePath} contains secrets, so it can't be read directly. ` +
+        `Its content with the secrets replaced by [REDACTED:...] markers:\n\n${numbered}`
+    );
+  };
+
+  const guardGrep: HookCallback = async (input) => {
+    if (input.hook_event_name !== 'PreToolUse') return {};
+    const toolInput = input.tool_input as Record<string, unknown>;
+    if (toolInput.output_mode !== 'content') return {};
+
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'allow',
+        updatedInput: { ...toolInput, output_mode: 'files_with_matches' },
+      },
+    };
+  };
+
+  return {
+    PreToolUse: [
+      { matcher: 'Read', hooks: [guardRead] },
+      { matcher: 'Grep', hooks: [guardGrep] },
+    ],
+  };
+}
+
+function deny(reason: string): HookJSONOutput {
+  return {
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse',
+      permissionDecision: 'deny',
+      permissionDecisionReason: reason,
+    },
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * @context8/secret-scanner
+ *
+ * Detection and redaction of credentials before content is sent to embedding and LLM providers
+ */
+
+export { SECRET_RULES, isPlaceholder, type SecretRule } from './rules.js';
+export {
+  DEFAULT_SECRET_POLICY,
+  SECRET_POLICIES,
+  SecretScanner,
+  formatSecretFinding,
+  secretScanner,
+  shannonEntropy,
+  type FileSecretFinding,
+  type RedactionResult,
+  type SecretFinding,
+  type SecretScannerOptions,
+} from './scanner.js';
+export type { SecretPolicy } from '@context8/types';
+export { createSecretGuardHooks, type AgentSecretGuardOptions } from './agent-guard.js';
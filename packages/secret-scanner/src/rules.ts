@@ -0,0 +1,72 @@
+/**
+ * Secret Rules - known credential formats
+ */
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  /** Must use the `g` flag */
+  pattern: RegExp;
+  /** Capture group holding the secret; the whole match when omitted */
+  group?: number;
+}
+
+/** Values that look like credentials but are documentation placeholders */
+export const PLACEHOLDER = /^(?:\$\{?[\w.-]+\}?|<[^>]*>|\{\{[^}]*\}\}|%[\w.-]+%|x+|\*+|\.{3}|(?:your[_-]?)?(?:password|passwd|pass|secret|changeme))$/i;
+
+export function isPlaceholder(value: string): boolean {
+  return PLACEHOLDER.test(value);
+}
+
+export const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'PEM private key',
+    pattern: /-----BEGIN ((?:[A-Z0-9]+ )*)PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END \1PRIVATE KEY\2-----/g,
+  },
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern: /aws_?secret(?:_?access)?_?key['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    id: 'slack-webhook',
+    description: 'Slack webhook URL',
+    pattern: /https:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9/_-]+/g,
+  },
+  {
+    id: 'connection-string',
+    description: 'password in a connection string',
+    pattern: /\b(?:postgres(?:ql)?|mysql|mariadb|sqlserver|oracle|mongodb(?:\+srv)?|rediss?|amqps?):\/\/[^\s:@/'"`]+:([^\s@/'"`]+)@/gi,
+    group: 1,
+  },
+  {
+    id: 'jdbc-password',
+    description: 'password in a JDBC URL',
+    pattern: /\bjdbc:[a-z0-9]+:[^\s'"`]*?[?;&](?:password|pwd)=([^&;\s'"`]+)/gi,
+    group: 1,
+  },
+];
+
+/** Quoted values assigned to names that suggest a credential */
+export const ASSIGNED_SECRET =
+  /(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credentials?|auth)[\w.-]*['"]?\s*(?::|=|=>)\s*(['"`])([^'"`\s]{12,})\1/gi;
+
+/** Long quoted strings, checked for randomness */
+export const QUOTED_STRING = /(['"`])([A-Za-z0-9+/=_-]{20,})\1/g;
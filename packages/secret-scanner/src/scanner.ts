@@ -0,0 +1,193 @@
+/**
+ * Secret Scanner - finds credentials in text and redacts them
+ */
+
+import { createHash } from 'node:crypto';
+import type { SecretPolicy } from '@context8/types';
+import { ASSIGNED_SECRET, PLACEHOLDER, QUOTED_STRING, SECRET_RULES, isPlaceholder, type SecretRule } from './rules.js';
+
+export const SECRET_POLICIES: readonly SecretPolicy[] = ['redact', 'skip', 'off'];
+
+export const DEFAULT_SECRET_POLICY: SecretPolicy = 'redact';
+
+/** A detected secret; never holds the secret itself */
+export interface SecretFinding {
+  ruleId: string;
+  description: string;
+  /** 1-based line of the secret's start */
+  line: number;
+  /** 1-based column of the secret's start */
+  column: number;
+}
+
+export interface FileSecretFinding extends SecretFinding {
+  filePath: string;
+  /** Whether the file was left out instead of redacted */
+  skipped: boolean;
+}
+
+export interface RedactionResult {
+  content: string;
+  findings: SecretFinding[];
+}
+
+export interface SecretScannerOptions {
+  rules?: SecretRule[];
+  /** Bits per character a random-looking quoted string needs to count as a secret (default: 4.0) */
+  entropyThreshold?: number;
+  /** The same for key-like values assigned to names like `apiKey` or `password` (default: 3.0) */
+  assignedEntropyThreshold?: number;
+}
+
+interface SecretMatch {
+  start: number;
+  end: number;
+  ruleId: string;
+  description: string;
+}
+
+const HIGH_ENTROPY_RULE = { ruleId: 'high-entropy-string', description: 'high-entropy string' };
+const ASSIGNED_SECRET_RULE = { ruleId: 'assigned-secret', description: 'hardcoded credential' };
+
+export class SecretScanner {
+  /** Changes with the rules and thresholds, so content scanned under other ones can be rescanned */
+  readonly fingerprint: string;
+  private rules: SecretRule[];
+  private entropyThreshold: number;
+  private assignedEntropyThreshold: number;
+
+  constructor(options: SecretScannerOptions = {}) {
+    this.rules = options.rules ?? SECRET_RULES;
+    this.entropyThreshold = options.entropyThreshold ?? 4.0;
+    this.assignedEntropyThreshold = options.assignedEntropyThreshold ?? 3.0;
+
+    const rules = this.rules.map((r) => `${r.id}:${r.pattern}:${r.group ?? 0}`);
+    const checks = [ASSIGNED_SECRET, QUOTED_STRING, PLACEHOLDER, this.entropyThreshold, this.assignedEntropyThreshold];
+    this.fingerprint = createHash('sha256')
+      .update([...rules, ...checks].join('\n'))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Find secrets without changing the content
+   */
+  scan(content: string): SecretFinding[] {
+    return this.toFindings(content, this.findMatches(content));
+  }
+
+  /**
+   * Replace every secret with a marker. Line breaks inside a secret are
+   * kept so line numbers of the redacted content still match the original.
+   */
+  redact(content: string): RedactionResult {
+    const matches = this.findMatches(content);
+    if (matches.length === 0) return { content, findings: [] };
+
+    let redacted = '';
+    let offset = 0;
+    for (const match of matches) {
+      const lineBreaks = content.slice(match.start, match.end).split('\n').length - 1;
+      redacted += content.slice(offset, match.start) + `[REDACTED:${match.ruleId}]` + '\n'.repeat(lineBreaks);
+      offset = match.end;
+    }
+    redacted += content.slice(offset);
+
+    return { content: redacted, findings: this.toFindings(content, matches) };
+  }
+
+  /**
+   * Non-overlapping matches in content order; known formats win over the entropy checks
+   */
+  private findMatches(content: string): SecretMatch[] {
+    const matches: SecretMatch[] = [];
+    const add = (start: number, end: number, rule: { ruleId: string; description: string }) => {
+      if (matches.some((m) => start < m.end && end > m.start)) return;
+      matches.push({ start, end, ...rule });
+    };
+
+    for (const rule of this.rules) {
+      for (const match of content.matchAll(rule.pattern)) {
+        const value = rule.group ? match[rule.group] : match[0];
+        if (!value || isPlaceholder(value)) continue;
+        const start = match.index! + match[0].lastIndexOf(value);
+        add(start, start + value.length, { ruleId: rule.id, description: rule.description });
+      }
+    }
+
+    for (const match of content.matchAll(ASSIGNED_SECRET)) {
+      const value = match[2];
+      if (isPlaceholder(value) || !looksLikeKey(value) || shannonEntropy(value) < this.assignedEntropyThreshold) {
+        continue;
+      }
+      const start = match.index! + match[0].lastIndexOf(value);
+      add(start, start + value.length, ASSIGNED_SECRET_RULE);
+    }
+
+    for (const match of content.matchAll(QUOTED_STRING)) {
+      const value = match[2];
+      if (!looksRandom(value) || shannonEntropy(value) < this.entropyThreshold) continue;
+      const start = match.index! + 1;
+      add(start, start + value.length, HIGH_ENTROPY_RULE);
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+  }
+
+  private toFindings(content: string, matches: SecretMatch[]): SecretFinding[] {
+    const lineStarts = [0];
+    for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+      lineStarts.push(i + 1);
+    }
+
+    return matches.map(({ start, ruleId, description }) => {
+      let line = lineStarts.length - 1;
+      while (lineStarts[line] > start) line--;
+      return { ruleId, description, line: line + 1, column: start - lineStarts[line] + 1 };
+    });
+  }
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Upper and lower case letters and digits mixed, as in generated keys;
+ * skips identifiers, hex hashes and subresource integrity values
+ */
+function looksRandom(value: string): boolean {
+  if (/^sha(?:1|256|384|512)-/.test(value)) return false;
+  return /[a-z]/.test(value) && /[A-Z]/.test(value) && /[0-9]/.test(value);
+}
+
+/**
+ * Values assigned to credential names may also be a single run of letters
+ * and digits, as in hex keys; words joined by separators, such as
+ * `my-kubernetes-secret-name`, are names rather than secrets
+ */
+function looksLikeKey(value: string): boolean {
+  if (looksRandom(value)) return true;
+  return /[A-Za-z]/.test(value) && /[0-9]/.test(value) && !/[-_.:/]/.test(value);
+}
+
+/**
+ * Log line for a finding, e.g. `Redacted AWS access key ID at src/config.ts:12:7`
+ */
+export function formatSecretFinding(finding: FileSecretFinding): string {
+  const location = `${finding.filePath}:${finding.line}:${finding.column}`;
+  return `${finding.skipped ? 'Skipped file with' : 'Redacted'} ${finding.description} at ${location}`;
+}
+
+export const secretScanner = new SecretScanner();
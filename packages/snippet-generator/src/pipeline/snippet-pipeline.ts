@@ -1,8 +1,16 @@
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import { snippetRepository, localSourceRepository, remoteSourceRepository } from '@context8/database';
-import { createProvider, type IEmbeddingProvider } from '@context8/embedding';
+import { snippetRepository, localSourceRepository, remoteSourceRepository, embeddingCacheRepository } from '@context8/database';
+import {
+  createCachedProvider,
+  createProvider,
+  type CachedEmbeddingProvider,
+  type EmbeddingCacheStats,
+} from '@context8/embedding';
 import { QdrantClient } from '@context8/vector-store';
+import { createSecretGuardHooks, type FileSecretFinding } from '@context8/secret-scanner';
+import { getTokenizer, type Tokenizer } from '@context8/tokenizer';
+import { buildProjectContextSection, type ProjectContext } from '@context8/types';
 import { GenerationResultSchema, type GenerationResult, type Snippet } from '../schemas/snippet-schema.js';
 import type {
   SnippetGenerationOptions,
@@ -69,19 +77,23 @@ const AGENT_SYSTEM_PROMPT = `You are an expert Code Architect and Developer Advo
 - For variations (e.g., with/without options), show the full-featured version`;
 
 export class SnippetGenerationPipeline {
-  private embeddingProvider: IEmbeddingProvider;
+  private embeddingProvider: CachedEmbeddingProvider;
   private qdrant: QdrantClient;
   private progressCallback?: ProgressCallback;
   private agentModel: string;
+  private tokenizer: Tokenizer;
 
   constructor(config: PipelineConfig) {
-    this.embeddingProvider = createProvider({
-      provider: config.embeddingConfig.provider as 'openai' | 'bigmodel' | 'voyage',
-      apiKey: config.embeddingConfig.apiKey,
-      baseUrl: config.embeddingConfig.baseUrl,
-      model: config.embeddingConfig.model,
-      dimensions: config.embeddingConfig.dimensions,
-    });
+    this.embeddingProvider = createCachedProvider(
+      createProvider({
+        provider: config.embeddingConfig.provider as 'openai' | 'bigmodel' | 'voyage',
+        apiKey: config.embeddingConfig.apiKey,
+        baseUrl: config.embeddingConfig.baseUrl,
+        model: config.embeddingConfig.model,
+        dimensions: config.embeddingConfig.dimensions,
+      }),
+      embeddingCacheRepository
+    );
 
     this.qdrant = new QdrantClient(
       {
@@ -93,6 +105,7 @@ export class SnippetGenerationPipeline {
     );
 
     this.agentModel = config.agentModel ?? 'claude-sonnet-4-5';
+    this.tokenizer = getTokenizer(config.tokenizerEncoding);
   }
 
   setProgressCallback(callback: ProgressCallback): void {
@@ -101,6 +114,7 @@ export class SnippetGenerationPipeline {
 
   async generate(options: SnippetGenerationOptions): Promise<SnippetGenerationResult> {
     const startTime = Date.now();
+    const cacheStatsBefore = this.embeddingProvider.cacheStats();
     const {
       sourceId,
       sourceType,
@@ -108,6 +122,8 @@ export class SnippetGenerationPipeline {
       maxSnippets = DEFAULT_MAX_SNIPPETS,
       maxTurns = DEFAULT_MAX_TURNS,
       abortSignal,
+      project,
+      secrets,
     } = options;
 
     // Helper to check abort signal
@@ -118,6 +134,7 @@ export class SnippetGenerationPipeline {
     };
 
     const errors: SnippetGenerationResult['errors'] = [];
+    const secretFindings: FileSecretFinding[] = [];
 
     try {
       // Update status to GENERATING
@@ -134,7 +151,7 @@ export class SnippetGenerationPipeline {
       this.emitProgress('exploring', 0, 1, undefined, 'Starting Claude Agent to explore codebase...');
 
       // Build the prompt for the agent
-      const prompt = this.buildAgentPrompt(sourcePath, maxSnippets);
+      const prompt = this.buildAgentPrompt(sourcePath, maxSnippets, project);
 
       // Get the JSON schema for structured output
       const schema = zodToJsonSchema(GenerationResultSchema, { $refStrategy: 'root' });
@@ -157,6 +174,11 @@ export class SnippetGenerationPipeline {
           model: this.agentModel,
           maxTurns,
           systemPrompt: AGENT_SYSTEM_PROMPT,
+          hooks: createSecretGuardHooks({
+            rootPath: sourcePath,
+            policy: secrets,
+            onFinding: (finding) => secretFindings.push(finding),
+          }),
         },
       })) {
         // Check for cancellation on each message
@@ -202,7 +224,7 @@ export class SnippetGenerationPipeline {
         sourceChunkIds: [],
         category: s.category as SnippetCategory,
         keywords: s.keywords,
-        tokenCount: Math.ceil(s.content.length / 4), // Rough token estimate
+        tokenCount: this.tokenizer.countTokens(s.content),
       }));
 
       // Store snippets
@@ -285,6 +307,8 @@ export class SnippetGenerationPipeline {
         projectOverview: agentResult.projectOverview,
         qaItems: agentResult.qaItems || [],
         durationMs: Date.now() - startTime,
+        embeddingCache: this.cacheStatsSince(cacheStatsBefore),
+        secretFindings,
         errors,
       };
     } catch (error) {
@@ -303,11 +327,11 @@ export class SnippetGenerationPipeline {
     }
   }
 
-  private buildAgentPrompt(sourcePath: string, maxSnippets: number): string {
+  private buildAgentPrompt(sourcePath: string, maxSnippets: number, project?: ProjectContext): string {
     return `# Documentation Generation Task
 
 Analyze the codebase at \`${sourcePath}\` using a systematic four-phase approach.
-
+${buildProjectContextSection(project)}
 ---
 
 ## Phase 1: Project Discovery (Build Mental Model)
@@ -509,6 +533,14 @@ Never assume dependencies are already imported.
 Begin analysis now. Start with Phase 1.`;
   }
 
+  /**
+   * Embedding cache hits and misses of the current run
+   */
+  private cacheStatsSince(before: EmbeddingCacheStats): EmbeddingCacheStats {
+    const now = this.embeddingProvider.cacheStats();
+    return { hits: now.hits - before.hits, misses: now.misses - before.misses };
+  }
+
   private emitProgress(
     phase: 'exploring' | 'generating' | 'storing' | 'agent',
     current: number,
@@ -1,3 +1,7 @@
+import type { FileSecretFinding } from '@context8/secret-scanner';
+import type { ProjectContext, SecretPolicy } from '@context8/types';
+import type { TokenizerEncoding } from '@context8/tokenizer';
+
 export type SourceType = 'LOCAL' | 'REMOTE' | 'REPOSITORY';
 
 export type SnippetCategory =
@@ -37,6 +41,10 @@ export interface SnippetGenerationOptions {
   sourcePath: string;
   maxSnippets?: number;
   maxTurns?: number;
+  /** Project settings the agent is told about */
+  project?: ProjectContext;
+  /** What to do with files that contain secrets (default: redact) */
+  secrets?: SecretPolicy;
   /** Abort signal for cancellation */
   abortSignal?: AbortSignal;
 }
@@ -47,6 +55,10 @@ export interface SnippetGenerationResult {
   projectOverview: string;
   qaItems: QAItemData[];
   durationMs: number;
+  /** Embedding cache hits and misses of the run */
+  embeddingCache: { hits: number; misses: number };
+  /** Secrets in files the agent tried to read */
+  secretFindings: FileSecretFinding[];
   errors: Array<{
     file: string;
     message: string;
@@ -80,4 +92,6 @@ export interface PipelineConfig {
   };
   /** Claude Agent SDK model (e.g., 'claude-sonnet-4-5') */
   agentModel?: string;
+  /** Encoding used for snippet token counts (default: cl100k_base) */
+  tokenizerEncoding?: TokenizerEncoding;
 }
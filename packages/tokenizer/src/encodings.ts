@@ -0,0 +1,40 @@
+import type { TiktokenBPE } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+
+/**
+ * BPE encodings bundled with the tokenizer
+ */
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base';
+
+export const DEFAULT_ENCODING: TokenizerEncoding = 'cl100k_base';
+
+export const ENCODING_RANKS: Record<TokenizerEncoding, TiktokenBPE> = {
+  cl100k_base: cl100kBase,
+  o200k_base: o200kBase,
+};
+
+/**
+ * Model name prefixes that use o200k_base. Everything else (GPT-4, GPT-3.5,
+ * embedding models and non-OpenAI models) is counted with cl100k_base.
+ */
+const O200K_MODEL_PREFIXES = ['gpt-4o', 'gpt-4.1', 'gpt-4.5', 'gpt-5', 'chatgpt-4o', 'o1', 'o3', 'o4'];
+
+export function isTokenizerEncoding(value: string): value is TokenizerEncoding {
+  return value in ENCODING_RANKS;
+}
+
+/**
+ * Pick the encoding for a target model. Accepts an encoding name as well so
+ * callers can pass through a configured value unchanged.
+ */
+export function getEncodingForModel(model?: string | null): TokenizerEncoding {
+  if (!model) return DEFAULT_ENCODING;
+
+  const name = model.toLowerCase().replace(/^[\w-]+\//, '');
+  if (isTokenizerEncoding(name)) return name;
+
+  return O200K_MODEL_PREFIXES.some((prefix) => name === prefix || name.startsWith(`${prefix}-`))
+    ? 'o200k_base'
+    : DEFAULT_ENCODING;
+}
@@ -0,0 +1,13 @@
+/**
+ * @context8/tokenizer
+ *
+ * BPE token counting shared by chunking, snippets, search and MCP tools
+ */
+
+export {
+  DEFAULT_ENCODING,
+  getEncodingForModel,
+  isTokenizerEncoding,
+  type TokenizerEncoding,
+} from './encodings.js';
+export { Tokenizer, countTokens, getTokenizer, getTokenizerForModel } from './tokenizer.js';
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { getEncodingForModel, isTokenizerEncoding } from './encodings.js';
+import { Tokenizer, countTokens, getTokenizer, getTokenizerForModel } from './tokenizer.js';
+
+describe('Tokenizer', () => {
+  const tokenizer = getTokenizer();
+
+  it('counts BPE tokens', () => {
+    expect(tokenizer.countTokens('hello world')).toBe(2);
+    expect(tokenizer.countTokens('')).toBe(0);
+    expect(countTokens('const answer = 42;')).toBe(tokenizer.encode('const answer = 42;').length);
+  });
+
+  it('counts special tokens as ordinary text', () => {
+    expect(tokenizer.countTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  it('counts with the requested encoding', () => {
+    const text = 'The quick brown fox jumps over the lazy dog';
+    expect(countTokens(text, 'o200k_base')).toBe(new Tokenizer('o200k_base').countTokens(text));
+    expect(tokenizer.decode(tokenizer.encode(text))).toBe(text);
+  });
+
+  it('truncates to at most maxTokens tokens', () => {
+    const text = 'one two three four five six';
+    const truncated = tokenizer.truncate(text, 3);
+
+    expect(truncated).toBe('one two three');
+    expect(tokenizer.countTokens(truncated)).toBe(3);
+    expect(tokenizer.truncate(text, 100)).toBe(text);
+    expect(tokenizer.truncate(text, 0)).toBe('');
+    expect(tokenizer.truncate(text, -1)).toBe('');
+  });
+
+  it('shares one tokenizer per encoding', () => {
+    expect(getTokenizer('cl100k_base')).toBe(tokenizer);
+    expect(getTokenizerForModel('gpt-4o')).toBe(getTokenizer('o200k_base'));
+  });
+});
+
+describe('getEncodingForModel', () => {
+  it('uses o200k_base for newer OpenAI models, with or without a provider prefix', () => {
+    expect(getEncodingForModel('gpt-4o')).toBe('o200k_base');
+    expect(getEncodingForModel('gpt-4o-mini')).toBe('o200k_base');
+    expect(getEncodingForModel('openai/GPT-4.1')).toBe('o200k_base');
+    expect(getEncodingForModel('o3-mini')).toBe('o200k_base');
+  });
+
+  it('falls back to cl100k_base for other and unknown models', () => {
+    expect(getEncodingForModel('gpt-4')).toBe('cl100k_base');
+    expect(getEncodingForModel('text-embedding-3-small')).toBe('cl100k_base');
+    expect(getEncodingForModel('claude-3-5-sonnet')).toBe('cl100k_base');
+    expect(getEncodingForModel('o10')).toBe('cl100k_base');
+    expect(getEncodingForModel(null)).toBe('cl100k_base');
+    expect(getEncodingForModel()).toBe('cl100k_base');
+    expect(getTokenizerForModel('some-local-model')).toBe(getTokenizer('cl100k_base'));
+  });
+
+  it('passes encoding names through', () => {
+    expect(getEncodingForModel('o200k_base')).toBe('o200k_base');
+    expect(isTokenizerEncoding('cl100k_base')).toBe(true);
+    expect(isTokenizerEncoding('p50k_base')).toBe(false);
+  });
+});
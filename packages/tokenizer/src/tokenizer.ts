@@ -0,0 +1,73 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import { DEFAULT_ENCODING, ENCODING_RANKS, getEncodingForModel, type TokenizerEncoding } from './encodings.js';
+
+/**
+ * BPE tokenizer for a single encoding. The rank table is only parsed on
+ * first use, so constructing one is cheap.
+ */
+export class Tokenizer {
+  readonly encoding: TokenizerEncoding;
+  private bpe: Tiktoken | null = null;
+
+  constructor(encoding: TokenizerEncoding = DEFAULT_ENCODING) {
+    this.encoding = encoding;
+  }
+
+  encode(text: string): number[] {
+    // Special tokens such as `<|endoftext|>` are ordinary text in source files
+    return this.getBpe().encode(text, [], []);
+  }
+
+  decode(tokens: number[]): string {
+    return this.getBpe().decode(tokens);
+  }
+
+  countTokens(text: string): number {
+    if (!text) return 0;
+    return this.encode(text).length;
+  }
+
+  /**
+   * Cut text down to at most `maxTokens` tokens
+   */
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.encode(text);
+    if (tokens.length <= maxTokens) return text;
+    return this.decode(tokens.slice(0, Math.max(0, maxTokens)));
+  }
+
+  private getBpe(): Tiktoken {
+    if (!this.bpe) {
+      this.bpe = new Tiktoken(ENCODING_RANKS[this.encoding]);
+    }
+    return this.bpe;
+  }
+}
+
+const tokenizers = new Map<TokenizerEncoding, Tokenizer>();
+
+/**
+ * Shared tokenizer for an encoding
+ */
+export function getTokenizer(encoding: TokenizerEncoding = DEFAULT_ENCODING): Tokenizer {
+  let tokenizer = tokenizers.get(encoding);
+  if (!tokenizer) {
+    tokenizer = new Tokenizer(encoding);
+    tokenizers.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Shared tokenizer for the encoding used by a target model
+ */
+export function getTokenizerForModel(model?: string | null): Tokenizer {
+  return getTokenizer(getEncodingForModel(model));
+}
+
+/**
+ * Count tokens with the shared tokenizer for an encoding
+ */
+export function countTokens(text: string, encoding: TokenizerEncoding = DEFAULT_ENCODING): number {
+  return getTokenizer(encoding).countTokens(text);
+}
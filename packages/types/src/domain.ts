@@ -72,7 +72,21 @@ export interface CodeChunk {
   updatedAt: Date;
 }
 
-export type SupportedLanguage = 'typescript' | 'python';
+export type SupportedLanguage =
+  | 'typescript'
+  | 'javascript'
+  | 'python'
+  | 'go'
+  | 'rust'
+  | 'java'
+  | 'markdown'
+  | 'json'
+  | 'yaml'
+  | 'toml'
+  | 'env'
+  | 'prisma'
+  | 'sql'
+  | 'graphql';
 
 export type ChunkType =
   | 'function'
@@ -80,8 +94,16 @@ export type ChunkType =
   | 'class'
   | 'interface'
   | 'type_alias'
+  | 'struct'
+  | 'enum'
+  | 'trait'
+  | 'impl'
   | 'module'
-  | 'file_summary';
+  | 'file_summary'
+  | 'readme'
+  | 'documentation'
+  | 'config'
+  | 'schema';
 
 export type ChunkLevel = 'summary' | 'implementation';
 
@@ -108,16 +130,34 @@ export interface DependencyInfo {
   references: string[];
 }
 
+export type ImportKind = 'static' | 'dynamic' | 'require' | 'reexport' | 'module';
+
 export interface ImportStatement {
+  /** Specifier as written, e.g. `./utils`, `os.path`, `crate::config` */
   source: string;
+  /**
+   * Names the import binds in the importing file; `default` for default imports
+   * and `*` for namespace/wildcard imports. Renamed imports bind their alias.
+   */
   specifiers: string[];
+  /**
+   * Name of each specifier in the source module, e.g. `x` for `from m import x as y`;
+   * `*` where an alias binds the module itself
+   */
+  importedNames: string[];
   isTypeOnly: boolean;
+  kind: ImportKind;
+  /** Repository file (or Go package directory) the source resolves to; null for external modules */
+  resolvedPath: string | null;
+  line: number;
 }
 
 export interface ExportStatement {
   name: string;
   isDefault: boolean;
   isTypeOnly: boolean;
+  /** Module the name is re-exported from */
+  source: string | null;
 }
 
 export interface FunctionCall {
@@ -125,6 +165,22 @@ export interface FunctionCall {
   isExternal: boolean;
 }
 
+export type ReferenceKind = 'call' | 'new' | 'type' | 'extends' | 'jsx';
+
+/**
+ * A use of a name inside a file, before it is resolved to a symbol
+ */
+export interface SymbolReference {
+  /** Qualified name of the enclosing symbol; null for module-level code */
+  fromSymbol: string | null;
+  /** Referenced name without its receiver, e.g. `upsert` for `client.upsert()` */
+  name: string;
+  /** Expression the name is accessed on, e.g. `this`, `client`, `os.path` */
+  receiver: string | null;
+  kind: ReferenceKind;
+  line: number;
+}
+
 // ============================================
 // Search & Retrieval
 // ============================================
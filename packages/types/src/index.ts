@@ -3,3 +3,4 @@ export * from './domain.js';
 export * from './mcp.js';
 export * from './api.js';
 export * from './queue.js';
+export * from './project.js';
@@ -65,6 +65,8 @@ export interface FetchFileContextInput {
   file_path: string;
   start_line?: number;
   end_line?: number;
+  /** Cell index, for notebooks */
+  cell?: number;
   include_dependencies?: boolean;
 }
 
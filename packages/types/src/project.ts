@@ -0,0 +1,67 @@
+/**
+ * Per-repository project settings
+ */
+
+/**
+ * What to do with content that contains secrets:
+ * - redact: replace each secret with a `[REDACTED:<rule>]` marker
+ * - skip: leave the whole file out
+ * - off: no scanning
+ */
+export type SecretPolicy = 'redact' | 'skip' | 'off';
+
+/** Chunking options a project may override */
+export interface ProjectChunkingConfig {
+  maxChunkTokens?: number;
+  minChunkTokens?: number;
+  encoding?: 'cl100k_base' | 'o200k_base';
+  keepNotebookOutputs?: boolean;
+}
+
+/** Project identity and file scope, as told to the snippet and wiki agents */
+export interface ProjectContext {
+  /** Display name, used instead of the directory name */
+  name?: string;
+  description?: string;
+  /** File patterns to include (glob) */
+  include?: string[];
+  /** File patterns to exclude (glob) */
+  exclude?: string[];
+}
+
+/**
+ * Settings from the source's `.context8.yml` or `context8.config.json`
+ */
+export interface ProjectConfig extends ProjectContext {
+  /** Other names the project is known by */
+  aliases?: string[];
+  /** Only index files of these languages, e.g. `typescript` or `markdown` */
+  languages?: string[];
+  chunking?: ProjectChunkingConfig;
+  /** LLM summaries of chunks (default: true) */
+  llm?: boolean;
+  /** Wiki generation (default: true) */
+  wiki?: boolean;
+  /** Snippet generation (default: true) */
+  snippets?: boolean;
+  /** What to do with files that contain secrets (default: redact) */
+  secrets?: SecretPolicy;
+}
+
+/**
+ * Agent prompt section with the project's name, description and file
+ * patterns; empty when the project declares none of them
+ */
+export function buildProjectContextSection(project?: ProjectContext): string {
+  const lines: string[] = [];
+  if (project?.name) lines.push(`- Name: ${project.name}`);
+  if (project?.description) lines.push(`- Description: ${project.description}`);
+  if (project?.include?.length) {
+    lines.push(`- Only document files matching: ${project.include.map((p) => `\`${p}\``).join(', ')}`);
+  }
+  if (project?.exclude?.length) {
+    lines.push(`- Ignore files matching: ${project.exclude.map((p) => `\`${p}\``).join(', ')}`);
+  }
+
+  return lines.length > 0 ? `\n## Project Context\n\n${lines.join('\n')}\n` : '';
+}
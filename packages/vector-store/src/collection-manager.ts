@@ -89,6 +89,10 @@ export class CollectionManager {
       { field: 'chunk_type', type: 'keyword' as const },
       { field: 'chunk_level', type: 'keyword' as const },
       { field: 'symbol_name', type: 'text' as const },
+      { field: 'qualified_name', type: 'text' as const },
+      { field: 'visibility', type: 'keyword' as const },
+      { field: 'deprecated', type: 'bool' as const },
+      { field: 'decorators', type: 'keyword' as const },
       { field: 'commit_sha', type: 'keyword' as const },
       { field: 'content_hash', type: 'keyword' as const },
     ];
@@ -206,6 +206,69 @@ export class QdrantClient {
     });
   }
 
+  /**
+   * Update payload fields of a point, keeping its vector (IVectorStore interface)
+   */
+  async setPayload(id: string, payload: Partial<CodeChunkPayload>): Promise<void> {
+    await this.client.setPayload(this.collectionName, {
+      payload,
+      points: [id],
+      wait: true,
+    });
+  }
+
+  /**
+   * Chunk ID, content hash, lines and summary of every point of some files
+   * (IVectorStore interface)
+   */
+  async findChunks(sourceId: string, filePaths: string[]): Promise<Array<{
+    id: string;
+    filePath: string;
+    contentHash?: string;
+    startLine?: number;
+    endLine?: number;
+    summary?: string;
+    keywords?: string[];
+  }>> {
+    if (filePaths.length === 0) return [];
+
+    const chunks = [];
+    let offset: string | number | undefined;
+
+    do {
+      const response = await this.client.scroll(this.collectionName, {
+        filter: {
+          must: [
+            { key: 'source_id', match: { value: sourceId } },
+            { key: 'file_path', match: { any: filePaths } },
+          ],
+        },
+        limit: 256,
+        with_payload: ['file_path', 'content_hash', 'start_line', 'end_line', 'summary', 'keywords'],
+        with_vector: false,
+        offset,
+      });
+
+      for (const point of response.points) {
+        const payload = point.payload as Partial<CodeChunkPayload>;
+        chunks.push({
+          id: String(point.id),
+          filePath: payload.file_path ?? '',
+          contentHash: payload.content_hash,
+          startLine: payload.start_line,
+          endLine: payload.end_line,
+          summary: payload.summary,
+          keywords: payload.keywords,
+        });
+      }
+
+      const next = response.next_page_offset;
+      offset = typeof next === 'string' || typeof next === 'number' ? next : undefined;
+    } while (offset !== undefined);
+
+    return chunks;
+  }
+
   /**
    * Get collection info
    */
@@ -235,6 +298,22 @@ export class QdrantClient {
     return result.count;
   }
 
+  /**
+   * Count points of a source whose ID was derived with a different chunk ID scheme
+   * (IVectorStore interface). Points indexed before versioning have no
+   * `chunk_id_version` and are counted too.
+   */
+  async countLegacyChunks(sourceId: string, idVersion: number): Promise<number> {
+    const result = await this.client.count(this.collectionName, {
+      filter: {
+        must: [{ key: 'source_id', match: { value: sourceId } }],
+        must_not: [{ key: 'chunk_id_version', match: { value: idVersion } }],
+      },
+      exact: true,
+    });
+    return result.count;
+  }
+
   /**
    * Scroll through points with filter
    */
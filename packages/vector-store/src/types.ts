@@ -37,7 +37,7 @@ export interface CodeChunkPayload {
 
   // Location
   file_path: string;
-  start_line?: number;
+  start_line?: number; // Cell index for notebooks
   end_line?: number;
 
   // Code metadata
@@ -45,18 +45,33 @@ export interface CodeChunkPayload {
   chunk_type: string;
   chunk_level?: string;
   symbol_name?: string | null;
+  qualified_name?: string | null; // e.g. `QdrantClient.upsert`
   signature?: string | null;
+  heading_path?: string[]; // Documentation breadcrumb
+
+  // Documentation & modifiers
+  docstring?: string;
+  doc_params?: Array<{ name: string; type: string | null; description: string }>;
+  doc_returns?: string;
+  doc_examples?: string[];
+  deprecation_note?: string;
+  decorators?: string[];
+  visibility?: 'public' | 'private' | 'protected' | 'internal';
+  deprecated?: boolean;
 
   // Content
   content: string;
+  summary?: string; // LLM summary of the content
 
   // Dependencies
   imports?: string[];
   exports?: string[];
+  relations?: string[]; // Schema definitions this one refers to (relations, foreign keys)
 
   // Versioning
   commit_sha?: string;
   content_hash?: string;
+  chunk_id_version?: number; // Chunk ID scheme the point ID was derived with
 
   // Parent reference (for implementation chunks)
   parent_chunk_id?: string | null;
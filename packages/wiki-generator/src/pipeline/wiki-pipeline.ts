@@ -1,8 +1,15 @@
-import { query } from '@anthropic-ai/claude-agent-sdk';
+import { query, type Options as AgentOptions } from '@anthropic-ai/claude-agent-sdk';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import { prisma, localSourceRepository, remoteSourceRepository } from '@context8/database';
-import { createProvider, type IEmbeddingProvider } from '@context8/embedding';
+import { prisma, localSourceRepository, remoteSourceRepository, embeddingCacheRepository } from '@context8/database';
+import {
+  createCachedProvider,
+  createProvider,
+  type CachedEmbeddingProvider,
+  type EmbeddingCacheStats,
+} from '@context8/embedding';
 import { QdrantClient } from '@context8/vector-store';
+import { createSecretGuardHooks, type FileSecretFinding } from '@context8/secret-scanner';
+import type { ProjectContext } from '@context8/types';
 import {
   WikiStructureOutputSchema,
   WikiPageContentSchema,
@@ -31,19 +38,22 @@ const DEFAULT_MAX_TURNS = 50;
 const DEFAULT_CONCURRENCY = 5;
 
 export class WikiGenerationPipeline {
-  private embeddingProvider: IEmbeddingProvider;
+  private embeddingProvider: CachedEmbeddingProvider;
   private qdrant: QdrantClient;
   private progressCallback?: ProgressCallback;
   private agentModel: string;
 
   constructor(config: PipelineConfig) {
-    this.embeddingProvider = createProvider({
-      provider: config.embeddingConfig.provider as 'openai' | 'bigmodel' | 'voyage',
-      apiKey: config.embeddingConfig.apiKey,
-      baseUrl: config.embeddingConfig.baseUrl,
-      model: config.embeddingConfig.model,
-      dimensions: config.embeddingConfig.dimensions,
-    });
+    this.embeddingProvider = createCachedProvider(
+      createProvider({
+        provider: config.embeddingConfig.provider as 'openai' | 'bigmodel' | 'voyage',
+        apiKey: config.embeddingConfig.apiKey,
+        baseUrl: config.embeddingConfig.baseUrl,
+        model: config.embeddingConfig.model,
+        dimensions: config.embeddingConfig.dimensions,
+      }),
+      embeddingCacheRepository
+    );
 
     this.qdrant = new QdrantClient(
       {
@@ -63,6 +73,7 @@ export class WikiGenerationPipeline {
 
   async generate(options: WikiGenerationOptions): Promise<WikiGenerationResult> {
     const startTime = Date.now();
+    const cacheStatsBefore = this.embeddingProvider.cacheStats();
     const {
       sourceId,
       sourceType,
@@ -71,6 +82,8 @@ export class WikiGenerationPipeline {
       maxTurns = DEFAULT_MAX_TURNS,
       abortSignal,
       concurrency = DEFAULT_CONCURRENCY,
+      project,
+      secrets,
     } = options;
 
     // Helper to check abort signal
@@ -81,6 +94,13 @@ export class WikiGenerationPipeline {
     };
 
     const errors: WikiGenerationResult['errors'] = [];
+    const secretFindings: FileSecretFinding[] = [];
+    // Shared by every agent run, so each file is scanned and reported once
+    const hooks = createSecretGuardHooks({
+      rootPath: sourcePath,
+      policy: secrets,
+      onFinding: (finding) => secretFindings.push(finding),
+    });
 
     try {
       // Update status to GENERATING_STRUCTURE
@@ -92,7 +112,7 @@ export class WikiGenerationPipeline {
       checkAbort();
       this.emitProgress('structure', 0, 1, undefined, 'Starting Claude Agent to analyze codebase...');
 
-      const structure = await this.generateStructure(sourcePath, maxPages, maxTurns, abortSignal);
+      const structure = await this.generateStructure(sourcePath, maxPages, maxTurns, hooks, abortSignal, project);
 
       this.emitProgress(
         'structure',
@@ -161,6 +181,7 @@ export class WikiGenerationPipeline {
               sourcePath,
               pageOutline,
               Math.min(maxTurns, 30), // Fewer turns for individual pages
+              hooks,
               abortSignal
             );
 
@@ -354,6 +375,8 @@ export class WikiGenerationPipeline {
         pageCount: generatedPages.length,
         pages: generatedPages,
         durationMs: Date.now() - startTime,
+        embeddingCache: this.cacheStatsSince(cacheStatsBefore),
+        secretFindings,
         errors,
       };
     } catch (error) {
@@ -383,9 +406,11 @@ export class WikiGenerationPipeline {
     sourcePath: string,
     maxPages: number,
     maxTurns: number,
-    abortSignal?: AbortSignal
+    hooks: AgentOptions['hooks'],
+    abortSignal?: AbortSignal,
+    project?: ProjectContext
   ): Promise<WikiStructureOutput> {
-    const prompt = buildStructurePrompt(sourcePath, maxPages);
+    const prompt = buildStructurePrompt(sourcePath, maxPages, project);
     const schema = zodToJsonSchema(WikiStructureOutputSchema, { $refStrategy: 'root' });
 
     let result: WikiStructureOutput | null = null;
@@ -405,6 +430,7 @@ export class WikiGenerationPipeline {
         model: this.agentModel,
         maxTurns,
         systemPrompt: STRUCTURE_SYSTEM_PROMPT,
+        hooks,
       },
     })) {
       // Check for cancellation on each message
@@ -453,6 +479,7 @@ export class WikiGenerationPipeline {
     sourcePath: string,
     page: WikiPageOutline,
     maxTurns: number,
+    hooks: AgentOptions['hooks'],
     abortSignal?: AbortSignal
   ): Promise<WikiPageContent> {
     const prompt = buildPageContentPrompt(sourcePath, {
@@ -484,6 +511,7 @@ export class WikiGenerationPipeline {
             model: this.agentModel,
             maxTurns,
             systemPrompt: CONTENT_SYSTEM_PROMPT,
+            hooks,
           },
         })) {
           // Check for cancellation on each message
@@ -564,6 +592,14 @@ export class WikiGenerationPipeline {
     }
   }
 
+  /**
+   * Embedding cache hits and misses of the current run
+   */
+  private cacheStatsSince(before: EmbeddingCacheStats): EmbeddingCacheStats {
+    const now = this.embeddingProvider.cacheStats();
+    return { hits: now.hits - before.hits, misses: now.misses - before.misses };
+  }
+
   /**
    * Emit progress update
    */
@@ -1,3 +1,5 @@
+import { buildProjectContextSection, type ProjectContext } from '@context8/types';
+
 /**
  * System prompt for Phase 1: Wiki structure determination
  */
@@ -139,11 +141,11 @@ Citation rules:
 /**
  * Build the prompt for Phase 1: Wiki structure determination
  */
-export function buildStructurePrompt(sourcePath: string, maxPages: number): string {
+export function buildStructurePrompt(sourcePath: string, maxPages: number, project?: ProjectContext): string {
   return `# Wiki Structure Generation Task
 
 Analyze the codebase at \`${sourcePath}\` and create a comprehensive wiki documentation structure.
-
+${buildProjectContextSection(project)}
 ## Phase 1: Project Discovery
 
 ### Step 1: Read Project Identity
@@ -1,3 +1,6 @@
+import type { FileSecretFinding } from '@context8/secret-scanner';
+import type { ProjectContext, SecretPolicy } from '@context8/types';
+
 export type SourceType = 'LOCAL' | 'REMOTE' | 'REPOSITORY';
 
 export type WikiImportance = 'HIGH' | 'MEDIUM' | 'LOW';
@@ -27,6 +30,10 @@ export interface WikiGenerationOptions {
   sourcePath: string;
   maxPages?: number;
   maxTurns?: number;
+  /** Project settings the agent is told about */
+  project?: ProjectContext;
+  /** What to do with files that contain secrets (default: redact) */
+  secrets?: SecretPolicy;
   /** Abort signal for cancellation */
   abortSignal?: AbortSignal;
   /** Number of concurrent page generations (default: 5) */
@@ -40,6 +47,10 @@ export interface WikiGenerationResult {
   pageCount: number;
   pages: Array<{ pageId: string; title: string }>;
   durationMs: number;
+  /** Embedding cache hits and misses of the run */
+  embeddingCache: { hits: number; misses: number };
+  /** Secrets in files the agent tried to read */
+  secretFindings: FileSecretFinding[];
   errors: Array<{
     phase: string;
     message: string;